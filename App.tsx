@@ -1,65 +1,428 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { UploadZone } from './components/UploadZone';
-import { Editor } from './components/Editor';
-import { fileToBase64, getBase64Data, getMimeType } from './utils/imageHelpers';
-import { processFaceImage } from './services/geminiService';
-import { AlertCircle } from 'lucide-react';
+import { Editor, INITIAL_DOCUMENT, ProcessOptions } from './components/Editor';
+import { RecentProjects } from './components/RecentProjects';
+import { BatchQueue } from './components/BatchQueue';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { usePresets } from './hooks/usePresets';
+import { BatchSettings, BrushStroke, EditorDocument, ImageSource, RetouchVariant, SourceFormat, Spot } from './types';
+import { QualityReport } from './utils/qualityCheck';
+import { deleteProject, getProject, listProjects, ProjectSummary, saveProject, updateProject } from './services/projectStore';
+import { exportBatch } from './utils/batchExport';
+import { createThumbnail, downloadBlob, loadImage, revokeObjectUrl, toObjectUrl, urlToBlob } from './utils/imageHelpers';
+import { upgradeSpots } from './utils/spotShape';
+import { ImageIngestError } from './utils/ingest';
+import { runImageTask } from './utils/imageWorkerClient';
+import { getActiveProviderId, listProviders, setActiveProviderId } from './services/retouchService';
+import { retouchRegions, retouchVariants, RetouchProgress } from './services/retouchPipeline';
+import { RetouchProviderId } from './services/providers/types';
+import { isCancelled, isRefusal, RetouchError } from './services/providers/errors';
+import { computeSkinMask, SkinMask } from './utils/skinMask';
+import { AlertCircle, Info } from 'lucide-react';
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+// Editor changes are written to IndexedDB at most this often
+const SAVE_DELAY_MS = 400;
+const OFFLINE_HINT = "You can still mark spots in Manual mode and use Heal Offline.";
+// Extra attempts per run when auto-retry is on and a result fails the quality checks
+const QUALITY_RETRIES = 2;
+
+// Projects saved before ingestion only hold files the old picker accepted
+const LEGACY_FORMATS: Record<string, SourceFormat> = { 'image/jpeg': 'jpeg', 'image/png': 'png' };
+
+interface EditorStart {
+  /** Identifies the editing session; the editor starts afresh when it changes. */
+  session?: string;
+  document?: Partial<EditorDocument>;
+}
 
 const App: React.FC = () => {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [processedImage, setProcessedImage] = useState<string | null>(null);
+  // The opened file at full resolution, for export
+  const [imageSource, setImageSource] = useState<ImageSource | null>(null);
+  const [variants, setVariants] = useState<RetouchVariant[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Safety blocks and image-less answers get an explanation in the Editor instead of the error banner
+  const [refusal, setRefusal] = useState<RetouchError | null>(null);
+  const [progress, setProgress] = useState<RetouchProgress | null>(null);
+  const [skinMask, setSkinMask] = useState<SkinMask | null>(null);
+  const [providerId, setProviderId] = useState<RetouchProviderId>(getActiveProviderId);
+  const [batchSettings, setBatchSettings] = useState<BatchSettings>({ intensity: 60, texture: 75, skinOnly: true, concurrency: 2 });
+  const [openBatchItemId, setOpenBatchItemId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [editorStart, setEditorStart] = useState<EditorStart>({});
+  const [sourceName, setSourceName] = useState('dermafix');
+  const saveTimer = useRef<number | undefined>(undefined);
+  // Aborts the running retouch or heal request
+  const abortRef = useRef<AbortController | null>(null);
+  // Object URLs of the open image, freed when it's replaced; a batch item's stay with the queue.
+  // `id` tells async work that finishes after another image was opened that it's stale
+  const sessionRef = useRef({ id: editorStart.session, originalImage, variants, skinMask, openBatchItemId });
+  sessionRef.current = { id: editorStart.session, originalImage, variants, skinMask, openBatchItemId };
+
+  const releaseSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (session.openBatchItemId) return;
+    [session.originalImage, session.skinMask?.image, ...session.variants.flatMap(v => [v.image, v.quality?.overlay])]
+      .forEach(url => url && revokeObjectUrl(url));
+  }, []);
+
+  const presets = usePresets();
+  const batch = useBatchQueue({ providerId, preset: presets.active, concurrency: batchSettings.concurrency });
+  const { addFiles: addBatchFiles, updateItem: updateBatchItem } = batch;
+
+  const refreshProjects = useCallback(() => {
+    listProjects().then(setRecentProjects).catch(err => console.error("Failed to list projects:", err));
+  }, []);
+
+  useEffect(refreshProjects, [refreshProjects]);
+
+  const handleProviderChange = useCallback((id: RetouchProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
+  }, []);
 
   const handleImageSelected = useCallback(async (file: File) => {
     try {
       setError(null);
-      if (file.size > 50 * 1024 * 1024) {
+      if (file.size > MAX_FILE_SIZE) {
         setError("File size exceeds 50MB limit.");
         return;
       }
       
-      const base64 = await fileToBase64(file);
-      setOriginalImage(base64);
-      setProcessedImage(null); // Reset previous result
+      const { working, source } = await runImageTask('ingest', { file, name: file.name });
+      const id = `project-${Date.now()}`;
+      releaseSession();
+      const image = toObjectUrl(working);
+      setOriginalImage(image);
+      setImageSource(source);
+      setVariants([]); // Reset previous results
+      setNotice(null);
+      setRefusal(null);
+      setSkinMask(null);
+      setEditorStart({ session: id });
+      setProjectId(null);
+      setSourceName(file.name);
+
+      // Segmentation is local and cheap; a missing mask just means the whole frame is used
+      computeSkinMask(image).then(setSkinMask).catch(err => console.error("Skin segmentation failed:", err));
+
+      // Persist the session so a reload doesn't lose it. Updates go to the project only
+      // once it's stored; the editor then reports its document again, so no edit is lost
+      try {
+        await saveProject({
+          id,
+          name: file.name,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          thumbnail: await createThumbnail(image),
+          original: file,
+          working,
+          source: { format: source.format, width: source.width, height: source.height },
+          results: [],
+          resultLabels: [],
+          activeResult: -1,
+          document: INITIAL_DOCUMENT
+        });
+        if (sessionRef.current.id === id) setProjectId(id);
+      } catch (err) {
+        console.error("Failed to save project:", err);
+      }
     } catch (err) {
       console.error(err);
-      setError("Failed to load image. Please try another file.");
+      setError(err instanceof ImageIngestError ? err.message : "Failed to load image. Please try another file.");
     }
-  }, []);
+  }, [releaseSession]);
+
+  const handleImagesSelected = useCallback((files: File[]) => {
+    setError(null);
+    const accepted = files.filter(file => file.size <= MAX_FILE_SIZE);
+    if (accepted.length < files.length) {
+      setError(`${files.length - accepted.length} file(s) exceed the 50MB limit and were skipped.`);
+    }
+    if (accepted.length === 0) return;
+
+    // A single image opens straight in the editor; several start a batch
+    if (accepted.length === 1 && batch.items.length === 0) {
+      handleImageSelected(accepted[0]);
+    } else {
+      addBatchFiles(accepted).then(failed => {
+        if (failed.length === 1) setError(`${failed[0].name}: ${failed[0].error}`);
+        else if (failed.length > 1) setError(`${failed.length} files couldn't be opened and were skipped: ${failed.map(f => f.name).join(', ')}.`);
+      }).catch(err => {
+        console.error(err);
+        setError("Failed to load some images. Please try other files.");
+      });
+    }
+  }, [batch.items.length, addBatchFiles, handleImageSelected]);
 
-  const handleProcessImage = useCallback(async () => {
+  const handleOpenBatchItem = useCallback((id: string) => {
+    const item = batch.items.find(i => i.id === id);
+    if (!item) return;
+    releaseSession();
+    setOriginalImage(item.original);
+    setImageSource(item.source);
+    const restored = item.processed ? [{ id: 'variant-0', image: item.processed, label: 'Variant 1' }] : [];
+    setVariants(item.variants.length > 0 ? item.variants : restored);
+    setSkinMask(item.skinMask);
+    setNotice(item.notice);
+    setError(item.error);
+    setRefusal(null);
+    setEditorStart({ session: id, document: { intensity: batchSettings.intensity, texture: batchSettings.texture, skinOnly: batchSettings.skinOnly } });
+    setProjectId(null);
+    setSourceName(item.name);
+    setOpenBatchItemId(id);
+    if (!item.skinMask) {
+      computeSkinMask(item.original)
+        .then(mask => {
+          setSkinMask(mask);
+          updateBatchItem(id, { skinMask: mask });
+        })
+        .catch(err => console.error("Skin segmentation failed:", err));
+    }
+  }, [batch.items, batchSettings, releaseSession, updateBatchItem]);
+
+  const handleExportBatch = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await exportBatch(batch.items, batchSettings), 'dermafix-batch.zip');
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message || "Failed to export the batch.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [batch.items, batchSettings]);
+
+  /** Appends new results as variants and records them in the saved project. */
+  const addVariants = useCallback(async (
+    images: string[],
+    labels: string[] = [],
+    quality: QualityReport[] = []
+  ): Promise<RetouchVariant[]> => {
+    const added = images.map((image, i) => ({
+      id: `variant-${variants.length + i}`,
+      image,
+      label: labels[i] ?? `Variant ${variants.length + i + 1}`,
+      quality: quality[i]
+    }));
+    setVariants(prev => [...prev, ...added]);
+
+    if (openBatchItemId && images.length > 0) {
+      updateBatchItem(openBatchItemId, {
+        status: 'done',
+        processed: images[images.length - 1],
+        variants: [...variants, ...added],
+        skinMask,
+        error: null
+      });
+    }
+    if (projectId) {
+      const blobs = await Promise.all(images.map(urlToBlob));
+      updateProject(projectId, project => ({
+        results: [...project.results, ...blobs],
+        resultLabels: [...(project.resultLabels ?? []), ...added.map(v => v.label)],
+        activeResult: project.results.length + blobs.length - 1
+      })).catch(err => console.error("Failed to save result:", err));
+    }
+    return added;
+  }, [variants, openBatchItemId, projectId, skinMask, updateBatchItem]);
+
+  const handleProcessImage = useCallback(async (
+    count = 1,
+    { parallel = true, autoRetry = false, cropToFace = false }: ProcessOptions = {}
+  ) => {
     if (!originalImage) return;
 
     setIsProcessing(true);
     setError(null);
+    setNotice(null);
+    setRefusal(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const mimeType = getMimeType(originalImage);
-      const rawBase64 = getBase64Data(originalImage);
-      
-      const processedBase64Data = await processFaceImage(rawBase64, mimeType);
-      
-      // Construct valid Data URL
-      setProcessedImage(`data:${mimeType};base64,${processedBase64Data}`);
-    } catch (err: any) {
+      const result = await retouchVariants(originalImage, {
+        providerId,
+        preset: presets.active,
+        skinMask,
+        cropToFace,
+        count,
+        parallel,
+        retries: autoRetry ? QUALITY_RETRIES : 0,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      if (result.images.length === 0) {
+        const [failure] = result.failures;
+        if (isRefusal(failure)) {
+          setRefusal(failure);
+        } else {
+          setError(`${result.errors[0] || "Failed to process image."} ${OFFLINE_HINT}`);
+        }
+        return;
+      }
+      const failed = result.errors.length > 0 ? `${result.errors.length} of ${count} runs failed.` : null;
+      setNotice([...result.notices, failed].filter(Boolean).join(' ') || null);
+      await addVariants(result.images, [], result.quality);
+    } catch (err) {
+      if (isCancelled(err)) {
+        setNotice(err.message);
+        return;
+      }
       console.error(err);
-      setError(err.message || "Failed to process image with Gemini AI.");
+      setError(`${(err as Error).message || "Failed to process image."} ${OFFLINE_HINT}`);
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
+      setProgress(null);
     }
-  }, [originalImage]);
+  }, [originalImage, providerId, presets.active, skinMask, addVariants]);
+
+  const handleHealSelected = useCallback(async (
+    spots: Spot[],
+    strokes: BrushStroke[],
+    engine: RetouchProviderId = providerId
+  ): Promise<string | null> => {
+    if (!originalImage) return null;
+
+    setIsProcessing(true);
+    setError(null);
+    setNotice(null);
+    setRefusal(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const result = await retouchRegions(originalImage, {
+        providerId: engine,
+        preset: presets.active,
+        spots,
+        strokes,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      if (result.error || !result.image) {
+        setError(result.error || "Failed to heal the selected areas.");
+        return null;
+      }
+      setNotice(result.notice);
+      const label = engine === 'local' ? `Local ${variants.length + 1}` : `Healed ${variants.length + 1}`;
+      const [healed] = await addVariants([result.image], [label]);
+      return healed.id;
+    } catch (err) {
+      if (isCancelled(err)) {
+        setNotice(err.message);
+        return null;
+      }
+      if (isRefusal(err)) {
+        setRefusal(err);
+        return null;
+      }
+      console.error(err);
+      setError((err as Error).message || "Failed to heal the selected areas.");
+      return null;
+    } finally {
+      abortRef.current = null;
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  }, [originalImage, providerId, presets.active, variants.length, addVariants]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const handleAddVariant = useCallback((image: string, label: string) => {
+    addVariants([image], [label]);
+  }, [addVariants]);
+
+  const handleDocumentChange = useCallback((document: EditorDocument) => {
+    if (!projectId) return;
+    window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(() => {
+      updateProject(projectId, () => ({ document })).catch(err => console.error("Failed to save project:", err));
+    }, SAVE_DELAY_MS);
+  }, [projectId]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      const project = await getProject(id);
+      if (!project) {
+        refreshProjects();
+        return;
+      }
+      // Projects saved before ingestion used the file itself as the working copy
+      releaseSession();
+      const original = toObjectUrl(project.working ?? project.original);
+      const restored = project.results.map((blob, i) => ({
+        id: `variant-${i}`,
+        image: toObjectUrl(blob),
+        label: project.resultLabels?.[i] ?? `Variant ${i + 1}`
+      }));
+
+      const { naturalWidth, naturalHeight } = await loadImage(original);
+      const source: ImageSource = {
+        blob: project.original,
+        ...(project.source ?? { format: LEGACY_FORMATS[project.original.type] ?? 'other', width: naturalWidth, height: naturalHeight })
+      };
+      const restoredDocument = {
+        ...project.document,
+        skinOnly: project.document.skinOnly ?? project.skinOnly,
+        spots: upgradeSpots(project.document.spots, naturalWidth, naturalHeight)
+      };
+
+      setEditorStart({ session: id, document: restoredDocument });
+      setOriginalImage(original);
+      setImageSource(source);
+      setVariants(restored);
+      setNotice(null);
+      setRefusal(null);
+      setSkinMask(null);
+      setOpenBatchItemId(null);
+      setSourceName(project.name);
+      setProjectId(id);
+
+      computeSkinMask(original).then(setSkinMask).catch(err => console.error("Skin segmentation failed:", err));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to open the project.");
+    }
+  }, [refreshProjects, releaseSession]);
+
+  const handleDeleteProject = useCallback((id: string) => {
+    deleteProject(id).then(refreshProjects).catch(err => console.error("Failed to delete project:", err));
+  }, [refreshProjects]);
 
   const handleReset = useCallback(() => {
+    releaseSession();
     setOriginalImage(null);
-    setProcessedImage(null);
+    setImageSource(null);
+    setVariants([]);
     setError(null);
-  }, []);
+    setNotice(null);
+    setRefusal(null);
+    setSkinMask(null);
+    setOpenBatchItemId(null);
+    setProjectId(null);
+    setEditorStart({});
+    refreshProjects();
+  }, [refreshProjects, releaseSession]);
 
   return (
     <div className="flex flex-col min-h-screen bg-slate-950 text-slate-50 selection:bg-brand-500/30">
-      <Header />
+      <Header
+        providers={listProviders()}
+        providerId={providerId}
+        onProviderChange={handleProviderChange}
+        disabled={isProcessing}
+      />
       
       <main className="flex-1 flex flex-col p-4 md:p-8 max-w-6xl mx-auto w-full">
         
@@ -70,7 +433,34 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {!originalImage ? (
+        {notice && (
+          <div className="mb-6 p-4 rounded-lg bg-amber-500/10 border border-amber-500/20 flex items-center gap-3 text-amber-200 animate-in fade-in slide-in-from-top-4">
+            <Info className="w-5 h-5 text-amber-400 shrink-0" />
+            <p className="text-sm font-medium">{notice}</p>
+          </div>
+        )}
+
+        {!originalImage && batch.items.length > 0 ? (
+          <div className="flex-1 animate-in fade-in slide-in-from-bottom-8 duration-500">
+            <BatchQueue
+              items={batch.items}
+              settings={batchSettings}
+              isRunning={batch.isRunning}
+              isExporting={isExporting}
+              onSettingsChange={setBatchSettings}
+              onAddFiles={handleImagesSelected}
+              onStart={batch.start}
+              onPause={batch.pause}
+              onCancel={batch.cancel}
+              onRetry={batch.retry}
+              onRetryFailed={batch.retryFailed}
+              onRemove={batch.removeItem}
+              onOpen={handleOpenBatchItem}
+              onExport={handleExportBatch}
+              onClear={batch.clear}
+            />
+          </div>
+        ) : !originalImage ? (
           <div className="flex-1 flex flex-col items-center justify-center min-h-[500px] animate-in zoom-in-95 duration-500">
             <div className="w-full max-w-xl">
               <div className="text-center mb-10 space-y-4">
@@ -81,7 +471,9 @@ const App: React.FC = () => {
                   AI-powered blemish removal that respects your skin's texture. No blur, no filters, just you on your best day.
                 </p>
               </div>
-              <UploadZone onImageSelected={handleImageSelected} isProcessing={isProcessing} />
+              <UploadZone onImagesSelected={handleImagesSelected} isProcessing={isProcessing} />
+
+              <RecentProjects projects={recentProjects} onOpen={handleOpenProject} onDelete={handleDeleteProject} />
               
               <div className="mt-12 grid grid-cols-1 sm:grid-cols-3 gap-6 text-center text-sm text-slate-500">
                  <div>
@@ -102,11 +494,25 @@ const App: React.FC = () => {
         ) : (
           <div className="flex-1 animate-in fade-in slide-in-from-bottom-8 duration-500">
             <Editor 
+              key={editorStart.session ?? 'single'}
+              initialDocument={editorStart.document}
+              onDocumentChange={handleDocumentChange}
               originalImage={originalImage}
-              processedImage={processedImage}
+              source={imageSource}
+              variants={variants}
+              skinMask={skinMask}
+              sourceName={sourceName}
               isProcessing={isProcessing}
+              progress={progress}
+              presets={presets}
               onReset={handleReset}
               onProcess={handleProcessImage}
+              onCancel={handleCancel}
+              refusal={refusal}
+              onDismissRefusal={() => setRefusal(null)}
+              onAddVariant={handleAddVariant}
+              onError={setError}
+              onHealSelected={handleHealSelected}
             />
           </div>
         )}
@@ -0,0 +1,252 @@
+import React, { useRef } from 'react';
+import { Play, Pause, Square, RotateCcw, Download, Trash2, X, Plus, CheckCircle2, AlertTriangle, Clock, RefreshCw } from 'lucide-react';
+import { BatchItem, BatchSettings, BatchStatus } from '../types';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  settings: BatchSettings;
+  isRunning: boolean;
+  isExporting: boolean;
+  onSettingsChange: (settings: BatchSettings) => void;
+  onAddFiles: (files: File[]) => void;
+  onStart: () => void;
+  onPause: () => void;
+  /** Aborts the items being processed and stops the queue. */
+  onCancel: () => void;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: string) => void;
+  onOpen: (id: string) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  pending: { label: 'Pending', className: 'text-slate-400 bg-slate-800', icon: <Clock className="w-3 h-3" /> },
+  processing: { label: 'Processing', className: 'text-brand-200 bg-brand-600/30', icon: <RefreshCw className="w-3 h-3 animate-spin" /> },
+  done: { label: 'Done', className: 'text-emerald-300 bg-emerald-500/15', icon: <CheckCircle2 className="w-3 h-3" /> },
+  failed: { label: 'Failed', className: 'text-red-300 bg-red-500/15', icon: <AlertTriangle className="w-3 h-3" /> },
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  settings,
+  isRunning,
+  isExporting,
+  onSettingsChange,
+  onAddFiles,
+  onStart,
+  onPause,
+  onCancel,
+  onRetry,
+  onRetryFailed,
+  onRemove,
+  onOpen,
+  onExport,
+  onClear
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const count = (status: BatchStatus) => items.filter(item => item.status === status).length;
+  const doneCount = count('done');
+  const failedCount = count('failed');
+  const pendingCount = count('pending');
+  const processingCount = count('processing');
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+
+      {/* --- Queue --- */}
+      <div className="flex-1 bg-slate-900/50 rounded-2xl border border-slate-800 overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-800">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Batch Queue</h2>
+            <p className="text-xs text-slate-400">
+              {items.length} images · {doneCount} done · {failedCount} failed · {pendingCount} pending
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/png, image/jpeg, image/jpg"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files) onAddFiles(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" /> Add
+            </button>
+            <button
+              onClick={onClear}
+              disabled={isRunning}
+              className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium rounded-lg border border-red-900/50 text-red-400 hover:bg-red-950/30 disabled:opacity-40 transition-colors"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Clear
+            </button>
+          </div>
+        </div>
+
+        <ul className="divide-y divide-slate-800 max-h-[65vh] overflow-y-auto">
+          {items.map(item => {
+            const status = STATUS_STYLES[item.status];
+            return (
+              <li key={item.id} className="flex items-center gap-4 p-3 hover:bg-slate-800/40">
+                <button
+                  onClick={() => onOpen(item.id)}
+                  className="shrink-0 w-14 h-14 rounded-lg overflow-hidden bg-slate-800 border border-slate-700 hover:border-brand-500 transition-colors"
+                  title="Open in editor"
+                >
+                  <img src={item.processed ?? item.original} alt={item.name} className="w-full h-full object-cover" />
+                </button>
+
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm text-slate-200 truncate">{item.name}</p>
+                  {item.status === 'processing' && (
+                    <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                      <div className="h-full bg-brand-500 transition-all" style={{ width: `${Math.max(5, item.progress * 100)}%` }} />
+                    </div>
+                  )}
+                  {item.error && <p className="text-xs text-red-400 truncate" title={item.error}>{item.error}</p>}
+                  {item.notice && !item.error && <p className="text-xs text-amber-300/80 truncate" title={item.notice}>{item.notice}</p>}
+                </div>
+
+                <span className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                  {status.icon} {status.label}
+                </span>
+
+                <div className="flex items-center gap-1">
+                  {item.status === 'failed' && (
+                    <button
+                      onClick={() => onRetry(item.id)}
+                      title="Retry"
+                      className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemove(item.id)}
+                    disabled={item.status === 'processing'}
+                    title="Remove"
+                    className="p-1.5 rounded-md text-slate-500 hover:text-red-400 hover:bg-slate-700 disabled:opacity-30 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {/* --- Shared Settings --- */}
+      <div className="w-full lg:w-80 flex flex-col gap-6 bg-slate-900/50 p-6 rounded-2xl border border-slate-800 h-fit">
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Batch Settings</h3>
+
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-300">Tone</span>
+            <span className="text-brand-400 font-mono">{settings.intensity}%</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={settings.intensity}
+            onChange={(e) => onSettingsChange({ ...settings, intensity: parseInt(e.target.value) })}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+          />
+
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-300">Texture</span>
+            <span className="text-brand-400 font-mono">{settings.texture}%</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={settings.texture}
+            onChange={(e) => onSettingsChange({ ...settings, texture: parseInt(e.target.value) })}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+          />
+
+          <label className="flex items-center justify-between text-sm text-slate-300">
+            <span>Skin only</span>
+            <input
+              type="checkbox"
+              checked={settings.skinOnly}
+              onChange={(e) => onSettingsChange({ ...settings, skinOnly: e.target.checked })}
+              className="w-4 h-4 accent-brand-500"
+            />
+          </label>
+
+          <label className="flex items-center justify-between text-sm text-slate-300">
+            <span>Parallel requests</span>
+            <select
+              value={settings.concurrency}
+              onChange={(e) => onSettingsChange({ ...settings, concurrency: parseInt(e.target.value) })}
+              className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 text-xs focus:outline-none focus:border-brand-500"
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="h-px bg-slate-800" />
+
+        <div className="space-y-2">
+          {isRunning ? (
+            <button
+              onClick={onPause}
+              className="w-full flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-semibold text-white bg-slate-700 hover:bg-slate-600 transition-all"
+            >
+              <Pause className="w-4 h-4" /> Pause
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={pendingCount === 0}
+              className="w-full flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-semibold text-white bg-brand-600 hover:bg-brand-500 shadow-lg shadow-brand-500/20 disabled:opacity-40 disabled:shadow-none transition-all"
+            >
+              <Play className="w-4 h-4" /> Process {pendingCount} Images
+            </button>
+          )}
+
+          {processingCount > 0 && (
+            <button
+              onClick={onCancel}
+              className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium text-red-300 border border-red-900/50 hover:bg-red-950/30 rounded-lg transition-colors"
+            >
+              <Square className="w-3 h-3" /> Cancel {processingCount} Running
+            </button>
+          )}
+
+          {failedCount > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium text-amber-300 border border-amber-900/50 hover:bg-amber-950/30 rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> Retry {failedCount} Failed
+            </button>
+          )}
+
+          <button
+            onClick={onExport}
+            disabled={doneCount === 0 || isExporting}
+            className="w-full flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white font-semibold shadow-lg shadow-emerald-500/20 disabled:opacity-40 disabled:shadow-none transition-all"
+          >
+            {isExporting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export {doneCount} as ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import { Check, ScanFace, X } from 'lucide-react';
+import { BlemishType, DetectionFilter, Spot } from '../types';
+import { BLEMISH_LABELS, BLEMISH_TYPES } from '../utils/blemishDetection';
+
+/** Outline colour per blemish type, shared with the spot overlay. */
+export const BLEMISH_COLORS: Record<BlemishType, string> = {
+  acne: '#f43f5e',
+  redness: '#f97316',
+  scar: '#a78bfa',
+  mole: '#38bdf8',
+};
+
+interface BlemishSuggestionsProps {
+  spots: Spot[];
+  filter: DetectionFilter;
+  selectedSpot: Spot | null;
+  isDetecting: boolean;
+  onDetect: () => void;
+  onToggleType: (type: BlemishType) => void;
+  onMinConfidence: (value: number) => void;
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+  onAcceptVisible: () => void;
+  onRejectPending: () => void;
+}
+
+/** Sidebar for detected blemishes: run detection, filter the suggestions, and review them one by one. */
+export const BlemishSuggestions: React.FC<BlemishSuggestionsProps> = ({
+  spots,
+  filter,
+  selectedSpot,
+  isDetecting,
+  onDetect,
+  onToggleType,
+  onMinConfidence,
+  onAccept,
+  onReject,
+  onAcceptVisible,
+  onRejectPending
+}) => {
+  const pending = spots.filter(spot => spot.detection && !spot.detection.accepted);
+  const accepted = spots.filter(spot => spot.detection?.accepted).length;
+  const counts = BLEMISH_TYPES.map(type => ({
+    type,
+    count: pending.filter(spot => spot.detection!.type === type).length
+  }));
+  const detection = selectedSpot?.detection;
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={onDetect}
+        disabled={isDetecting}
+        title="Find likely blemishes on the skin and add them as spots to review"
+        className="w-full flex items-center justify-center gap-2 py-2 text-xs font-medium text-slate-200 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg disabled:opacity-50 transition-colors"
+      >
+        <ScanFace className={`w-3.5 h-3.5 ${isDetecting ? 'animate-pulse' : ''}`} />
+        {isDetecting ? 'Detecting…' : 'Detect Blemishes'}
+      </button>
+
+      {(pending.length > 0 || accepted > 0) && (
+        <>
+          <div role="group" aria-label="Suggestion types" className="flex flex-wrap gap-1.5">
+            {counts.map(({ type, count }) => {
+              const active = filter.types.includes(type);
+              return (
+                <button
+                  key={type}
+                  onClick={() => onToggleType(type)}
+                  aria-pressed={active}
+                  aria-label={`${BLEMISH_LABELS[type]}, ${count} pending`}
+                  title={active ? `Leave pending ${BLEMISH_LABELS[type].toLowerCase()} out of the mask` : `Include pending ${BLEMISH_LABELS[type].toLowerCase()}`}
+                  className={`flex items-center gap-1.5 px-2 py-1 text-[11px] font-medium rounded-full border transition-colors ${
+                    active ? 'border-slate-600 bg-slate-800 text-slate-200' : 'border-slate-800 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  <span aria-hidden="true" className="w-2 h-2 rounded-full" style={{ backgroundColor: BLEMISH_COLORS[type], opacity: active ? 1 : 0.4 }} />
+                  {BLEMISH_LABELS[type]} {count}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-300">Min. Confidence</span>
+            <span className="text-brand-400 font-mono">{filter.minConfidence}%</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="95"
+            step="5"
+            value={filter.minConfidence}
+            aria-label="Minimum confidence"
+            aria-valuetext={`${filter.minConfidence}%`}
+            onChange={(e) => onMinConfidence(parseInt(e.target.value))}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+          />
+
+          <p className="text-xs text-slate-500">
+            {pending.length} pending, {accepted} accepted. Dashed spots are suggestions; dimmed ones are filtered out and won't be retouched. Click a spot to review it.
+          </p>
+
+          {pending.length > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={onAcceptVisible}
+                className="flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium text-emerald-300 border border-emerald-900/60 hover:bg-emerald-950/30 rounded-lg transition-colors"
+              >
+                <Check className="w-3 h-3" /> Accept Shown
+              </button>
+              <button
+                onClick={onRejectPending}
+                className="flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium text-red-400 border border-red-900/50 hover:bg-red-950/30 rounded-lg transition-colors"
+              >
+                <X className="w-3 h-3" /> Reject Pending
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {selectedSpot && detection && (
+        <div role="region" aria-label="Selected suggestion" className="p-3 rounded-lg bg-slate-800/60 border border-slate-700 space-y-2 animate-in fade-in">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-slate-200">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: BLEMISH_COLORS[detection.type] }} />
+              {BLEMISH_LABELS[detection.type]}
+            </span>
+            <span className="text-xs text-slate-400">
+              {Math.round(detection.confidence * 100)}% · {detection.accepted ? 'accepted' : 'pending'}
+            </span>
+          </div>
+          <p className="text-xs text-slate-500">Drag it to move; use its handles to resize or rotate.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => onAccept(selectedSpot.id)}
+              disabled={detection.accepted}
+              className="flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium text-emerald-300 border border-emerald-900/60 hover:bg-emerald-950/30 rounded-lg disabled:opacity-50 transition-colors"
+            >
+              <Check className="w-3 h-3" /> Accept
+            </button>
+            <button
+              onClick={() => onReject(selectedSpot.id)}
+              className="flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium text-red-400 border border-red-900/50 hover:bg-red-950/30 rounded-lg transition-colors"
+            >
+              <X className="w-3 h-3" /> Reject
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
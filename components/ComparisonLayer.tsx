@@ -0,0 +1,38 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useLoadedImage, useRenderSize } from '../hooks/useCanvasLayer';
+import { renderDifference, renderHeatmap } from '../utils/difference';
+
+interface ComparisonLayerProps {
+  original: string;
+  processed: string;
+  mode: 'difference' | 'heatmap';
+  /** Amplification for the difference view. */
+  gain?: number;
+  resolution?: number;
+  className?: string;
+}
+
+/** Canvas visualising what changed between the original and a processed layer. */
+export const ComparisonLayer: React.FC<ComparisonLayerProps> = ({ original, processed, mode, gain = 8, resolution = 1, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const originalImage = useLoadedImage(original);
+  const processedImage = useLoadedImage(processed);
+  const size = useRenderSize(canvasRef, resolution, originalImage?.naturalWidth);
+
+  const layer = useMemo(() => {
+    if (!originalImage || !processedImage || !size) return null;
+    return mode === 'difference'
+      ? renderDifference(originalImage, processedImage, size.width, size.height, gain)
+      : renderHeatmap(originalImage, processedImage, size.width, size.height);
+  }, [originalImage, processedImage, size, mode, gain]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !layer) return;
+    canvas.width = layer.width;
+    canvas.height = layer.height;
+    canvas.getContext('2d')?.drawImage(layer, 0, 0);
+  }, [layer]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { usePresets } from '../hooks/usePresets';
+import { EditorDocument, Spot } from '../types';
+import { SkinMask } from '../utils/skinMask';
+import { detectBlemishes } from '../utils/blemishDetection';
+import { Editor } from './Editor';
+
+vi.mock('../utils/blemishDetection', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/blemishDetection')>(),
+  detectBlemishes: vi.fn(),
+}));
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const detected = (id: string, confidence: number): Spot => ({
+  id, shape: { kind: 'ellipse', cx: 40, cy: 40, rx: 2, ry: 2, rotation: 0 }, hardness: 0.5, detection: { type: 'acne', confidence, accepted: false },
+});
+
+interface HarnessProps {
+  spots?: Spot[];
+  document?: Partial<EditorDocument>;
+  skinMask?: SkinMask | null;
+  onDocumentChange?: (document: EditorDocument) => void;
+  onError?: (message: string) => void;
+}
+
+const Harness: React.FC<HarnessProps> = ({ spots = [], document, skinMask = null, onDocumentChange, onError = vi.fn() }) => {
+  const presets = usePresets();
+  return (
+    <Editor
+      originalImage={PIXEL}
+      variants={[{ id: 'v1', image: PIXEL, label: 'Variant 1' }]}
+      skinMask={skinMask}
+      source={null}
+      sourceName="portrait.png"
+      isProcessing={false}
+      progress={null}
+      presets={presets}
+      initialDocument={{ spots, retouchMode: 'manual', ...document }}
+      onDocumentChange={onDocumentChange}
+      onReset={vi.fn()}
+      onProcess={vi.fn()}
+      onCancel={vi.fn()}
+      refusal={null}
+      onDismissRefusal={vi.fn()}
+      onAddVariant={vi.fn()}
+      onError={onError}
+      onHealSelected={vi.fn(async () => null)}
+    />
+  );
+};
+
+beforeEach(() => {
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    disconnect() {}
+  });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+// jsdom neither decodes images nor lays out, so the overlay gets a size and a box by hand
+const loadImage = (container: HTMLElement) => {
+  for (const img of container.querySelectorAll('img')) {
+    Object.defineProperties(img, { naturalWidth: { value: 100 }, naturalHeight: { value: 100 } });
+    fireEvent.load(img);
+  }
+  const overlay = container.querySelector('svg[viewBox="0 0 100 100"]')!;
+  overlay.getBoundingClientRect = () => ({ left: 0, top: 0, width: 100, height: 100 }) as DOMRect;
+};
+
+const click = (element: Element, x: number, y: number) => {
+  Object.assign(element, { setPointerCapture() {}, hasPointerCapture: () => false });
+  fireEvent.pointerDown(element, { button: 0, pointerId: 1, clientX: x, clientY: y });
+  fireEvent.pointerUp(element, { button: 0, pointerId: 1, clientX: x, clientY: y });
+};
+
+describe('Editor', () => {
+  it('records the skin-only switch in the undo history', () => {
+    const onDocumentChange = vi.fn();
+    const skinMask: SkinMask = { image: PIXEL, faceBox: { x: 0, y: 0, width: 1, height: 1 }, coverage: 1 };
+    render(<Harness document={{ retouchMode: 'auto' }} skinMask={skinMask} onDocumentChange={onDocumentChange} />);
+    const latest = () => onDocumentChange.mock.lastCall![0] as EditorDocument;
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Skin only' }));
+    expect(latest().skinOnly).toBe(false);
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+    expect(latest().skinOnly).toBe(true);
+  });
+
+  it('renders and shows the details of a selected suggestion', () => {
+    const { container } = render(<Harness spots={[detected('a', 0.9), detected('b', 0.3)]} />);
+    loadImage(container);
+    expect(screen.queryByText('90% · pending')).toBeNull();
+
+    const outline = [...container.querySelectorAll('title')].find(title => title.textContent === 'acne · 90% · pending');
+    click(outline!.parentElement!, 40, 40);
+    expect(screen.getByText('90% · pending')).toBeTruthy();
+  });
+
+  it('removes the selected spot with Delete', () => {
+    const { container } = render(<Harness spots={[detected('a', 0.9)]} />);
+    loadImage(container);
+    click(container.querySelector('svg[viewBox] ellipse')!, 40, 40);
+
+    // Inputs and buttons keep the key for themselves
+    fireEvent.keyDown(screen.getByLabelText('Minimum confidence'), { key: 'Backspace' });
+    fireEvent.keyDown(screen.getByText('Detect Blemishes'), { key: 'Delete' });
+    expect(container.querySelector('svg[viewBox] ellipse')).not.toBeNull();
+
+    fireEvent.keyDown(document.body, { key: 'Delete' });
+    expect(screen.queryByText('90% · pending')).toBeNull();
+    expect(container.querySelector('svg[viewBox] ellipse')).toBeNull();
+  });
+
+  it('places spots from the keyboard at a cursor moved with the arrows', () => {
+    const { container } = render(<Harness />);
+    loadImage(container);
+    const canvas = screen.getByRole('application', { name: 'Photo, manual retouch' });
+
+    fireEvent.keyDown(canvas, { key: 'ArrowRight', shiftKey: true });
+    fireEvent.keyDown(canvas, { key: 'Enter' });
+    expect(screen.getByText('Spot added, 1 in total.')).toBeTruthy();
+    expect(container.querySelector('svg[viewBox] ellipse')?.getAttribute('cx')).toBe('52.5');
+  });
+
+  it('toggles the original with B and announces it', () => {
+    render(<Harness />);
+    fireEvent.keyDown(document.body, { key: 'b' });
+    expect(screen.getByText('Showing the original.')).toBeTruthy();
+    fireEvent.keyDown(document.body, { key: 'b' });
+    expect(screen.getByText('Showing the retouched image.')).toBeTruthy();
+  });
+
+  it('reports a failed detection instead of failing silently', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(detectBlemishes).mockRejectedValueOnce(new Error('No canvas'));
+    const onError = vi.fn();
+    render(<Harness onError={onError} />);
+
+    fireEvent.click(screen.getByText('Detect Blemishes'));
+    await waitFor(() => expect(onError).toHaveBeenCalledWith('Blemish detection failed. Please try again, or mark the spots yourself.'));
+    expect(screen.getByText('Detect Blemishes')).toBeTruthy();
+  });
+});
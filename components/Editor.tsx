@@ -1,51 +1,278 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Download, Sliders, Eye, RefreshCw, X, MousePointer2, Eraser, Circle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { RetouchProgress } from '../services/retouchPipeline';
+import { RetouchProviderId } from '../services/providers/types';
+import { BlemishType, BrushStroke, BrushTool, EditorDocument, ImageSource, PixelPoint, RetouchMode, RetouchVariant, Spot, SpotShape } from '../types';
+import { useHistory } from '../hooks/useHistory';
+import { renderManualMask } from '../utils/brushMask';
+import { downloadBlob, loadImage, urlToBlob } from '../utils/imageHelpers';
+import { buildFileName, ExportSettings, loadExportSettings, saveExportSettings } from '../utils/exportImage';
+import { SkinMask } from '../utils/skinMask';
+import { ExportJob } from '../utils/imageTasks';
+import { runImageTask } from '../utils/imageWorkerClient';
+import { detectBlemishes, filterSpots } from '../utils/blemishDetection';
+import { circleShape, moveShape, polygonArea, rotateShape, scaleShape, shapeCenter } from '../utils/spotShape';
+import { ExportDialog } from './ExportDialog';
+import { VariantStrip } from './VariantStrip';
+import { blendVariants, manualLayers } from '../utils/variants';
+import { MaskedLayer } from './MaskedLayer';
+import { ComparisonLayer } from './ComparisonLayer';
+import { Navigator } from './Navigator';
+import { useViewport } from '../hooks/useViewport';
+import { PresetPanel } from './PresetPanel';
+import { RefusalPanel } from './RefusalPanel';
+import { BlemishSuggestions } from './BlemishSuggestions';
+import { SpotOverlay } from './SpotOverlay';
+import { RetouchError } from '../services/providers/errors';
+import { PresetLibrary } from '../hooks/usePresets';
+import { Download, Sliders, Eye, RefreshCw, X, MousePointer2, Eraser, Circle, Paintbrush, Undo2, Redo2, History, ZoomIn, ZoomOut, Maximize2, AlertTriangle, Lasso } from 'lucide-react';
+
+export interface ProcessOptions {
+  parallel?: boolean;
+  /** Repeat runs whose results fail the quality checks. */
+  autoRetry?: boolean;
+  /** Send only the face, e.g. after a safety refusal. */
+  cropToFace?: boolean;
+}
 
 interface EditorProps {
+  /** The working copy: upright, sRGB and downsized. */
   originalImage: string;
-  processedImage: string | null;
+  /** The file it came from, composited at full resolution on export. */
+  source: ImageSource | null;
+  variants: RetouchVariant[];
+  skinMask: SkinMask | null;
+  /** Original file name, used for export file names. */
+  sourceName: string;
   isProcessing: boolean;
+  progress: RetouchProgress | null;
+  presets: PresetLibrary;
+  /** Starting values, e.g. a reopened project or the shared settings of a batch. */
+  initialDocument?: Partial<EditorDocument>;
+  onDocumentChange?: (document: EditorDocument) => void;
   onReset: () => void;
-  onProcess: () => void;
+  onProcess: (count: number, options?: ProcessOptions) => void;
+  /** Aborts the running retouch or heal request. */
+  onCancel: () => void;
+  /** Why the last request produced no image, when the engine declined. */
+  refusal: RetouchError | null;
+  onDismissRefusal: () => void;
+  onAddVariant: (image: string, label: string) => void;
+  /** Shows a failure that isn't tied to a dialog in the app's error banner. */
+  onError: (message: string) => void;
+  /** Regenerates only the marked regions; resolves to the new variant's id. */
+  onHealSelected: (spots: Spot[], strokes: BrushStroke[], providerId?: RetouchProviderId) => Promise<string | null>;
 }
 
-interface Spot {
-  id: string;
-  x: number; // Percentage 0-100
-  y: number; // Percentage 0-100
-  radius: number; // Percentage of width
-}
+type ViewMode = 'split' | 'hold' | 'sideBySide' | 'flicker' | 'difference' | 'heatmap';
+
+const VIEW_MODES: { id: ViewMode; label: string }[] = [
+  { id: 'split', label: 'Split Preview' },
+  { id: 'hold', label: 'Hold for Original' },
+  { id: 'sideBySide', label: 'Side by Side' },
+  { id: 'flicker', label: 'Flicker' },
+  { id: 'difference', label: 'Difference' },
+  { id: 'heatmap', label: 'Heatmap' },
+];
+const DIFFERENCE_GAINS = [4, 8, 16];
+// How long each side stays up in flicker mode
+const FLICKER_INTERVAL_MS = 600;
+// Smallest lasso outline kept, in square image pixels
+const MIN_LASSO_AREA = 64;
+// Arrow key steps as fractions of the image width; Shift takes the large one
+const KEY_STEP = 0.005;
+const KEY_STEP_LARGE = 0.025;
+const KEY_ROTATE_STEP = 5; // Degrees; Shift turns three times as far
+const KEY_SCALE_STEP = 1.1;
+const ARROW_DELTAS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+export const INITIAL_DOCUMENT: EditorDocument = {
+  spots: [],
+  strokes: [],
+  intensity: 60, // Default to 60 for natural look
+  texture: 75, // Keep most of the original pores
+  retouchMode: 'auto',
+  activeVariantId: null,
+  // Moles are often wanted, so their suggestions start filtered out
+  detectionFilter: { types: ['acne', 'redness', 'scar'], minConfidence: 40 },
+  skinOnly: true
+};
 
 export const Editor: React.FC<EditorProps> = ({ 
   originalImage, 
-  processedImage, 
+  source,
+  variants,
+  skinMask,
+  sourceName,
   isProcessing,
+  progress,
+  presets,
+  initialDocument,
+  onDocumentChange,
   onReset,
-  onProcess
+  onProcess,
+  onCancel,
+  refusal,
+  onDismissRefusal,
+  onAddVariant,
+  onError,
+  onHealSelected
 }) => {
-  const [intensity, setIntensity] = useState(60); // Default to 60 for natural look
-  const [viewMode, setViewMode] = useState<'split' | 'hold'>('split');
-  const [retouchMode, setRetouchMode] = useState<'auto' | 'manual'>('auto');
-  const [spots, setSpots] = useState<Spot[]>([]);
+  const history = useHistory<EditorDocument>({ ...INITIAL_DOCUMENT, ...initialDocument });
+  const { spots, strokes, intensity, texture, retouchMode, activeVariantId, detectionFilter, skinOnly } = history.state;
+  // Stable across renders, unlike `history` itself, so callbacks and effects can depend on them
+  const { commit: commitHistory, undo, redo } = history;
+  const activeVariant = variants.find(v => v.id === activeVariantId) ?? variants[variants.length - 1] ?? null;
+  // Detected spots only reach the mask once accepted or while they pass the filter
+  const maskSpots = useMemo(() => filterSpots(spots, detectionFilter), [spots, detectionFilter]);
+  const [selectedSpotId, setSelectedSpotId] = useState<string | null>(null);
+  const selectedSpot = spots.find(s => s.id === selectedSpotId) ?? null;
+  const processedImage = activeVariant?.image ?? null;
+  const [viewMode, setViewMode] = useState<ViewMode>('split');
   const [isHoldingOriginal, setIsHoldingOriginal] = useState(false);
+  const [flickerOriginal, setFlickerOriginal] = useState(false);
+  const [differenceGain, setDifferenceGain] = useState(8);
+  // Toggled with B, for when holding a button isn't an option
+  const [showBefore, setShowBefore] = useState(false);
+  const showOriginal = isHoldingOriginal || showBefore || (viewMode === 'flicker' && flickerOriginal);
+  const isSplitView = viewMode === 'split' && retouchMode === 'auto';
+  const isChangeView = viewMode === 'difference' || viewMode === 'heatmap';
   const [sliderPosition, setSliderPosition] = useState(50);
   const [brushSize, setBrushSize] = useState(2.5); // Reduced default size
-  const [aspectRatio, setAspectRatio] = useState(1); // width / height
+  const [brushTool, setBrushTool] = useState<BrushTool>('spot');
+  const [brushHardness, setBrushHardness] = useState(0.5);
+  const [brushOpacity, setBrushOpacity] = useState(100);
+  const [activeStroke, setActiveStroke] = useState<BrushStroke | null>(null);
+  const [activeLasso, setActiveLasso] = useState<PixelPoint[] | null>(null);
+  // Where Enter places a spot when working from the keyboard
+  const [keyboardCursor, setKeyboardCursor] = useState<PixelPoint | null>(null);
+  const [isCanvasFocused, setIsCanvasFocused] = useState(false);
+  // Read out by screen readers through the status region
+  const [announcement, setAnnouncement] = useState('');
+  const activeStrokeRef = useRef<BrushStroke | null>(null);
+  const activeLassoRef = useRef<PixelPoint[] | null>(null);
+  const isPainting = activeStroke !== null;
+  const isTracing = activeLasso !== null;
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [parallelVariants, setParallelVariants] = useState(true);
+  const [autoRetry, setAutoRetry] = useState(false);
+  const [showProblemAreas, setShowProblemAreas] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  // Auto mode only composites skin pixels when a segmentation mask is available
+  const useSkinMask = retouchMode === 'auto' && skinOnly && !!skinMask;
+  const quality = activeVariant?.quality;
+  const qualityIssues = quality?.issues ?? [];
+  const [skinMaskImage, setSkinMaskImage] = useState<HTMLImageElement | null>(null);
   
   // Custom Cursor State
   const [cursorPos, setCursorPos] = useState<{x: number, y: number} | null>(null);
 
+  const viewportRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const viewport = useViewport(viewportRef, containerRef, imageSize.width);
+  // Canvas layers render at a power-of-two multiple of their fitted size, so zooming doesn't re-split every step
+  const layerResolution = 2 ** Math.ceil(Math.log2(viewport.scale));
   const [isDraggingSlider, setIsDraggingSlider] = useState(false);
   
-  // -- Image Load --
-  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
-    const { naturalWidth, naturalHeight } = e.currentTarget;
-    if (naturalHeight > 0) {
-        setAspectRatio(naturalWidth / naturalHeight);
-    }
-  };
+  useEffect(() => {
+    onDocumentChange?.(history.state);
+  }, [history.state, onDocumentChange]);
+
+  useEffect(() => {
+    setSkinMaskImage(null);
+    if (!skinMask) return;
+    let cancelled = false;
+    loadImage(skinMask.image)
+      .then(img => { if (!cancelled) setSkinMaskImage(img); })
+      .catch(err => {
+        console.error("Failed to load the skin mask:", err);
+        if (!cancelled) onError("Couldn't load the skin mask, so the preview isn't limited to skin.");
+      });
+    return () => { cancelled = true; };
+  }, [skinMask, onError]);
+
+  // Split view is only available in auto mode, so follow the mode (including undo/redo)
+  useEffect(() => {
+    setViewMode(mode => {
+      if (retouchMode === 'manual') return mode === 'split' ? 'hold' : mode;
+      return mode === 'hold' ? 'split' : mode;
+    });
+  }, [retouchMode]);
+
+  useEffect(() => {
+    setFlickerOriginal(false);
+    if (viewMode !== 'flicker') return;
+    const timer = window.setInterval(() => setFlickerOriginal(value => !value), FLICKER_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [viewMode]);
+
+  const removeSpot = useCallback((id: string) => {
+    // The removed spot may hold the focus; hand it back to the canvas rather than losing it
+    const hadFocus = !!containerRef.current?.contains(document.activeElement);
+    setSelectedSpotId(null);
+    commitHistory('Remove spot', doc => ({ ...doc, spots: doc.spots.filter(s => s.id !== id) }));
+    setAnnouncement(`Spot removed, ${spots.length - 1} left.`);
+    if (hadFocus) containerRef.current?.focus();
+  }, [commitHistory, spots.length]);
+
+  const toggleBefore = useCallback(() => {
+    setShowBefore(!showBefore);
+    setAnnouncement(showBefore ? 'Showing the retouched image.' : 'Showing the original.');
+  }, [showBefore]);
+
+  // -- Undo / Redo and Zoom Shortcuts --
+  const { zoomBy, fit, actualPixels } = viewport;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return;
+      // Buttons and the divider keep their own keys; a focused spot is a role="button" element, not a <button>
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedSpotId && !(e.ctrlKey || e.metaKey) && !target.closest('button, [role="slider"]')) {
+        e.preventDefault();
+        removeSpot(selectedSpotId);
+        return;
+      }
+      if (e.key.toLowerCase() === 'b' && processedImage && !(e.ctrlKey || e.metaKey || e.altKey)) {
+        e.preventDefault();
+        toggleBefore();
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (key === '=' || key === '+') {
+        e.preventDefault();
+        zoomBy(2);
+      } else if (key === '-') {
+        e.preventDefault();
+        zoomBy(0.5);
+      } else if (key === '0') {
+        e.preventDefault();
+        fit();
+      } else if (key === '1') {
+        e.preventDefault();
+        actualPixels();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, zoomBy, fit, actualPixels, selectedSpotId, processedImage, removeSpot, toggleBefore]);
 
   // -- Slider Logic --
   const handleDragStart = () => setIsDraggingSlider(true);
@@ -62,6 +289,25 @@ export const Editor: React.FC<EditorProps> = ({
     setSliderPosition(percentage);
   }, [isDraggingSlider]);
 
+  const handleSliderKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 1;
+    const next = {
+      ArrowLeft: sliderPosition - step,
+      ArrowDown: sliderPosition - step,
+      ArrowRight: sliderPosition + step,
+      ArrowUp: sliderPosition + step,
+      PageDown: sliderPosition - 10,
+      PageUp: sliderPosition + 10,
+      Home: 0,
+      End: 100
+    }[e.key];
+    if (next === undefined) return;
+    // Keep the canvas from treating the arrows as spot moves
+    e.preventDefault();
+    e.stopPropagation();
+    setSliderPosition(Math.max(0, Math.min(100, next)));
+  };
+
   useEffect(() => {
     if (isDraggingSlider) {
       window.addEventListener('mouseup', handleDragStop);
@@ -76,7 +322,8 @@ export const Editor: React.FC<EditorProps> = ({
 
   // -- Mouse Tracking for Cursor & Spots --
   const handleMouseMove = (e: React.MouseEvent) => {
-      if (retouchMode === 'manual' && containerRef.current) {
+      // Spot handles show their own cursors
+      if (retouchMode === 'manual' && containerRef.current && !(e.target as Element).closest('.spot-control')) {
          setCursorPos({ x: e.clientX, y: e.clientY });
       } else {
          setCursorPos(null);
@@ -86,6 +333,23 @@ export const Editor: React.FC<EditorProps> = ({
       if (isDraggingSlider) {
           handleSliderMove(e);
       }
+
+      if (activeStrokeRef.current) {
+          const point = toMaskPoint(e);
+          if (point) {
+              updateActiveStroke({ ...activeStrokeRef.current, points: [...activeStrokeRef.current.points, point] });
+          }
+      }
+
+      const lasso = activeLassoRef.current;
+      if (lasso) {
+          const point = toImagePoint(e);
+          const last = lasso[lasso.length - 1];
+          // Skip points closer than a couple of screen pixels; they only bloat the outline
+          if (point && Math.hypot(point.x - last.x, point.y - last.y) >= 2 * getImagePixelsPerScreenPixel()) {
+              updateActiveLasso([...lasso, point]);
+          }
+      }
   };
   
   const handleMouseLeave = () => {
@@ -93,152 +357,428 @@ export const Editor: React.FC<EditorProps> = ({
       setIsHoldingOriginal(false);
   };
 
+  // Convert a pointer position to percentage coordinates on the image
+  const toMaskPoint = (e: React.MouseEvent) => {
+    if (!containerRef.current) return null;
+    const rect = containerRef.current.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100
+    };
+  };
+
+  // The same position in the original's pixels, which spots are stored in
+  const toImagePoint = (e: React.MouseEvent): PixelPoint | null => {
+    const point = toMaskPoint(e);
+    if (!point) return null;
+    return { x: (point.x / 100) * imageSize.width, y: (point.y / 100) * imageSize.height };
+  };
+
+  // -- Brush Stroke Logic --
+  // The in-progress stroke lives in a ref too, so window listeners always see the latest points
+  const updateActiveStroke = (stroke: BrushStroke | null) => {
+    activeStrokeRef.current = stroke;
+    setActiveStroke(stroke);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    // Space + drag or the middle button pans the zoomed view
+    if (viewport.spaceHeld || e.button === 1) {
+      viewport.startPan(e);
+      return;
+    }
+    if (retouchMode !== 'manual' || brushTool === 'spot' || e.button !== 0) return;
+    if ((e.target as HTMLElement).closest('.slider-handle') || (e.target as Element).closest('.spot-control')) return;
+
+    if (brushTool === 'lasso') {
+      const start = toImagePoint(e);
+      if (start) updateActiveLasso([start]);
+      return;
+    }
+
+    const point = toMaskPoint(e);
+    if (!point) return;
+    const now = Date.now();
+    updateActiveStroke({
+      id: now.toString(),
+      createdAt: now,
+      mode: brushTool === 'eraser' ? 'erase' : 'paint',
+      points: [point],
+      size: brushSize,
+      hardness: brushHardness,
+      opacity: brushOpacity / 100,
+      variantId: activeVariant?.id
+    });
+  };
+
+  const commitStroke = useCallback(() => {
+    const stroke = activeStrokeRef.current;
+    if (stroke) {
+      commitHistory(stroke.mode === 'erase' ? 'Erase' : 'Paint', doc => ({ ...doc, strokes: [...doc.strokes, stroke] }));
+    }
+    activeStrokeRef.current = null;
+    setActiveStroke(null);
+  }, [commitHistory]);
+
+  useEffect(() => {
+    if (!isPainting) return;
+    window.addEventListener('mouseup', commitStroke);
+    return () => window.removeEventListener('mouseup', commitStroke);
+  }, [isPainting, commitStroke]);
+
+  // -- Lasso Logic --
+  const updateActiveLasso = (points: PixelPoint[] | null) => {
+    activeLassoRef.current = points;
+    setActiveLasso(points);
+  };
+
+  const commitLasso = useCallback(() => {
+    const points = activeLassoRef.current;
+    // A click or a scribble without area isn't an outline
+    if (points && points.length >= 3 && polygonArea(points) >= MIN_LASSO_AREA) {
+      const now = Date.now();
+      const spot: Spot = {
+        id: now.toString(),
+        createdAt: now,
+        shape: { kind: 'lasso', points },
+        hardness: brushHardness,
+        variantId: activeVariant?.id
+      };
+      commitHistory('Add lasso spot', doc => ({ ...doc, spots: [...doc.spots, spot] }));
+    }
+    activeLassoRef.current = null;
+    setActiveLasso(null);
+  }, [commitHistory, brushHardness, activeVariant]);
+
+  useEffect(() => {
+    if (!isTracing) return;
+    window.addEventListener('mouseup', commitLasso);
+    return () => window.removeEventListener('mouseup', commitLasso);
+  }, [isTracing, commitLasso]);
+
   // -- Spot/Circle Logic --
   const handleImageClick = (e: React.MouseEvent) => {
-    if (retouchMode !== 'manual' || !containerRef.current) return;
+    if (retouchMode !== 'manual' || brushTool !== 'spot' || !containerRef.current || viewport.spaceHeld) return;
     
     // Prevent adding spots if we are dragging the slider or clicking a control
-    if ((e.target as HTMLElement).closest('.slider-handle') || (e.target as HTMLElement).closest('.spot-remover')) return;
+    if ((e.target as HTMLElement).closest('.slider-handle') || (e.target as Element).closest('.spot-control')) return;
 
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = ((e.clientX - rect.left) / rect.width) * 100;
-    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    const point = toImagePoint(e);
+    if (point) placeSpot(point);
+  };
 
+  const placeSpot = (point: PixelPoint) => {
+    const now = Date.now();
     const newSpot: Spot = {
-      id: Date.now().toString(),
-      x,
-      y,
-      radius: brushSize
+      id: now.toString(),
+      createdAt: now,
+      shape: circleShape(point, (brushSize / 100) * imageSize.width),
+      hardness: brushHardness,
+      variantId: activeVariant?.id
     };
 
-    setSpots(prev => [...prev, newSpot]);
+    setSelectedSpotId(null);
+    history.commit('Add spot', doc => ({ ...doc, spots: [...doc.spots, newSpot] }));
+    setAnnouncement(`Spot added, ${spots.length + 1} in total.`);
   };
 
-  const removeSpot = (e: React.MouseEvent, id: string) => {
-    e.stopPropagation(); 
-    setSpots(prev => prev.filter(s => s.id !== id));
+  // Pans a zoomed view so a keyboard-driven point stays on screen
+  const keepInView = (point: PixelPoint) => {
+    const fx = point.x / imageSize.width;
+    const fy = point.y / imageSize.height;
+    const { x, y, width, height } = viewport.visible;
+    if (fx < x || fx > x + width || fy < y || fy > y + height) viewport.centerOn(fx, fy);
   };
 
+  // -- Keyboard Editing --
+  // Arrows move the selected spot, or the spot cursor when nothing is selected
+  const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+    if (retouchMode !== 'manual' || !imageSize.width || e.ctrlKey || e.metaKey || e.altKey) return;
+    const arrow = ARROW_DELTAS[e.key];
+    const step = imageSize.width * (e.shiftKey ? KEY_STEP_LARGE : KEY_STEP);
 
-  // -- Download Logic (Single Image Composition) --
-  const handleDownload = () => {
-    if (!processedImage) return;
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const imgOriginal = new Image();
-    const imgProcessed = new Image();
-
-    const loadImg = (img: HTMLImageElement, src: string) => {
-        return new Promise<void>((resolve) => {
-            img.crossOrigin = "anonymous";
-            img.onload = () => resolve();
-            img.src = src;
-        });
-    };
+    if (selectedSpot) {
+      const { id, shape } = selectedSpot;
+      if (arrow) {
+        const moved = moveShape(shape, arrow[0] * step, arrow[1] * step);
+        transformSpot(id, moved, 'Move spot', `key-move-${id}`);
+        keepInView(shapeCenter(moved));
+      } else if (e.key === '[' || e.key === ']') {
+        transformSpot(id, scaleShape(shape, e.key === ']' ? KEY_SCALE_STEP : 1 / KEY_SCALE_STEP), 'Resize spot', `key-resize-${id}`);
+      } else if (e.key === ',' || e.key === '.' || e.key === '<' || e.key === '>') {
+        const degrees = KEY_ROTATE_STEP * (e.shiftKey ? 3 : 1) * (e.key === ',' || e.key === '<' ? -1 : 1);
+        transformSpot(id, rotateShape(shape, degrees), 'Rotate spot', `key-rotate-${id}`);
+      } else if (e.key === 'Escape') {
+        setSelectedSpotId(null);
+        containerRef.current?.focus();
+      } else {
+        return;
+      }
+      e.preventDefault();
+      return;
+    }
 
-    Promise.all([loadImg(imgOriginal, originalImage), loadImg(imgProcessed, processedImage)]).then(() => {
-        // Set canvas to natural resolution
-        canvas.width = imgOriginal.naturalWidth;
-        canvas.height = imgOriginal.naturalHeight;
-        
-        if (!ctx) return;
+    const cursor = keyboardCursor ?? { x: imageSize.width / 2, y: imageSize.height / 2 };
+    if (arrow) {
+      const next = {
+        x: Math.max(0, Math.min(imageSize.width, cursor.x + arrow[0] * step)),
+        y: Math.max(0, Math.min(imageSize.height, cursor.y + arrow[1] * step))
+      };
+      setKeyboardCursor(next);
+      keepInView(next);
+    } else if (e.key === 'Enter' && brushTool === 'spot') {
+      placeSpot(cursor);
+    } else if (e.key === '[' || e.key === ']') {
+      setBrushSize(size => Math.max(0.5, Math.min(8, size + (e.key === ']' ? 0.5 : -0.5))));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
 
-        // 1. Draw Original Background
-        ctx.drawImage(imgOriginal, 0, 0);
+  const transformSpot = (id: string, shape: SpotShape, label: string, mergeKey: string) => {
+    history.commit(label, doc => ({
+      ...doc,
+      spots: doc.spots.map(s => (s.id === id ? { ...s, shape } : s))
+    }), mergeKey);
+  };
 
-        // 2. Prepare to Draw Processed Layer
-        ctx.save();
-        
-        // 3. Apply Opacity (Intensity)
-        ctx.globalAlpha = intensity / 100;
-
-        // 4. Apply Masking (if in manual mode)
-        if (retouchMode === 'manual') {
-            if (spots.length === 0) {
-                // If no spots, mask everything (show nothing of processed layer)
-                ctx.beginPath();
-                ctx.rect(0, 0, 0, 0);
-                ctx.clip();
-            } else {
-                ctx.beginPath();
-                spots.forEach(spot => {
-                    // Convert % coordinates to pixels
-                    const x = (spot.x / 100) * canvas.width;
-                    const y = (spot.y / 100) * canvas.height;
-                    const r = (spot.radius / 100) * canvas.width;
-                    
-                    ctx.moveTo(x + r, y);
-                    ctx.arc(x, y, r, 0, Math.PI * 2);
-                });
-                ctx.clip();
-            }
-        }
-
-        // 5. Draw Processed Image SCALED to fit exact dimensions
-        // This fixes the issue where processed image might be smaller or off-center
-        ctx.drawImage(imgProcessed, 0, 0, canvas.width, canvas.height);
-        
-        ctx.restore();
-        
-        // 6. Download
-        const link = document.createElement('a');
-        link.download = 'dermafix-retouched.jpg';
-        link.href = canvas.toDataURL('image/jpeg', 0.92);
-        link.click();
+  // -- Blemish Detection --
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    try {
+      const found = await detectBlemishes(originalImage, skinMask);
+      const stamp = Date.now();
+      const detected: Spot[] = found.map((blemish, i) => ({
+        id: `${stamp}-${i}`,
+        createdAt: stamp,
+        shape: circleShape(blemish, blemish.radius),
+        hardness: 0.5,
+        variantId: activeVariant?.id,
+        detection: { type: blemish.type, confidence: blemish.confidence, accepted: false }
+      }));
+      setSelectedSpotId(null);
+      // A new pass replaces the suggestions still pending; accepted ones stay
+      history.commit(`Detect ${detected.length} blemishes`, doc => ({
+        ...doc,
+        retouchMode: 'manual',
+        spots: [...doc.spots.filter(s => !s.detection || s.detection.accepted), ...detected]
+      }));
+      setBrushTool('spot');
+    } catch (err) {
+      console.error("Blemish detection failed:", err);
+      onError("Blemish detection failed. Please try again, or mark the spots yourself.");
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const updateDetectedSpots = (label: string, update: (spot: Spot) => Spot | null, mergeKey?: string) => {
+    history.commit(label, doc => ({
+      ...doc,
+      spots: doc.spots.flatMap(spot => {
+        if (!spot.detection) return [spot];
+        const next = update(spot);
+        return next ? [next] : [];
+      })
+    }), mergeKey);
+  };
+
+  const acceptSpot = (id: string) => {
+    updateDetectedSpots('Accept spot', spot => (
+      spot.id === id ? { ...spot, detection: { ...spot.detection!, accepted: true } } : spot
+    ));
+  };
+
+  const rejectSpot = (id: string) => {
+    setSelectedSpotId(null);
+    updateDetectedSpots('Reject spot', spot => (spot.id === id ? null : spot));
+  };
+
+  const acceptVisible = () => {
+    const shown = new Set(maskSpots.map(s => s.id));
+    updateDetectedSpots('Accept shown suggestions', spot => (
+      shown.has(spot.id) ? { ...spot, detection: { ...spot.detection!, accepted: true } } : spot
+    ));
+  };
+
+  const rejectPending = () => {
+    setSelectedSpotId(null);
+    updateDetectedSpots('Reject pending suggestions', spot => (spot.detection!.accepted ? spot : null));
+  };
+
+  const toggleDetectionType = (type: BlemishType) => {
+    history.commit('Filter suggestions', doc => {
+      const { types } = doc.detectionFilter;
+      const next = types.includes(type) ? types.filter(t => t !== type) : [...types, type];
+      return { ...doc, detectionFilter: { ...doc.detectionFilter, types: next } };
     });
   };
 
-  // Generate CSS Mask for visual preview
-  const getMaskStyle = () => {
-    if (retouchMode === 'auto') {
-         return { opacity: intensity / 100 };
+  const setMinConfidence = (value: number) => {
+    history.commit(`Min. confidence ${value}%`, doc => (
+      doc.detectionFilter.minConfidence === value ? doc : { ...doc, detectionFilter: { ...doc.detectionFilter, minConfidence: value } }
+    ), 'minConfidence');
+  };
+
+
+  // -- Download Logic (Single Image Composition) --
+  const handleDownload = async (settings: ExportSettings) => {
+    if (!processedImage) return;
+    saveExportSettings(settings);
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      // Compositing and encoding run in the image worker; only Blobs and plain data cross over
+      const [working, processed, skinMaskBlob] = await Promise.all([
+          urlToBlob(originalImage),
+          urlToBlob(processedImage),
+          useSkinMask && skinMask ? urlToBlob(skinMask.image) : Promise.resolve(null)
+      ]);
+
+      // Masking: the painted mask per source variant in manual mode, the skin mask in auto mode
+      const layers: ExportJob['layers'] = retouchMode === 'manual'
+          ? await Promise.all(manualLayers(variants, activeVariant?.id ?? null, maskSpots, strokes).map(async layer => ({
+              image: await urlToBlob(layer.variant.image),
+              mask: { kind: 'manual' as const, spots: layer.spots, strokes: layer.strokes }
+          })))
+          : [{ image: processed, mask: skinMaskBlob && { kind: 'image' as const, image: skinMaskBlob } }];
+
+      const { blob, width, height } = await runImageTask('export', {
+          working,
+          source,
+          layers,
+          blend,
+          settings,
+          faceBox: skinMask?.faceBox ?? null
+      });
+      downloadBlob(blob, buildFileName(settings, { name: sourceName, width, height }));
+      setIsExportOpen(false);
+    } catch (err) {
+      console.error("Export failed:", err);
+      setExportError(err instanceof Error && err.message ? `Export failed: ${err.message}` : "Export failed. Please try again.");
+    } finally {
+      setIsExporting(false);
     }
-    
-    // Manual Mode
-    if (spots.length === 0) {
-        // IMPORTANT: Hide processed image completely if manual mode has no spots
-        return { opacity: 0 };
+  };
+
+  // Tone and texture, shared by the preview layers and the export
+  const blend = useMemo(() => ({ tone: intensity, texture }), [intensity, texture]);
+
+  // Auto mode masks the preview with the skin segmentation, stretched to the layer
+  const renderSkinMask = useMemo(() => (
+    useSkinMask && skinMaskImage ? () => skinMaskImage : undefined
+  ), [useSkinMask, skinMaskImage]);
+
+  // One masked preview layer per source variant, stacked like the export
+  const previewLayers = useMemo(() => {
+    const allStrokes = activeStroke ? [...strokes, activeStroke] : strokes;
+    return manualLayers(variants, activeVariant?.id ?? null, maskSpots, allStrokes).map(layer => ({
+      variant: layer.variant,
+      renderMask: (width: number, height: number) => (
+        renderManualMask(width, height, layer.spots, layer.strokes, imageSize.width || width, imageSize.height || height)
+      )
+    }));
+  }, [variants, activeVariant, maskSpots, strokes, activeStroke, imageSize]);
+
+  const selectVariant = (id: string) => {
+    const label = variants.find(v => v.id === id)?.label ?? 'variant';
+    history.commit(`Select ${label}`, doc => (doc.activeVariantId === id ? doc : { ...doc, activeVariantId: id }));
+  };
+
+  const handleBlend = async (ids: string[]) => {
+    const selected = variants.filter(v => ids.includes(v.id));
+    if (selected.length < 2) return;
+    try {
+      onAddVariant(await blendVariants(selected), `Blend ${selected.map(v => v.label.replace(/^Variant /, '')).join('+')}`);
+    } catch (err) {
+      console.error("Blending variants failed:", err);
+      onError("Couldn't blend the selected variants. Please try again.");
     }
-    
-    // Mask logic
-    return { 
-        opacity: intensity / 100,
-        clipPath: `url(#spot-mask)` 
-    };
   };
 
-  // Calculate cursor size in pixels based on container width (if available)
+  const setIntensity = (value: number) => {
+    history.commit(`Tone ${value}%`, doc => (doc.intensity === value ? doc : { ...doc, intensity: value }), 'intensity');
+  };
+
+  const setTexture = (value: number) => {
+    history.commit(`Texture ${value}%`, doc => (doc.texture === value ? doc : { ...doc, texture: value }), 'texture');
+  };
+
+  const setRetouchMode = (mode: RetouchMode) => {
+    history.commit(mode === 'auto' ? 'Auto mode' : 'Manual mode', doc => (doc.retouchMode === mode ? doc : { ...doc, retouchMode: mode }));
+  };
+
+  const setSkinOnly = (value: boolean) => {
+    history.commit(value ? 'Skin only' : 'Whole image', doc => (doc.skinOnly === value ? doc : { ...doc, skinOnly: value }));
+  };
+
+  const hasSelection = maskSpots.length > 0 || strokes.some(stroke => stroke.mode === 'paint');
+
+  // The healed layer is only original pixels outside the mask, so the mask moves onto it
+  const handleHealSelected = async (providerId?: RetouchProviderId) => {
+    const healedSpots = new Set(maskSpots.map(s => s.id));
+    const healedStrokes = new Set(strokes.map(s => s.id));
+    const healedId = await onHealSelected(maskSpots, strokes, providerId);
+    if (!healedId) return;
+    history.commit('Heal selected', doc => ({
+      ...doc,
+      // Healed suggestions are settled, so later filter changes can't drop them from the mask
+      spots: doc.spots.map(s => (healedSpots.has(s.id)
+        ? { ...s, variantId: healedId, ...(s.detection && { detection: { ...s.detection, accepted: true } }) }
+        : s)),
+      strokes: doc.strokes.map(s => (healedStrokes.has(s.id) ? { ...s, variantId: healedId } : s)),
+      activeVariantId: healedId
+    }));
+  };
+
+  // Tints the selection while there is no result to preview through it yet
+  const renderSelection = useMemo(() => {
+    const allStrokes = activeStroke ? [...strokes, activeStroke] : strokes;
+    return (width: number, height: number) => (
+      renderManualMask(width, height, maskSpots, allStrokes, imageSize.width || width, imageSize.height || height)
+    );
+  }, [maskSpots, strokes, activeStroke, imageSize]);
+
+  const clearMask = () => {
+    history.commit('Clear mask', doc => ({ ...doc, spots: [], strokes: [] }));
+  };
+
+  // Calculate cursor size in pixels based on the on-screen (zoomed) image width
   const getCursorSizePx = () => {
       if (!containerRef.current) return 20;
-      return (containerRef.current.offsetWidth * brushSize) / 100;
+      return (containerRef.current.getBoundingClientRect().width * brushSize) / 100;
+  };
+
+  // Image pixels under one screen pixel at the current zoom, for constant-size handles
+  const getImagePixelsPerScreenPixel = () => {
+      const width = containerRef.current?.getBoundingClientRect().width;
+      return width && imageSize.width ? imageSize.width / width : 1;
   };
 
 
   return (
     <div className="flex flex-col h-full gap-6">
-      
-      {/* --- SVG Definition for masking (Hidden) --- */}
-      <svg className="absolute w-0 h-0">
-        <defs>
-            <clipPath id="spot-mask" clipPathUnits="objectBoundingBox">
-                 {spots.map((spot) => (
-                    <ellipse 
-                        key={spot.id} 
-                        cx={spot.x / 100} 
-                        cy={spot.y / 100} 
-                        rx={spot.radius / 100} 
-                        ry={(spot.radius / 100) * aspectRatio} 
-                    />
-                 ))}
-                 {spots.length === 0 && <rect x="0" y="0" width="0" height="0" />}
-            </clipPath>
-        </defs>
-      </svg>
+
+      {isExportOpen && (
+        <ExportDialog
+          initialSettings={loadExportSettings()}
+          sourceIsJpeg={source?.format === 'jpeg'}
+          isExporting={isExporting}
+          error={exportError}
+          onExport={handleDownload}
+          onClose={() => {
+            setIsExportOpen(false);
+            setExportError(null);
+          }}
+        />
+      )}
       
       {/* --- Custom Cursor Overlay --- */}
-      {retouchMode === 'manual' && cursorPos && (
+      {retouchMode === 'manual' && brushTool !== 'lasso' && cursorPos && !viewport.spaceHeld && !viewport.isPanning && (
         <div 
+            aria-hidden="true"
             className="fixed pointer-events-none z-50 rounded-full border border-white/80 bg-white/10 shadow-[0_0_0_1px_rgba(0,0,0,0.3)] backdrop-invert"
             style={{
                 left: cursorPos.x,
@@ -262,9 +802,75 @@ export const Editor: React.FC<EditorProps> = ({
         </button>
 
         <div className="flex items-center gap-3">
+          {retouchMode === 'manual' && hasSelection && (
+             <>
+               <button
+                 onClick={() => handleHealSelected('local')}
+                 disabled={isProcessing}
+                 title="Fill the marked spots on this device, without the network"
+                 className="flex items-center gap-2 px-4 py-2.5 rounded-lg font-semibold text-slate-300 border border-slate-700 hover:bg-slate-800 disabled:opacity-50 transition-colors"
+               >
+                 <Paintbrush className="w-4 h-4" />
+                 Heal Offline
+               </button>
+               <button
+                 onClick={() => handleHealSelected()}
+                 disabled={isProcessing}
+                 title="Send only the marked spots and painted areas to the engine"
+                 className="flex items-center gap-2 px-4 py-2.5 rounded-lg font-semibold text-brand-200 border border-brand-500/40 bg-brand-900/20 hover:bg-brand-900/40 disabled:opacity-50 transition-colors"
+               >
+                 <Circle className="w-4 h-4" />
+                 Heal Selected
+               </button>
+             </>
+          )}
+          {!processedImage && !isProcessing && (
+             <>
+               <label className="flex items-center gap-2 text-xs text-slate-400">
+                 Variants
+                 <select
+                   value={variantCount}
+                   onChange={(e) => setVariantCount(parseInt(e.target.value))}
+                   className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:border-brand-500"
+                 >
+                   {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                 </select>
+               </label>
+               <label className="flex items-center gap-1.5 text-xs text-slate-400" title="Run again when a result changes more than the skin">
+                 <input
+                   type="checkbox"
+                   checked={autoRetry}
+                   onChange={(e) => setAutoRetry(e.target.checked)}
+                   className="w-3.5 h-3.5 accent-brand-500"
+                 />
+                 Auto-retry
+               </label>
+               {variantCount > 1 && (
+                 <label className="flex items-center gap-1.5 text-xs text-slate-400">
+                   <input
+                     type="checkbox"
+                     checked={parallelVariants}
+                     onChange={(e) => setParallelVariants(e.target.checked)}
+                     className="w-3.5 h-3.5 accent-brand-500"
+                   />
+                   Parallel
+                 </label>
+               )}
+             </>
+          )}
+          {isProcessing && (
+             <button
+               onClick={onCancel}
+               title="Stop the running request"
+               className="flex items-center gap-2 px-4 py-2.5 rounded-lg font-semibold text-slate-300 border border-slate-700 hover:bg-slate-800 transition-colors"
+             >
+               <X className="w-4 h-4" />
+               Cancel
+             </button>
+          )}
           {!processedImage ? (
              <button
-             onClick={onProcess}
+             onClick={() => onProcess(variantCount, { parallel: parallelVariants, autoRetry })}
              disabled={isProcessing}
              className={`
                flex items-center gap-2 px-6 py-2.5 rounded-lg font-semibold text-white shadow-lg shadow-brand-500/20 transition-all
@@ -277,7 +883,7 @@ export const Editor: React.FC<EditorProps> = ({
              {isProcessing ? (
                <>
                  <RefreshCw className="w-4 h-4 animate-spin" />
-                 Processing...
+                 {progress && progress.total > 1 ? `Processing ${progress.done}/${progress.total}...` : 'Processing...'}
                </>
              ) : (
                <>
@@ -288,7 +894,7 @@ export const Editor: React.FC<EditorProps> = ({
            </button>
           ) : (
              <button
-             onClick={handleDownload}
+             onClick={() => setIsExportOpen(true)}
              className="flex items-center gap-2 px-6 py-2.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white font-semibold shadow-lg shadow-emerald-500/20 transition-all hover:scale-105 active:scale-95"
            >
              <Download className="w-4 h-4" />
@@ -298,18 +904,134 @@ export const Editor: React.FC<EditorProps> = ({
         </div>
       </div>
 
+      {/* --- Variants --- */}
+      {variants.length > 0 && (
+        <VariantStrip
+          variants={variants}
+          activeVariantId={activeVariant?.id ?? null}
+          isProcessing={isProcessing}
+          onSelect={selectVariant}
+          onBlend={handleBlend}
+          onGenerateMore={() => onProcess(1, { autoRetry })}
+        />
+      )}
+
+      {/* --- Refusal Explanation --- */}
+      {refusal && (
+        <RefusalPanel
+          error={refusal}
+          presets={presets}
+          canCropToFace={!!skinMask}
+          isProcessing={isProcessing}
+          onRetry={(cropToFace) => onProcess(1, { autoRetry, cropToFace })}
+          onManual={() => {
+            setRetouchMode('manual');
+            onDismissRefusal();
+          }}
+          onDismiss={onDismissRefusal}
+        />
+      )}
+
+      {/* --- Quality Warning --- */}
+      {qualityIssues.length > 0 && (
+        <div role="status" className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 flex flex-col md:flex-row md:items-center gap-4 text-amber-200">
+          <div className="flex items-start gap-3 flex-1">
+            <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" />
+            <div className="space-y-1 text-sm">
+              <p className="font-semibold">{activeVariant?.label} may have changed more than the skin</p>
+              <ul className="text-xs text-amber-200/80 space-y-0.5">
+                {qualityIssues.map(issue => <li key={issue.kind}>{issue.message}</li>)}
+              </ul>
+              {useSkinMask && (
+                <p className="text-xs text-amber-200/60">Skin only is on, so changes outside the skin are left out of the result.</p>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 shrink-0">
+            {quality?.overlay && (
+              <button
+                onClick={() => setShowProblemAreas(value => !value)}
+                aria-pressed={showProblemAreas}
+                className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                  showProblemAreas ? 'bg-amber-500/20 border-amber-500/50 text-amber-100' : 'border-amber-500/30 hover:bg-amber-500/10'
+                }`}
+              >
+                {showProblemAreas ? 'Hide' : 'Show'} Problem Areas
+              </button>
+            )}
+            <button
+              onClick={() => onProcess(1, { autoRetry: true })}
+              disabled={isProcessing}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg border border-amber-500/30 hover:bg-amber-500/10 disabled:opacity-50 transition-colors"
+            >
+              Retry
+            </button>
+            {retouchMode === 'auto' && skinMask && !skinOnly && (
+              <button
+                onClick={() => setSkinOnly(true)}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-amber-500/30 hover:bg-amber-500/10 transition-colors"
+              >
+                Limit to Skin
+              </button>
+            )}
+            {retouchMode === 'auto' && !skinMask && (
+              <button
+                onClick={() => setRetouchMode('manual')}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-amber-500/30 hover:bg-amber-500/10 transition-colors"
+              >
+                Mask Spots Manually
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* --- Main Workspace --- */}
       <div className="flex flex-col lg:flex-row gap-6 h-full">
         
         {/* Image Viewport */}
-        <div className="flex-1 bg-slate-900/30 rounded-2xl border border-slate-800 p-1 flex items-center justify-center relative overflow-hidden min-h-[400px]">
-          
+        <div className="flex-1 bg-slate-900/30 rounded-2xl border border-slate-800 p-1 flex gap-1 relative overflow-hidden min-h-[400px]">
+
+        {/* Mirrored Original (Side by Side), panned and zoomed with the main pane */}
+        {processedImage && viewMode === 'sideBySide' && (
+          <div
+            ref={viewport.mirrorRef}
+            className={`flex-1 flex items-center justify-center relative overflow-hidden ${viewport.isPanning ? 'cursor-grabbing' : viewport.spaceHeld ? 'cursor-grab' : 'cursor-default'}`}
+            onMouseDown={(e) => {
+              if (viewport.spaceHeld || e.button === 1) viewport.startPan(e);
+            }}
+          >
+            <div className="relative select-none" style={{ transform: viewport.transform }}>
+              <img
+                src={originalImage}
+                alt="Original"
+                className="max-w-full max-h-[70vh] object-contain rounded-lg"
+                draggable={false}
+              />
+            </div>
+          </div>
+        )}
+
+        <div
+          ref={viewportRef}
+          className="flex-1 flex items-center justify-center relative overflow-hidden"
+        >
           <div 
              ref={containerRef}
+             tabIndex={0}
+             role="application"
+             aria-roledescription="retouch canvas"
+             aria-label={retouchMode === 'manual' ? 'Photo, manual retouch' : 'Photo'}
+             aria-describedby="editor-canvas-help"
+             onKeyDown={handleCanvasKeyDown}
+             onFocus={() => setIsCanvasFocused(true)}
+             onBlur={() => setIsCanvasFocused(false)}
              className={`
-                relative select-none 
-                ${retouchMode === 'manual' ? 'cursor-none' : 'cursor-default'}
+                relative select-none rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-500
+                ${viewport.isPanning ? 'cursor-grabbing' : viewport.spaceHeld ? 'cursor-grab' : retouchMode === 'manual' ? (brushTool === 'lasso' ? 'cursor-crosshair' : 'cursor-none') : 'cursor-default'}
              `}
+             style={{ transform: viewport.transform }}
+             onMouseDown={handleMouseDown}
              onMouseMove={handleMouseMove}
              onMouseLeave={handleMouseLeave}
              onTouchMove={handleSliderMove}
@@ -319,27 +1041,63 @@ export const Editor: React.FC<EditorProps> = ({
             <img 
               ref={imageRef}
               src={originalImage} 
-              alt="Original" 
-              onLoad={handleImageLoad}
+              alt="" 
               className="max-w-full max-h-[70vh] object-contain rounded-lg"
               draggable={false}
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
             />
 
+            {/* Selection tint (Manual Mode, before a result exists) */}
+            {retouchMode === 'manual' && !processedImage && (
+              <MaskedLayer
+                 fill="rgba(244, 63, 94, 0.35)"
+                 renderMask={renderSelection}
+                 resolution={layerResolution}
+                 className="absolute inset-0 w-full h-full rounded-lg pointer-events-none"
+              />
+            )}
+
             {/* Layer 2: Processed Overlay (Blended) */}
             {processedImage && (
               <div 
                 className="absolute inset-0 w-full h-full rounded-lg overflow-hidden pointer-events-none"
-                style={{ opacity: isHoldingOriginal ? 0 : 1 }}
+                style={{ opacity: showOriginal ? 0 : 1 }}
               >
-                 <img 
-                    src={processedImage}
-                    alt="Processed"
-                    className="absolute inset-0 w-full h-full object-contain transition-opacity duration-100"
-                    style={getMaskStyle()}
-                 />
+                 {isChangeView ? (
+                    // Raw engine output against the original, before any mask or blend
+                    <ComparisonLayer
+                       original={originalImage}
+                       processed={processedImage}
+                       mode={viewMode}
+                       gain={differenceGain}
+                       resolution={layerResolution}
+                       className="absolute inset-0 w-full h-full"
+                    />
+                 ) : retouchMode === 'manual' ? (
+                    previewLayers.map(layer => (
+                       <MaskedLayer
+                          key={layer.variant.id}
+                          src={layer.variant.image}
+                          base={originalImage}
+                          blend={blend}
+                          renderMask={layer.renderMask}
+                          resolution={layerResolution}
+                          className="absolute inset-0 w-full h-full"
+                       />
+                    ))
+                 ) : (
+                    <MaskedLayer
+                       src={processedImage}
+                       base={originalImage}
+                       blend={blend}
+                       renderMask={renderSkinMask}
+                       resolution={layerResolution}
+                       className="absolute inset-0 w-full h-full"
+                    />
+                 )}
 
                  {/* Comparison Slider (Auto Mode) */}
-                 {viewMode === 'split' && retouchMode === 'auto' && (
+                 {isSplitView && (
                     <div 
                         className="absolute inset-0 w-full h-full bg-slate-950 slider-handle pointer-events-auto"
                         style={{ 
@@ -348,7 +1106,7 @@ export const Editor: React.FC<EditorProps> = ({
                     >
                          <img 
                             src={originalImage}
-                            alt="Original Clipped"
+                            alt=""
                             className="absolute inset-0 w-full h-full object-contain"
                         />
                     </div>
@@ -356,35 +1114,68 @@ export const Editor: React.FC<EditorProps> = ({
               </div>
             )}
 
+            {/* Quality check: cells that changed outside the skin */}
+            {showProblemAreas && quality?.overlay && (
+              <img
+                src={quality.overlay}
+                alt="Problem areas"
+                className="absolute inset-0 w-full h-full rounded-lg pointer-events-none"
+                style={{ imageRendering: 'pixelated' }}
+                draggable={false}
+              />
+            )}
+
             {/* Layer 3: UI Overlays (Spots - Indicators) */}
-            {retouchMode === 'manual' && spots.map(spot => (
-                <div
-                    key={spot.id}
-                    className="absolute rounded-full border border-white/30 bg-white/10 hover:bg-red-500/20 hover:border-red-500 transition-colors group cursor-pointer spot-remover"
-                    style={{
-                        left: `${spot.x}%`,
-                        top: `${spot.y}%`,
-                        width: `${spot.radius * 2}%`, // Use percentage width
-                        aspectRatio: '1/1', // Keep visual circle
-                        transform: 'translate(-50%, -50%)'
-                    }}
-                    onClick={(e) => removeSpot(e, spot.id)}
-                >
-                    <div className="hidden group-hover:flex items-center justify-center w-full h-full text-red-500">
-                        <X className="w-1/2 h-1/2" />
-                    </div>
-                </div>
-            ))}
+            {retouchMode === 'manual' && (brushTool === 'spot' || brushTool === 'lasso') && imageSize.width > 0 && (
+                <SpotOverlay
+                    spots={spots}
+                    maskSpots={maskSpots}
+                    selectedSpotId={selectedSpotId}
+                    imageWidth={imageSize.width}
+                    imageHeight={imageSize.height}
+                    pixelsPerScreenPixel={getImagePixelsPerScreenPixel()}
+                    draftLasso={activeLasso}
+                    onSelect={setSelectedSpotId}
+                    onTransform={transformSpot}
+                    onRemove={removeSpot}
+                />
+            )}
+
+            {/* Keyboard spot cursor: where Enter places the next spot */}
+            {retouchMode === 'manual' && brushTool === 'spot' && isCanvasFocused && !selectedSpot && imageSize.width > 0 && (
+              <div
+                aria-hidden="true"
+                className="absolute rounded-full border-2 border-dashed border-brand-400 pointer-events-none"
+                style={{
+                  left: `${((keyboardCursor?.x ?? imageSize.width / 2) / imageSize.width) * 100}%`,
+                  top: `${((keyboardCursor?.y ?? imageSize.height / 2) / imageSize.height) * 100}%`,
+                  width: `${brushSize * 2}%`,
+                  aspectRatio: '1/1',
+                  transform: 'translate(-50%, -50%)'
+                }}
+              />
+            )}
 
             {/* Slider Handle UI */}
-            {processedImage && viewMode === 'split' && retouchMode === 'auto' && (
+            {processedImage && isSplitView && (
               <div 
-                className="absolute inset-y-0 w-1 bg-white/50 backdrop-blur-sm cursor-ew-resize z-20 flex items-center justify-center hover:bg-white slider-handle"
-                style={{ left: `${sliderPosition}%` }}
+                role="slider"
+                tabIndex={0}
+                aria-label="Before and after divider"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(sliderPosition)}
+                aria-valuetext={`${Math.round(sliderPosition)}% original`}
+                className="absolute inset-y-0 bg-white/50 backdrop-blur-sm cursor-ew-resize z-20 flex items-center justify-center hover:bg-white focus:outline-none focus-visible:bg-brand-400 slider-handle"
+                style={{ left: `${sliderPosition}%`, width: 4 / viewport.scale }} // Constant on-screen width at any zoom
                 onMouseDown={handleDragStart}
                 onTouchStart={handleDragStart}
+                onKeyDown={handleSliderKeyDown}
               >
-                <div className="w-8 h-8 bg-white rounded-full shadow-xl flex items-center justify-center text-slate-900 transform -translate-x-1/2 pointer-events-none">
+                <div
+                  className="w-8 h-8 shrink-0 bg-white rounded-full shadow-xl flex items-center justify-center text-slate-900 pointer-events-none"
+                  style={{ transform: `translateX(-50%) scale(${1 / viewport.scale})` }}
+                >
                    <div className="flex gap-0.5">
                        <div className="w-0.5 h-3 bg-slate-400"></div>
                        <div className="w-0.5 h-3 bg-slate-400"></div>
@@ -392,33 +1183,85 @@ export const Editor: React.FC<EditorProps> = ({
                 </div>
               </div>
             )}
-            
-            {/* Labels */}
-            {processedImage && viewMode === 'split' && retouchMode === 'auto' && (
-                <>
-                    <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-white pointer-events-none z-10">
-                        Original
-                    </div>
-                    <div className="absolute top-4 right-4 bg-brand-600/90 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-white pointer-events-none z-10">
-                        Retouched
-                    </div>
-                </>
-            )}
+          </div>
+        </div>
+
+          {/* Labels */}
+          {processedImage && (isSplitView || viewMode === 'sideBySide') && (
+              <>
+                  <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-white pointer-events-none z-10">
+                      Original
+                  </div>
+                  <div className="absolute top-4 right-4 bg-brand-600/90 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-white pointer-events-none z-10">
+                      Retouched
+                  </div>
+              </>
+          )}
+          {processedImage && (viewMode === 'flicker' || isChangeView) && (
+              <div className={`absolute top-4 left-4 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-white pointer-events-none z-10 ${
+                  viewMode === 'flicker' && !flickerOriginal ? 'bg-brand-600/90' : 'bg-black/60'
+              }`}>
+                  {viewMode === 'flicker'
+                    ? (flickerOriginal ? 'Original' : 'Retouched')
+                    : viewMode === 'difference' ? `Difference ×${differenceGain}` : 'Change Heatmap'}
+              </div>
+          )}
 
+          {processedImage && showBefore && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/60 backdrop-blur-md px-3 py-1 rounded-full text-xs font-bold text-white pointer-events-none z-10">
+                  Before · press B to return
+              </div>
+          )}
+
+          {/* Screen reader help for the canvas, and the status of keyboard edits */}
+          <p id="editor-canvas-help" className="sr-only">
+            {retouchMode === 'manual'
+              ? 'Arrow keys move the spot cursor, Shift for larger steps. Enter places a spot, and the bracket keys change the brush size. Tab moves through the placed spots. With a spot selected, the arrow keys move it, the bracket keys resize it, comma and period rotate it, Delete removes it, and Escape deselects it.'
+              : 'Switch to Manual mode to place spots from the keyboard.'}
+            {processedImage ? ' Press B to toggle between the original and the retouched image.' : ''}
+          </p>
+          <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+          {/* Zoom Controls & Navigator */}
+          <div role="toolbar" aria-label="Zoom" className="absolute bottom-3 left-3 z-30 flex items-center gap-1 bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-lg p-1 text-xs text-slate-300">
+            <button onClick={() => viewport.zoomBy(0.5)} title="Zoom out (Ctrl -)" aria-label="Zoom out" className="p-1.5 rounded-md hover:bg-slate-800 hover:text-white transition-colors">
+              <ZoomOut className="w-3.5 h-3.5" />
+            </button>
+            <span className="w-12 text-center font-mono" aria-label={`Zoom ${Math.round(viewport.pixelZoom * 100)}%`}>{Math.round(viewport.pixelZoom * 100)}%</span>
+            <button onClick={() => viewport.zoomBy(2)} title="Zoom in (Ctrl +)" aria-label="Zoom in" className="p-1.5 rounded-md hover:bg-slate-800 hover:text-white transition-colors">
+              <ZoomIn className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={viewport.fit} title="Fit (Ctrl 0)" aria-label="Fit to view" className="p-1.5 rounded-md hover:bg-slate-800 hover:text-white transition-colors">
+              <Maximize2 className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => viewport.actualPixels()} title="100% (Ctrl 1)" aria-label="Actual pixels" className="px-1.5 py-1 rounded-md font-mono hover:bg-slate-800 hover:text-white transition-colors">
+              1:1
+            </button>
           </div>
+
+          {viewport.scale > 1 && (
+            <div className="absolute bottom-3 right-3 z-30">
+              <Navigator src={originalImage} visible={viewport.visible} onNavigate={viewport.centerOn} />
+            </div>
+          )}
         </div>
 
         {/* --- Controls Sidebar --- */}
         <div className="w-full lg:w-80 flex flex-col gap-6 bg-slate-900/50 p-6 rounded-2xl border border-slate-800 h-fit overflow-y-auto max-h-full">
             
+            <PresetPanel library={presets} disabled={isProcessing} />
+
+            <div className="h-px bg-slate-800" />
+
             {/* 1. Retouch Mode Selection */}
             <div className="space-y-3">
                  <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
                      <Sliders className="w-4 h-4" /> Mode
                  </h3>
-                 <div className="grid grid-cols-2 gap-2 p-1 bg-slate-800 rounded-lg">
+                 <div role="group" aria-label="Retouch mode" className="grid grid-cols-2 gap-2 p-1 bg-slate-800 rounded-lg">
                     <button
-                        onClick={() => { setRetouchMode('auto'); setViewMode('split'); }}
+                        onClick={() => setRetouchMode('auto')}
+                        aria-pressed={retouchMode === 'auto'}
                         className={`flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-md transition-all ${
                             retouchMode === 'auto' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'
                         }`}
@@ -426,7 +1269,8 @@ export const Editor: React.FC<EditorProps> = ({
                         Auto (Full)
                     </button>
                     <button
-                        onClick={() => { setRetouchMode('manual'); setViewMode('hold'); }}
+                        onClick={() => setRetouchMode('manual')}
+                        aria-pressed={retouchMode === 'manual'}
                         className={`flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-md transition-all ${
                             retouchMode === 'manual' ? 'bg-brand-600 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'
                         }`}
@@ -436,33 +1280,130 @@ export const Editor: React.FC<EditorProps> = ({
                     </button>
                  </div>
                  
+                 {retouchMode === 'auto' && (
+                     <label className={`flex items-center justify-between text-sm ${skinMask ? 'text-slate-300' : 'text-slate-500'}`}>
+                         <span>Skin only</span>
+                         <input
+                             type="checkbox"
+                             checked={skinOnly && !!skinMask}
+                             disabled={!skinMask}
+                             onChange={(e) => setSkinOnly(e.target.checked)}
+                             className="w-4 h-4 accent-brand-500"
+                         />
+                     </label>
+                 )}
+                 {retouchMode === 'auto' && !skinMask && (
+                     <p className="text-xs text-slate-500 leading-relaxed">
+                         No face detected, so the whole frame will be blended.
+                     </p>
+                 )}
+
                  {retouchMode === 'manual' && (
                      <div className="p-3 bg-brand-900/20 border border-brand-500/30 rounded-lg text-xs text-brand-200 leading-relaxed">
-                         <strong>Manual Mode:</strong> Click on the face to remove blemishes only in that spot.
+                         <strong>Manual Mode:</strong> Click on the face to remove blemishes only in that spot, outline an area with the lasso, or paint the areas to retouch with the brush. Click a spot to move, resize or rotate it.
                      </div>
                  )}
             </div>
 
             {retouchMode === 'manual' && (
                 <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                    <div role="group" aria-label="Mask tool" className="grid grid-cols-4 gap-1 p-1 bg-slate-800 rounded-lg">
+                        {([
+                            { tool: 'spot', label: 'Spot', icon: <Circle className="w-3.5 h-3.5" /> },
+                            { tool: 'lasso', label: 'Lasso', icon: <Lasso className="w-3.5 h-3.5" /> },
+                            { tool: 'brush', label: 'Brush', icon: <Paintbrush className="w-3.5 h-3.5" /> },
+                            { tool: 'eraser', label: 'Erase', icon: <Eraser className="w-3.5 h-3.5" /> },
+                        ] as const).map(({ tool, label, icon }) => (
+                            <button
+                                key={tool}
+                                onClick={() => setBrushTool(tool)}
+                                aria-pressed={brushTool === tool}
+                                className={`flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium rounded-md transition-all ${
+                                    brushTool === tool ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'
+                                }`}
+                            >
+                                {icon}
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {brushTool !== 'lasso' && (
+                        <>
+                            <div className="flex justify-between text-sm">
+                                <span className="text-slate-300">Brush Size</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="0.5"
+                                max="8"
+                                step="0.5"
+                                value={brushSize}
+                                aria-label="Brush size"
+                                onChange={(e) => setBrushSize(parseFloat(e.target.value))}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                            />
+                        </>
+                    )}
+
                     <div className="flex justify-between text-sm">
-                        <span className="text-slate-300">Brush Size</span>
+                        <span className="text-slate-300">Hardness</span>
+                        <span className="text-brand-400 font-mono">{Math.round(brushHardness * 100)}%</span>
                     </div>
                     <input
                         type="range"
-                        min="0.5"
-                        max="8"
-                        step="0.5"
-                        value={brushSize}
-                        onChange={(e) => setBrushSize(parseFloat(e.target.value))}
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={brushHardness}
+                        aria-label="Hardness"
+                        aria-valuetext={`${Math.round(brushHardness * 100)}%`}
+                        onChange={(e) => setBrushHardness(parseFloat(e.target.value))}
                         className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
                     />
-                    {spots.length > 0 && (
+
+                    {(brushTool === 'brush' || brushTool === 'eraser') && (
+                        <>
+                            <div className="flex justify-between text-sm">
+                                <span className="text-slate-300">Opacity</span>
+                                <span className="text-brand-400 font-mono">{brushOpacity}%</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="5"
+                                max="100"
+                                step="5"
+                                value={brushOpacity}
+                                aria-label="Opacity"
+                                aria-valuetext={`${brushOpacity}%`}
+                                onChange={(e) => setBrushOpacity(parseInt(e.target.value))}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                            />
+                        </>
+                    )}
+
+                    <div className="h-px bg-slate-800" />
+
+                    <BlemishSuggestions
+                        spots={spots}
+                        filter={detectionFilter}
+                        selectedSpot={selectedSpot}
+                        isDetecting={isDetecting}
+                        onDetect={handleDetect}
+                        onToggleType={toggleDetectionType}
+                        onMinConfidence={setMinConfidence}
+                        onAccept={acceptSpot}
+                        onReject={rejectSpot}
+                        onAcceptVisible={acceptVisible}
+                        onRejectPending={rejectPending}
+                    />
+
+                    {(spots.length > 0 || strokes.length > 0) && (
                         <button 
-                            onClick={() => setSpots([])}
+                            onClick={clearMask}
                             className="w-full flex items-center justify-center gap-2 py-2 mt-2 text-xs font-medium text-red-400 hover:bg-red-950/30 border border-red-900/50 rounded-lg transition-colors"
                         >
-                            <Eraser className="w-3 h-3" /> Clear All Spots
+                            <Eraser className="w-3 h-3" /> Clear Mask
                         </button>
                     )}
                 </div>
@@ -474,7 +1415,7 @@ export const Editor: React.FC<EditorProps> = ({
                 <div className="space-y-4 animate-in fade-in">
                     <div className="space-y-3">
                         <div className="flex justify-between text-sm">
-                        <span className="text-slate-300">Correction Intensity</span>
+                        <span className="text-slate-300">Tone</span>
                         <span className="text-brand-400 font-mono">{intensity}%</span>
                         </div>
                         <input
@@ -482,11 +1423,27 @@ export const Editor: React.FC<EditorProps> = ({
                         min="0"
                         max="100"
                         value={intensity}
+                        aria-label="Tone"
+                        aria-valuetext={`${intensity}%`}
                         onChange={(e) => setIntensity(parseInt(e.target.value))}
                         className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
                         />
+                        <div className="flex justify-between text-sm">
+                        <span className="text-slate-300">Texture</span>
+                        <span className="text-brand-400 font-mono">{texture}%</span>
+                        </div>
+                        <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={texture}
+                        aria-label="Texture"
+                        aria-valuetext={`${texture}%`}
+                        onChange={(e) => setTexture(parseInt(e.target.value))}
+                        className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                        />
                         <p className="text-xs text-slate-500 leading-relaxed">
-                        Adjust how strongly the retouch blends with original skin texture.
+                        Tone applies the correction to color and redness; texture keeps the original pores and grain.
                         </p>
                     </div>
 
@@ -497,37 +1454,72 @@ export const Editor: React.FC<EditorProps> = ({
                              <Eye className="w-4 h-4" /> Compare
                         </h3>
                         
-                        <div className="grid grid-cols-2 gap-2">
-                            <button
-                            disabled={retouchMode === 'manual'}
-                            onClick={() => setViewMode('split')}
-                            className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
-                                viewMode === 'split' 
-                                ? 'bg-slate-700 border-slate-600 text-white' 
-                                : 'bg-slate-800 border-slate-800 text-slate-400 hover:bg-slate-750 disabled:opacity-50 disabled:cursor-not-allowed'
-                            }`}
-                            >
-                                Split Preview
-                            </button>
-                            <button
-                            onClick={() => setViewMode('hold')}
-                            className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
-                                viewMode === 'hold' 
-                                ? 'bg-slate-700 border-slate-600 text-white' 
-                                : 'bg-slate-800 border-slate-800 text-slate-400 hover:bg-slate-750'
-                            }`}
-                            >
-                                Hold for Original
-                            </button>
+                        <div role="group" aria-label="Comparison view" className="grid grid-cols-2 gap-2">
+                            {VIEW_MODES.map(mode => (
+                                <button
+                                key={mode.id}
+                                aria-pressed={viewMode === mode.id}
+                                disabled={mode.id === 'split' && retouchMode === 'manual'}
+                                onClick={() => setViewMode(mode.id)}
+                                className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
+                                    viewMode === mode.id
+                                    ? 'bg-slate-700 border-slate-600 text-white' 
+                                    : 'bg-slate-800 border-slate-800 text-slate-400 hover:bg-slate-750 disabled:opacity-50 disabled:cursor-not-allowed'
+                                }`}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
                         </div>
 
+                        {viewMode === 'difference' && (
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-slate-300">Amplify</span>
+                                <div role="group" aria-label="Amplify differences" className="flex gap-1">
+                                    {DIFFERENCE_GAINS.map(gain => (
+                                        <button
+                                            key={gain}
+                                            aria-pressed={differenceGain === gain}
+                                            aria-label={`Amplify ${gain} times`}
+                                            onClick={() => setDifferenceGain(gain)}
+                                            className={`px-2 py-1 text-xs font-mono rounded-md border transition-colors ${
+                                                differenceGain === gain
+                                                ? 'bg-brand-600/20 border-brand-500/50 text-brand-300'
+                                                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+                                            }`}
+                                        >
+                                            ×{gain}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {isChangeView && (
+                            <p className="text-xs text-slate-500 leading-relaxed">
+                            Shows every pixel the engine changed in the selected variant, before the mask and sliders are applied.
+                            </p>
+                        )}
+
                         {viewMode === 'hold' && (
                             <button
+                                aria-pressed={isHoldingOriginal}
+                                title="Or press B to switch between before and after"
                                 onMouseDown={() => setIsHoldingOriginal(true)}
                                 onMouseUp={() => setIsHoldingOriginal(false)}
                                 onMouseLeave={() => setIsHoldingOriginal(false)}
                                 onTouchStart={() => setIsHoldingOriginal(true)}
                                 onTouchEnd={() => setIsHoldingOriginal(false)}
+                                onKeyDown={(e) => {
+                                    if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                                        e.preventDefault();
+                                        setIsHoldingOriginal(true);
+                                    }
+                                }}
+                                onKeyUp={(e) => {
+                                    if (e.key === ' ' || e.key === 'Enter') setIsHoldingOriginal(false);
+                                }}
+                                onBlur={() => setIsHoldingOriginal(false)}
                                 className="w-full py-3 rounded-lg border border-slate-700 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm font-medium transition-colors select-none"
                             >
                                 Hold to see Before
@@ -537,13 +1529,63 @@ export const Editor: React.FC<EditorProps> = ({
                 </div>
             )}
 
+            <div className="h-px bg-slate-800" />
+
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                        <History className="w-4 h-4" /> History
+                    </h3>
+                    <div className="flex gap-1">
+                        <button
+                            onClick={history.undo}
+                            disabled={!history.canUndo}
+                            title="Undo (Ctrl+Z)"
+                            aria-label="Undo"
+                            className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                        >
+                            <Undo2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={history.redo}
+                            disabled={!history.canRedo}
+                            title="Redo (Ctrl+Shift+Z)"
+                            aria-label="Redo"
+                            className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                        >
+                            <Redo2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+                <ol aria-label="Edit history" className="max-h-40 overflow-y-auto space-y-0.5 text-xs">
+                    {history.entries.map((entry, i) => (
+                        <li key={entry.id}>
+                            <button
+                                onClick={() => history.jumpTo(i)}
+                                aria-current={i === history.index ? 'step' : undefined}
+                                className={`w-full text-left px-2 py-1 rounded-md transition-colors ${
+                                    i === history.index
+                                    ? 'bg-slate-700 text-white'
+                                    : i > history.index
+                                        ? 'text-slate-600 hover:bg-slate-800'
+                                        : 'text-slate-400 hover:bg-slate-800'
+                                }`}
+                            >
+                                {entry.label}
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+
             {!processedImage && (
                 <div className="mt-auto p-4 bg-slate-800/50 rounded-lg border border-slate-700">
                     <h4 className="text-sm font-medium text-slate-200 mb-2">Tips</h4>
                     <ul className="text-xs text-slate-400 space-y-1 list-disc pl-4">
                         <li>Use "Auto" for quick full-face cleanup.</li>
-                        <li>Use "Manual Spots" to surgically remove individual blemishes.</li>
+                        <li>Use "Manual Spots" to surgically remove individual blemishes, or paint larger areas with the brush.</li>
                         <li>Hover over the image to see your brush size.</li>
+                        <li>From the keyboard: focus the image, move the spot cursor with the arrow keys and press Enter to place a spot. Press B to compare before and after.</li>
                     </ul>
                 </div>
             )}
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { ExportFormat, ExportSettings, FILENAME_TOKENS, FORMAT_EXTENSIONS, SizePreset } from '../utils/exportImage';
+
+interface ExportDialogProps {
+  initialSettings: ExportSettings;
+  /** Whether the source carries JPEG metadata that could be kept. */
+  sourceIsJpeg: boolean;
+  isExporting: boolean;
+  /** Why the last attempt failed; shown above the Export button. */
+  error: string | null;
+  onExport: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+const PRESETS: { value: SizePreset; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'web', label: 'Web' },
+  { value: 'square', label: 'Social Square' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ initialSettings, sourceIsJpeg, isExporting, error, onExport, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(initialSettings);
+  const update = (patch: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const canKeepMetadata = sourceIsJpeg && settings.format === 'image/jpeg';
+  const hasQuality = settings.format !== 'image/png';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl p-6 space-y-5 animate-in zoom-in-95"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-lg font-semibold text-white">Export Image</h2>
+          <button onClick={onClose} aria-label="Close" className="text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Format */}
+        <div className="space-y-2">
+          <span id="export-format-label" className="text-sm text-slate-300">Format</span>
+          <div role="group" aria-labelledby="export-format-label" className="grid grid-cols-3 gap-2 p-1 bg-slate-800 rounded-lg">
+            {FORMATS.map(format => (
+              <button
+                key={format.value}
+                onClick={() => update({ format: format.value })}
+                aria-pressed={settings.format === format.value}
+                className={`py-1.5 text-xs font-medium rounded-md transition-all ${
+                  settings.format === format.value ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Quality */}
+        {hasQuality && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-300">Quality</span>
+              <span className="text-brand-400 font-mono">{settings.quality}</span>
+            </div>
+            <input
+              type="range"
+              min="50"
+              max="100"
+              value={settings.quality}
+              aria-label="Quality"
+              onChange={(e) => update({ quality: parseInt(e.target.value) })}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+            />
+          </div>
+        )}
+
+        {/* Size */}
+        <div className="space-y-2">
+          <span id="export-size-label" className="text-sm text-slate-300">Size</span>
+          <div role="group" aria-labelledby="export-size-label" className="grid grid-cols-3 gap-2 p-1 bg-slate-800 rounded-lg">
+            {PRESETS.map(preset => (
+              <button
+                key={preset.value}
+                onClick={() => update({ sizePreset: preset.value })}
+                aria-pressed={settings.sizePreset === preset.value}
+                className={`py-1.5 text-xs font-medium rounded-md transition-all ${
+                  settings.sizePreset === preset.value ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          {settings.sizePreset === 'web' && (
+            <label className="flex items-center justify-between text-xs text-slate-400">
+              <span>Long edge</span>
+              <select
+                value={settings.webLongEdge}
+                onChange={(e) => update({ webLongEdge: parseInt(e.target.value) })}
+                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:border-brand-500"
+              >
+                {[1080, 1600, 2048, 2560].map(n => <option key={n} value={n}>{n}px</option>)}
+              </select>
+            </label>
+          )}
+          {settings.sizePreset === 'square' && (
+            <label className="flex items-center justify-between text-xs text-slate-400">
+              <span>Square size</span>
+              <select
+                value={settings.squareSize}
+                onChange={(e) => update({ squareSize: parseInt(e.target.value) })}
+                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:border-brand-500"
+              >
+                {[1080, 1440, 2048].map(n => <option key={n} value={n}>{n}px</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Filename */}
+        <div className="space-y-2">
+          <span className="text-sm text-slate-300">File name</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={settings.filenameTemplate}
+              aria-label="File name"
+              onChange={(e) => update({ filenameTemplate: e.target.value })}
+              className="flex-1 bg-slate-800 border border-slate-700 rounded-md px-3 py-1.5 text-sm text-slate-200 font-mono focus:outline-none focus:border-brand-500"
+            />
+            <span className="text-xs text-slate-500 font-mono">.{FORMAT_EXTENSIONS[settings.format]}</span>
+          </div>
+          <p className="text-xs text-slate-500">Tokens: {FILENAME_TOKENS.join(' ')}</p>
+        </div>
+
+        {/* Metadata */}
+        <div className="space-y-2">
+          <span className="text-sm text-slate-300">Metadata</span>
+          {([
+            ['keepOrientation', 'Keep EXIF orientation'],
+            ['keepColorProfile', 'Keep color profile (ICC)'],
+            ['keepCameraMetadata', 'Keep camera metadata (EXIF)'],
+          ] as const).map(([key, label]) => (
+            <label key={key} className={`flex items-center justify-between text-xs ${canKeepMetadata ? 'text-slate-300' : 'text-slate-600'}`}>
+              <span>{label}</span>
+              <input
+                type="checkbox"
+                checked={canKeepMetadata && settings[key]}
+                disabled={!canKeepMetadata}
+                onChange={(e) => update({ [key]: e.target.checked })}
+                className="w-4 h-4 accent-brand-500"
+              />
+            </label>
+          ))}
+          {!canKeepMetadata && (
+            <p className="text-xs text-slate-500">
+              {sourceIsJpeg ? 'Metadata can only be carried over to JPEG output.' : 'The original has no JPEG metadata to carry over.'}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <p role="alert" className="text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-md px-3 py-2">
+            {error}
+          </p>
+        )}
+
+        <button
+          onClick={() => onExport(settings)}
+          disabled={isExporting}
+          className="w-full flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white font-semibold shadow-lg shadow-emerald-500/20 disabled:opacity-60 transition-all"
+        >
+          <Download className="w-4 h-4" />
+          {isExporting ? 'Exporting...' : 'Export'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,15 @@
 import React from 'react';
-import { Sparkles, Camera } from 'lucide-react';
+import { Sparkles, Server } from 'lucide-react';
+import { RetouchProvider, RetouchProviderId } from '../services/providers/types';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  providers: RetouchProvider[];
+  providerId: RetouchProviderId;
+  onProviderChange: (id: RetouchProviderId) => void;
+  disabled?: boolean;
+}
+
+export const Header: React.FC<HeaderProps> = ({ providers, providerId, onProviderChange, disabled }) => {
   return (
     <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-md sticky top-0 z-50">
       <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
@@ -15,12 +23,24 @@ export const Header: React.FC = () => {
           </div>
         </div>
         <div className="flex items-center gap-4 text-sm text-slate-400">
-           <span className="hidden sm:flex items-center gap-1">
-             <Camera className="w-4 h-4" />
-             <span>Powered by Gemini 2.5</span>
-           </span>
+           <label className="flex items-center gap-2">
+             <Server className="w-4 h-4" />
+             <span className="hidden sm:inline">Engine</span>
+             <select
+               value={providerId}
+               disabled={disabled}
+               onChange={(e) => onProviderChange(e.target.value as RetouchProviderId)}
+               className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 text-xs focus:outline-none focus:border-brand-500 disabled:opacity-50"
+             >
+               {providers.map(provider => (
+                 <option key={provider.id} value={provider.id} title={provider.description}>
+                   {provider.label}{provider.isConfigured() ? '' : ' (not configured)'}
+                 </option>
+               ))}
+             </select>
+           </label>
         </div>
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
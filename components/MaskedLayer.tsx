@@ -0,0 +1,69 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useLoadedImage, useRenderSize } from '../hooks/useCanvasLayer';
+import { applyMask } from '../utils/brushMask';
+import { BlendSettings, mergeFrequencies, splitFrequencies } from '../utils/frequencyBlend';
+import { Canvas, createCanvas } from '../utils/imageHelpers';
+
+interface MaskedLayerProps {
+  src?: string;
+  /** Solid colour drawn instead of an image, e.g. to show the selection before there is a result. */
+  fill?: string;
+  /** Original image; when set, `src` is frequency-blended over it with `blend` like the export. */
+  base?: string;
+  blend?: BlendSettings;
+  /** Builds the mask at the given pixel size; the layer redraws whenever this changes. Omit for no mask. */
+  renderMask?: (width: number, height: number) => CanvasImageSource;
+  /** Multiplier on the on-screen resolution, e.g. while the view is zoomed; capped at the image's own size. */
+  resolution?: number;
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+const solidLayer = (width: number, height: number, color: string): Canvas => {
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return canvas;
+};
+
+/**
+ * Canvas preview of `src` cut by a raster mask, drawn at the element's on-screen
+ * resolution using the same blending and masking code as the export.
+ */
+export const MaskedLayer: React.FC<MaskedLayerProps> = ({ src, fill, base, blend, renderMask, resolution = 1, style, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const image = useLoadedImage(src);
+  const baseImage = useLoadedImage(base);
+  const size = useRenderSize(canvasRef, resolution, image?.naturalWidth);
+
+  // Splitting is the slow part, so it only reruns when the images or the size change
+  const frequencies = useMemo(() => (
+    image && baseImage && size ? splitFrequencies(baseImage, image, size.width, size.height) : null
+  ), [image, baseImage, size]);
+
+  const tone = blend?.tone;
+  const texture = blend?.texture;
+  const layer = useMemo((): CanvasImageSource | null => {
+    if (base) {
+      // Blended layers wait for both images
+      return frequencies ? mergeFrequencies(frequencies, { tone: tone ?? 100, texture: texture ?? 0 }) : null;
+    }
+    if (image) return image;
+    return fill && size ? solidLayer(size.width, size.height, fill) : null;
+  }, [base, frequencies, tone, texture, image, fill, size]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size || !layer) return;
+    const frame = requestAnimationFrame(() => {
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(renderMask ? applyMask(layer, renderMask(size.width, size.height), size.width, size.height) : layer, 0, 0, size.width, size.height);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [layer, size, renderMask]);
+
+  return <canvas ref={canvasRef} className={className} style={style} />;
+};
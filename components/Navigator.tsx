@@ -0,0 +1,57 @@
+import React, { useRef } from 'react';
+
+interface NavigatorProps {
+  src: string;
+  /** Visible part of the image as fractions of its size; may extend past the edges. */
+  visible: { x: number; y: number; width: number; height: number };
+  /** Called with the image point (as fractions) to centre the view on. */
+  onNavigate: (fx: number, fy: number) => void;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Minimap of the whole image with the zoomed-in view outlined; click or drag to move the view. */
+export const Navigator: React.FC<NavigatorProps> = ({ src, visible, onNavigate }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  const navigate = (clientX: number, clientY: number) => {
+    if (!ref.current) return;
+    const rect = ref.current.getBoundingClientRect();
+    onNavigate(clamp01((clientX - rect.left) / rect.width), clamp01((clientY - rect.top) / rect.height));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    navigate(e.clientX, e.clientY);
+    const handleMove = (move: MouseEvent) => navigate(move.clientX, move.clientY);
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const x = clamp01(visible.x);
+  const y = clamp01(visible.y);
+
+  return (
+    <div
+      ref={ref}
+      onMouseDown={handleMouseDown}
+      className="relative w-40 rounded-md overflow-hidden border border-slate-700 shadow-xl cursor-pointer bg-slate-950"
+    >
+      <img src={src} alt="Navigator" className="block w-full" draggable={false} />
+      <div
+        className="absolute border-2 border-brand-400 bg-brand-400/10 pointer-events-none"
+        style={{
+          left: `${x * 100}%`,
+          top: `${y * 100}%`,
+          width: `${(clamp01(visible.x + visible.width) - x) * 100}%`,
+          height: `${(clamp01(visible.y + visible.height) - y) * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
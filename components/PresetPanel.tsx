@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { Wand2, Pencil, Trash2, Upload, Download } from 'lucide-react';
+import { PresetLibrary } from '../hooks/usePresets';
+import { NOTES_MAX_LENGTH, PRESERVE_LABELS, PreserveFeature, RetouchPreset, RetouchStrength, RetouchTarget, TARGET_LABELS } from '../services/prompts';
+import { downloadBlob } from '../utils/imageHelpers';
+
+interface PresetPanelProps {
+  library: PresetLibrary;
+  disabled?: boolean;
+}
+
+const STRENGTHS: RetouchStrength[] = ['subtle', 'moderate', 'strong'];
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+/** Sidebar section to pick, edit, import and export the retouch preset used for new requests. */
+export const PresetPanel: React.FC<PresetPanelProps> = ({ library, disabled }) => {
+  const { presets, active } = library;
+  const [draft, setDraft] = useState<RetouchPreset | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<RetouchPreset>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = library.importJson(await file.text());
+      setMessage(`Imported ${count} preset${count === 1 ? '' : 's'}.`);
+    } catch (err) {
+      console.error("Preset import failed:", err);
+      setMessage(err instanceof SyntaxError ? "That file isn't valid JSON." : err.message);
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([library.exportJson()], { type: 'application/json' }), 'dermafix-presets.json');
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    library.save({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Wand2 className="w-4 h-4" /> Preset
+        </h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} title="Import presets" aria-label="Import presets" className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+            <Upload className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={handleExport} title="Export presets" aria-label="Export presets" className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-800 transition-colors">
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={active.id}
+          disabled={disabled}
+          aria-label="Retouch preset"
+          onChange={(e) => { library.select(e.target.value); setDraft(null); setMessage(null); }}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-brand-500 disabled:opacity-50"
+        >
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+        </select>
+        <button
+          onClick={() => setDraft(draft ? null : { ...active, name: active.builtIn ? `${active.name} (copy)` : active.name })}
+          title="Edit preset"
+          aria-label="Edit preset"
+          aria-expanded={!!draft}
+          className={`p-1.5 rounded-md transition-colors ${draft ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        >
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        {!active.builtIn && (
+          <button
+            onClick={() => { library.remove(active.id); setDraft(null); }}
+            title="Delete preset"
+            aria-label="Delete preset"
+            className="p-1.5 rounded-md text-slate-400 hover:text-red-400 hover:bg-red-950/30 transition-colors"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {!draft && (
+        <p className="text-xs text-slate-500 leading-relaxed">
+          Fixes {active.targets.map(t => TARGET_LABELS[t].toLowerCase()).join(', ') || 'blemishes'} ({active.strength})
+          {active.preserve.length > 0 && `, keeps ${active.preserve.map(f => PRESERVE_LABELS[f].toLowerCase()).join(', ')}`}.
+        </p>
+      )}
+
+      {message && <p className="text-xs text-brand-300">{message}</p>}
+
+      {draft && (
+        <div className="space-y-3 p-3 bg-slate-800/50 border border-slate-700 rounded-lg animate-in fade-in slide-in-from-top-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Preset name"
+            aria-label="Preset name"
+            className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-brand-500"
+          />
+
+          <div className="space-y-1.5">
+            <span className="text-xs text-slate-400">Fix</span>
+            {(Object.keys(TARGET_LABELS) as RetouchTarget[]).map(target => (
+              <label key={target} className="flex items-center justify-between text-xs text-slate-300">
+                <span>{TARGET_LABELS[target]}</span>
+                <input
+                  type="checkbox"
+                  checked={draft.targets.includes(target)}
+                  onChange={() => update({ targets: toggle(draft.targets, target) })}
+                  className="w-3.5 h-3.5 accent-brand-500"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs text-slate-400">Strength</span>
+            <div role="group" aria-label="Strength" className="grid grid-cols-3 gap-1 p-1 bg-slate-800 rounded-lg">
+              {STRENGTHS.map(strength => (
+                <button
+                  key={strength}
+                  aria-pressed={draft.strength === strength}
+                  onClick={() => update({ strength })}
+                  className={`py-1 text-xs font-medium rounded-md capitalize transition-all ${
+                    draft.strength === strength ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {strength}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs text-slate-400">Preserve</span>
+            {(Object.keys(PRESERVE_LABELS) as PreserveFeature[]).map(feature => (
+              <label key={feature} className="flex items-center justify-between text-xs text-slate-300">
+                <span>{PRESERVE_LABELS[feature]}</span>
+                <input
+                  type="checkbox"
+                  checked={draft.preserve.includes(feature)}
+                  onChange={() => update({ preserve: toggle(draft.preserve, feature) })}
+                  className="w-3.5 h-3.5 accent-brand-500"
+                />
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            value={draft.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            maxLength={NOTES_MAX_LENGTH}
+            placeholder="Extra instructions (optional)"
+            aria-label="Extra instructions"
+            rows={2}
+            className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-200 resize-none focus:outline-none focus:border-brand-500"
+          />
+
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim() || draft.targets.length === 0}
+            className="w-full py-1.5 text-xs font-medium rounded-lg bg-brand-600 hover:bg-brand-500 text-white disabled:opacity-40 transition-colors"
+          >
+            {active.builtIn ? 'Save as New Preset' : 'Save Preset'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
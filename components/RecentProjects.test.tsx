@@ -0,0 +1,21 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RecentProjects } from './RecentProjects';
+
+const projects = [
+  { id: 'p1', name: 'portrait.jpg', updatedAt: 0, thumbnail: '', resultCount: 0 },
+  { id: 'p2', name: 'headshot.png', updatedAt: 0, thumbnail: '', resultCount: 1 },
+];
+
+afterEach(cleanup);
+
+describe('RecentProjects', () => {
+  it('names the project each delete button removes', () => {
+    const onDelete = vi.fn();
+    render(<RecentProjects projects={projects} onOpen={vi.fn()} onDelete={onDelete} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Delete headshot.png' }));
+    expect(onDelete).toHaveBeenCalledWith('p2');
+  });
+});
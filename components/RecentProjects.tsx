@@ -0,0 +1,51 @@
+import React from 'react';
+import { Clock, Trash2 } from 'lucide-react';
+import { ProjectSummary } from '../services/projectStore';
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdated = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+export const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, onOpen, onDelete }) => {
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="mt-10 space-y-3">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <Clock className="w-4 h-4" /> Recent Projects
+      </h3>
+      <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {projects.map(project => (
+          <li key={project.id} className="group relative">
+            <button
+              onClick={() => onOpen(project.id)}
+              className="w-full text-left rounded-xl overflow-hidden border border-slate-800 bg-slate-900/50 hover:border-brand-500 transition-colors"
+            >
+              <img src={project.thumbnail} alt={project.name} className="w-full aspect-square object-cover" />
+              <div className="p-2">
+                <p className="text-xs text-slate-200 truncate">{project.name}</p>
+                <p className="text-[10px] text-slate-500">
+                  {formatUpdated(project.updatedAt)}{project.resultCount > 0 ? ' · Retouched' : ''}
+                </p>
+              </div>
+            </button>
+            <button
+              onClick={() => onDelete(project.id)}
+              title="Delete project"
+              aria-label={`Delete ${project.name}`}
+              className="absolute top-1.5 right-1.5 p-1.5 rounded-md bg-black/60 text-slate-300 hover:text-red-400 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ShieldAlert, X } from 'lucide-react';
+import { RetouchError } from '../services/providers/errors';
+import { PresetLibrary } from '../hooks/usePresets';
+
+interface RefusalPanelProps {
+  error: RetouchError;
+  presets: PresetLibrary;
+  /** Whether a face was found, so the request can be cropped to it. */
+  canCropToFace: boolean;
+  isProcessing: boolean;
+  onRetry: (cropToFace: boolean) => void;
+  onManual: () => void;
+  onDismiss: () => void;
+}
+
+const REASONS: Record<string, string> = {
+  SAFETY: "The response was stopped by the safety filters.",
+  IMAGE_SAFETY: "The generated image was flagged by the image safety filter.",
+  PROHIBITED_CONTENT: "The photo was classified as prohibited content.",
+  SPII: "The request looked like it contained sensitive personal information.",
+  BLOCKLIST: "The request matched a blocked term.",
+  RECITATION: "The result was too close to existing material.",
+  MAX_TOKENS: "The answer was cut off before an image was produced.",
+  OTHER: "The model stopped for an unspecified reason.",
+};
+
+// Ratings at these levels are worth pointing out, blocked or not
+const NOTABLE_PROBABILITIES = ['MEDIUM', 'HIGH'];
+
+const formatCategory = (category: string) => (
+  category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ')
+);
+
+/** Explains why the engine refused or answered without an image, with ways to get a result anyway. */
+export const RefusalPanel: React.FC<RefusalPanelProps> = ({
+  error,
+  presets,
+  canCropToFace,
+  isProcessing,
+  onRetry,
+  onManual,
+  onDismiss
+}) => {
+  const { diagnostics } = error;
+  const reason = diagnostics?.blockReason
+    ? `The request was blocked before anything was generated (${diagnostics.blockReason.toLowerCase().replace(/_/g, ' ')}).`
+    : diagnostics?.finishReason ? REASONS[diagnostics.finishReason] : undefined;
+  const ratings = (diagnostics?.safetyRatings ?? []).filter(rating => (
+    rating.blocked || NOTABLE_PROBABILITIES.includes(rating.probability)
+  ));
+  const otherPresets = presets.presets.filter(preset => preset.id !== presets.active.id);
+
+  return (
+    <div role="alert" className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-100 space-y-3 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-1 text-sm">
+          <p className="font-semibold">
+            {error.kind === 'safety' ? 'The engine refused this photo' : 'The engine answered without an image'}
+          </p>
+          <p className="text-xs text-red-200/80">{reason ?? error.message}</p>
+          {ratings.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 pt-1">
+              {ratings.map(rating => (
+                <span key={rating.category} className="px-2 py-0.5 rounded-full bg-red-500/20 text-[11px] text-red-200">
+                  {formatCategory(rating.category)}: {rating.blocked ? 'blocked' : rating.probability.toLowerCase()}
+                </span>
+              ))}
+            </div>
+          )}
+          {diagnostics?.text && (
+            <blockquote className="mt-2 pl-3 border-l-2 border-red-500/40 text-xs text-red-100/80 italic whitespace-pre-line">
+              {diagnostics.text}
+            </blockquote>
+          )}
+        </div>
+        <button onClick={onDismiss} title="Dismiss" aria-label="Dismiss" className="p-1 rounded-md text-red-300 hover:text-white hover:bg-red-500/20 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="pl-8 space-y-2 text-xs">
+        <p className="font-semibold text-red-200 uppercase tracking-wider">Next steps</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {canCropToFace && (
+            <button
+              onClick={() => onRetry(true)}
+              disabled={isProcessing}
+              title="Send only the face; backgrounds, bystanders and clothing often trip the filters"
+              className="px-3 py-1.5 font-medium rounded-lg border border-red-500/30 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+            >
+              Retry Cropped to the Face
+            </button>
+          )}
+          <button
+            onClick={onManual}
+            title="Only small crops around the marked spots are sent, or nothing at all with Heal Offline"
+            className="px-3 py-1.5 font-medium rounded-lg border border-red-500/30 hover:bg-red-500/10 transition-colors"
+          >
+            Mark Spots Instead
+          </button>
+          {otherPresets.length > 0 && (
+            <label className="flex items-center gap-2 text-red-200/80">
+              Switch preset
+              <select
+                value=""
+                aria-label="Switch preset"
+                onChange={(e) => presets.select(e.target.value)}
+                className="bg-slate-900 border border-red-500/30 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:border-red-400"
+              >
+                <option value="" disabled>{presets.active.name}</option>
+                {otherPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={() => onRetry(false)}
+            disabled={isProcessing}
+            className="px-3 py-1.5 font-medium rounded-lg border border-red-500/30 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
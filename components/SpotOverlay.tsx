@@ -0,0 +1,272 @@
+import React, { useRef } from 'react';
+import { PixelPoint, Spot, SpotShape } from '../types';
+import { angleFrom, moveShape, resizeEllipse, rotateShape, scaleShape, shapeBounds, shapeCenter, shapeHandles, ShapeHandle } from '../utils/spotShape';
+import { BLEMISH_COLORS } from './BlemishSuggestions';
+
+interface SpotOverlayProps {
+  spots: Spot[];
+  /** Spots that currently go into the mask; the others are drawn dimmed. */
+  maskSpots: Spot[];
+  selectedSpotId: string | null;
+  imageWidth: number;
+  imageHeight: number;
+  /** Image pixels per on-screen pixel, so handles keep their size at any zoom. */
+  pixelsPerScreenPixel: number;
+  /** The lasso being traced, before it becomes a spot. */
+  draftLasso: PixelPoint[] | null;
+  onSelect: (id: string | null) => void;
+  /** Called on every pointer move of a drag; one drag shares one `mergeKey`. */
+  onTransform: (id: string, shape: SpotShape, label: string, mergeKey: string) => void;
+  onRemove: (id: string) => void;
+}
+
+type DragMode = 'move' | ShapeHandle['id'];
+
+interface Drag {
+  spotId: string;
+  mode: DragMode;
+  start: PixelPoint;
+  shape: SpotShape;
+  key: string;
+  moved: boolean;
+  // Focusing a spot selects it, so the click's toggle has to know the state before that
+  wasSelected: boolean;
+}
+
+const HANDLE_RADIUS = 5; // Screen pixels
+const ROTATE_OFFSET = 24; // Screen pixels beyond the outline
+const REMOVE_OFFSET = 14; // Screen pixels beyond the bounds
+// Pointer travel (screen pixels) that turns a click into a drag
+const DRAG_THRESHOLD = 3;
+
+const LABELS: Record<DragMode, string> = {
+  move: 'Move spot',
+  rx: 'Resize spot',
+  ry: 'Resize spot',
+  scale: 'Resize spot',
+  rotate: 'Rotate spot',
+};
+
+const CURSORS: Record<DragMode, string> = {
+  move: 'move',
+  rx: 'ew-resize',
+  ry: 'ns-resize',
+  scale: 'nwse-resize',
+  rotate: 'grab',
+};
+
+const applyDrag = (drag: Drag, point: PixelPoint): SpotShape => {
+  const { shape, start } = drag;
+  const center = shapeCenter(shape);
+  switch (drag.mode) {
+    case 'move':
+      return moveShape(shape, point.x - start.x, point.y - start.y);
+    case 'rx':
+    case 'ry':
+      return shape.kind === 'ellipse' ? resizeEllipse(shape, drag.mode, point) : shape;
+    case 'scale': {
+      const from = Math.hypot(start.x - center.x, start.y - center.y);
+      return from > 0 ? scaleShape(shape, Math.hypot(point.x - center.x, point.y - center.y) / from) : shape;
+    }
+    case 'rotate':
+      return rotateShape(shape, angleFrom(center, point) - angleFrom(center, start));
+  }
+};
+
+const ShapeOutline: React.FC<{ shape: SpotShape } & React.SVGProps<SVGEllipseElement & SVGPolygonElement>> = ({ shape, ...props }) => (
+  shape.kind === 'ellipse'
+    ? <ellipse cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} transform={`rotate(${shape.rotation} ${shape.cx} ${shape.cy})`} {...props} />
+    : <polygon points={shape.points.map(p => `${p.x},${p.y}`).join(' ')} {...props} />
+);
+
+/**
+ * Draws the spots over the image in its own pixel coordinates, with handles on the
+ * selected one to move, resize and rotate it. Everything it changes goes through
+ * `onTransform`, so the mask, the preview and the export follow the same geometry.
+ */
+export const SpotOverlay: React.FC<SpotOverlayProps> = ({
+  spots,
+  maskSpots,
+  selectedSpotId,
+  imageWidth,
+  imageHeight,
+  pixelsPerScreenPixel,
+  draftLasso,
+  onSelect,
+  onTransform,
+  onRemove
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const unit = pixelsPerScreenPixel;
+
+  const toImagePoint = (e: React.PointerEvent): PixelPoint | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * imageWidth,
+      y: ((e.clientY - rect.top) / rect.height) * imageHeight
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, spot: Spot, mode: DragMode) => {
+    if (e.button !== 0) return;
+    const start = toImagePoint(e);
+    if (!start) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      spotId: spot.id,
+      mode,
+      start,
+      shape: spot.shape,
+      key: `${mode}-${spot.id}-${Date.now()}`,
+      moved: false,
+      wasSelected: spot.id === selectedSpotId
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const point = drag && toImagePoint(e);
+    if (!drag || !point) return;
+    if (!drag.moved && Math.hypot(point.x - drag.start.x, point.y - drag.start.y) < DRAG_THRESHOLD * unit) return;
+    drag.moved = true;
+    onTransform(drag.spotId, applyDrag(drag, point), LABELS[drag.mode], drag.key);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    // A click without a drag toggles the selection
+    if (drag && !drag.moved && drag.mode === 'move') onSelect(drag.wasSelected ? null : drag.spotId);
+  };
+
+  const dragProps = (spot: Spot, mode: DragMode) => ({
+    className: 'spot-control focus:outline-none',
+    style: { cursor: CURSORS[mode], pointerEvents: 'all' as const },
+    onPointerDown: (e: React.PointerEvent) => startDrag(e, spot, mode),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onClick: (e: React.MouseEvent) => e.stopPropagation()
+  });
+
+  const selected = spots.find(spot => spot.id === selectedSpotId);
+
+  const describe = (spot: Spot, index: number) => {
+    const kind = spot.shape.kind === 'lasso' ? 'lasso outline' : 'ellipse';
+    const detection = spot.detection
+      ? `, ${spot.detection.type} ${Math.round(spot.detection.confidence * 100)}%, ${spot.detection.accepted ? 'accepted' : 'pending'}`
+      : '';
+    const excluded = maskSpots.includes(spot) ? '' : ', filtered out';
+    return `Spot ${index + 1} of ${spots.length}, ${kind}${detection}${excluded}`;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+      role="group"
+      aria-label={`${spots.length} spots`}
+    >
+      {spots.map((spot, index) => {
+        const color = spot.detection ? BLEMISH_COLORS[spot.detection.type] : 'rgba(255,255,255,0.6)';
+        const pending = spot.detection && !spot.detection.accepted;
+        const title = spot.detection
+          ? `${spot.detection.type} · ${Math.round(spot.detection.confidence * 100)}%${spot.detection.accepted ? '' : ' · pending'}`
+          : 'Click to select, drag to move';
+        return (
+          <ShapeOutline
+            key={spot.id}
+            shape={spot.shape}
+            fill={spot.detection ? 'transparent' : 'rgba(255,255,255,0.1)'}
+            stroke={color}
+            strokeWidth={spot.id === selectedSpotId ? 2.5 : 1.5}
+            strokeDasharray={pending ? '4 3' : undefined}
+            vectorEffect="non-scaling-stroke"
+            opacity={maskSpots.includes(spot) ? 1 : 0.35}
+            {...dragProps(spot, 'move')}
+            // Reachable with Tab; the canvas handles the keys for the selected spot
+            tabIndex={0}
+            role="button"
+            aria-label={describe(spot, index)}
+            aria-pressed={spot.id === selectedSpotId}
+            onFocus={() => onSelect(spot.id)}
+          >
+            <title>{title}</title>
+          </ShapeOutline>
+        );
+      })}
+
+      {selected && (() => {
+        const handles = shapeHandles(selected.shape, ROTATE_OFFSET * unit);
+        const rotate = handles.find(handle => handle.id === 'rotate')!;
+        const { maxX, minY } = shapeBounds(selected.shape);
+        const remove = { x: maxX + REMOVE_OFFSET * unit, y: minY - REMOVE_OFFSET * unit };
+        const cross = HANDLE_RADIUS * 0.5 * unit;
+        return (
+          <g aria-hidden="true">
+            <line
+              x1={shapeCenter(selected.shape).x}
+              y1={shapeCenter(selected.shape).y}
+              x2={rotate.point.x}
+              y2={rotate.point.y}
+              stroke="white"
+              strokeOpacity={0.6}
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+            {handles.map(handle => (
+              <circle
+                key={handle.id}
+                cx={handle.point.x}
+                cy={handle.point.y}
+                r={HANDLE_RADIUS * unit}
+                fill={handle.id === 'rotate' ? '#0ea5e9' : 'white'}
+                stroke="rgba(0,0,0,0.5)"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+                {...dragProps(selected, handle.id)}
+              >
+                <title>{handle.id === 'rotate' ? 'Drag to rotate' : 'Drag to resize'}</title>
+              </circle>
+            ))}
+            <g
+              className="spot-control"
+              style={{ cursor: 'pointer', pointerEvents: 'all' }}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(selected.id);
+              }}
+            >
+              <title>Remove spot</title>
+              <circle cx={remove.x} cy={remove.y} r={HANDLE_RADIUS * 1.2 * unit} fill="#ef4444" />
+              <path
+                d={`M${remove.x - cross},${remove.y - cross}L${remove.x + cross},${remove.y + cross}M${remove.x + cross},${remove.y - cross}L${remove.x - cross},${remove.y + cross}`}
+                stroke="white"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            </g>
+          </g>
+        );
+      })()}
+
+      {draftLasso && draftLasso.length > 1 && (
+        <polyline
+          points={draftLasso.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="rgba(244,63,94,0.15)"
+          stroke="white"
+          strokeWidth={1.5}
+          strokeDasharray="4 3"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
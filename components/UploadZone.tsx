@@ -1,12 +1,13 @@
 import React, { useCallback, useState } from 'react';
 import { UploadCloud, Image as ImageIcon } from 'lucide-react';
+import { ACCEPTED_IMAGE_FILES, isImageFile, SUPPORTED_FORMATS_LABEL } from '../utils/ingest';
 
 interface UploadZoneProps {
-  onImageSelected: (file: File) => void;
+  onImagesSelected: (files: File[]) => void;
   isProcessing: boolean;
 }
 
-export const UploadZone: React.FC<UploadZoneProps> = ({ onImageSelected, isProcessing }) => {
+export const UploadZone: React.FC<UploadZoneProps> = ({ onImagesSelected, isProcessing }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -23,18 +24,18 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onImageSelected, isProce
     e.preventDefault();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/')) {
-        onImageSelected(file);
+      const files = Array.from(e.dataTransfer.files).filter(isImageFile);
+      if (files.length > 0) {
+        onImagesSelected(files);
       }
     }
-  }, [onImageSelected]);
+  }, [onImagesSelected]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onImageSelected(e.target.files[0]);
+      onImagesSelected(Array.from(e.target.files));
     }
-  }, [onImageSelected]);
+  }, [onImagesSelected]);
 
   return (
     <div 
@@ -51,7 +52,8 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onImageSelected, isProce
     >
       <input
         type="file"
-        accept="image/png, image/jpeg, image/jpg"
+        multiple
+        accept={ACCEPTED_IMAGE_FILES}
         onChange={handleFileInput}
         disabled={isProcessing}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed z-10"
@@ -64,10 +66,10 @@ export const UploadZone: React.FC<UploadZoneProps> = ({ onImageSelected, isProce
         
         <div className="space-y-1">
           <h3 className="text-lg font-medium text-slate-200">
-            Click or drag image here
+            Click or drag images here
           </h3>
           <p className="text-sm text-slate-400">
-            Supports JPG, PNG (Max 50MB)
+            Supports {SUPPORTED_FORMATS_LABEL} (Max 50MB) · Drop several for a batch
           </p>
         </div>
         
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Layers, Plus, Check, AlertTriangle } from 'lucide-react';
+import { RetouchVariant } from '../types';
+
+interface VariantStripProps {
+  variants: RetouchVariant[];
+  activeVariantId: string | null;
+  isProcessing: boolean;
+  onSelect: (id: string) => void;
+  onBlend: (ids: string[]) => void;
+  onGenerateMore: () => void;
+}
+
+/** Thumbnail strip of retouch variants: pick the active one, or tick several to blend them. */
+export const VariantStrip: React.FC<VariantStripProps> = ({
+  variants,
+  activeVariantId,
+  isProcessing,
+  onSelect,
+  onBlend,
+  onGenerateMore
+}) => {
+  const [checked, setChecked] = useState<string[]>([]);
+
+  const toggle = (id: string) => {
+    setChecked(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  return (
+    <div role="toolbar" aria-label="Variants" className="flex items-center gap-3 bg-slate-900/50 p-3 rounded-xl border border-slate-800 overflow-x-auto">
+      <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1.5 shrink-0">
+        <Layers className="w-4 h-4" /> Variants
+      </span>
+
+      {variants.map(variant => (
+        <div key={variant.id} className="relative shrink-0">
+          <button
+            onClick={() => onSelect(variant.id)}
+            title={variant.label}
+            aria-label={`Show ${variant.label}`}
+            aria-pressed={variant.id === activeVariantId}
+            className={`block w-16 h-16 rounded-lg overflow-hidden border-2 transition-colors ${
+              variant.id === activeVariantId ? 'border-brand-500' : 'border-slate-700 hover:border-slate-500'
+            }`}
+          >
+            <img src={variant.image} alt="" className="w-full h-full object-cover" />
+          </button>
+          <button
+            onClick={() => toggle(variant.id)}
+            title="Select for blending"
+            aria-label={`Select ${variant.label} for blending`}
+            aria-pressed={checked.includes(variant.id)}
+            className={`absolute top-1 right-1 w-4 h-4 rounded flex items-center justify-center border transition-colors ${
+              checked.includes(variant.id) ? 'bg-brand-600 border-brand-500 text-white' : 'bg-black/50 border-white/40 text-transparent'
+            }`}
+          >
+            <Check className="w-3 h-3" />
+          </button>
+          <span aria-hidden="true" className="absolute bottom-1 left-1 px-1 rounded bg-black/60 text-[10px] text-white">{variant.label}</span>
+          {variant.quality && variant.quality.issues.length > 0 && (
+            <span
+              title={variant.quality.issues.map(issue => issue.message).join('\n')}
+              role="img"
+              aria-label={`Quality warning: ${variant.quality.issues.map(issue => issue.message).join(' ')}`}
+              className="absolute top-1 left-1 w-4 h-4 rounded bg-amber-500/90 flex items-center justify-center text-slate-950"
+            >
+              <AlertTriangle className="w-3 h-3" />
+            </span>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={onGenerateMore}
+        disabled={isProcessing}
+        title="Generate another variant"
+        aria-label="Generate another variant"
+        className="shrink-0 w-16 h-16 rounded-lg border-2 border-dashed border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 disabled:opacity-40 flex items-center justify-center transition-colors"
+      >
+        <Plus className="w-5 h-5" />
+      </button>
+
+      {checked.length >= 2 && (
+        <button
+          onClick={() => { onBlend(checked); setChecked([]); }}
+          className="shrink-0 px-3 py-2 text-xs font-medium rounded-lg bg-brand-600 hover:bg-brand-500 text-white transition-colors"
+        >
+          Blend {checked.length}
+        </button>
+      )}
+    </div>
+  );
+};
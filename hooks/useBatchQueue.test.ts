@@ -0,0 +1,199 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRESET } from '../services/prompts';
+import { RetouchError } from '../services/providers/errors';
+import { PipelineResult, retouchImage } from '../services/retouchPipeline';
+import { toObjectUrl } from '../utils/imageHelpers';
+import { computeSkinMask, SkinMask } from '../utils/skinMask';
+import { useBatchQueue } from './useBatchQueue';
+
+vi.mock('../services/retouchPipeline', () => ({ retouchImage: vi.fn() }));
+vi.mock('../utils/skinMask', () => ({ computeSkinMask: vi.fn(async () => null) }));
+vi.mock('../utils/imageWorkerClient', async () => {
+  const { ImageIngestError } = await import('../utils/ingest');
+  return {
+    runImageTask: vi.fn(async (_task: 'ingest', { file, name }: { file: File; name: string }) => {
+      if (name.endsWith('.heic')) throw new ImageIngestError("This browser can't decode HEIC photos.");
+      return { working: file, width: 4, height: 3, source: { blob: file, format: 'jpeg', width: 4, height: 3 } };
+    }),
+  };
+});
+
+const retouch = vi.mocked(retouchImage);
+
+/** A retouch call that finishes when the test says so. */
+const pendingRun = () => {
+  let finish: (result: Partial<PipelineResult>) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  retouch.mockImplementationOnce(() => new Promise<PipelineResult>((resolve, reject) => {
+    finish = result => resolve({ image: null, notice: null, error: null, quality: [], ...result } as PipelineResult);
+    fail = reject;
+  }));
+  return { finish: (result: Partial<PipelineResult>) => finish(result), fail: (error: Error) => fail(error) };
+};
+
+const files = (...names: string[]) => names.map(name => new File(['pixels'], name, { type: 'image/jpeg' }));
+
+const setup = async (names: string[], concurrency = 1) => {
+  const hook = renderHook(() => useBatchQueue({ providerId: 'mock', preset: DEFAULT_PRESET, concurrency }));
+  await act(() => hook.result.current.addFiles(files(...names)));
+  return hook;
+};
+
+const statuses = (items: { status: string }[]) => items.map(item => item.status);
+
+let nextUrl = 0;
+
+beforeEach(() => {
+  retouch.mockReset();
+  vi.restoreAllMocks();
+  // jsdom has no object URLs
+  URL.createObjectURL = vi.fn(() => `blob:test/${nextUrl++}`);
+  URL.revokeObjectURL = vi.fn();
+});
+
+describe('useBatchQueue', () => {
+  it('adds files as pending items', async () => {
+    const { result } = await setup(['a.jpg', 'b.jpg']);
+    expect(result.current.items.map(item => item.name)).toEqual(['a.jpg', 'b.jpg']);
+    expect(statuses(result.current.items)).toEqual(['pending', 'pending']);
+    expect(result.current.items[0].original).toMatch(/^blob:/);
+    expect(result.current.items[0].source.width).toBe(4);
+  });
+
+  it('skips files that can\'t be read and reports why', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { result } = renderHook(() => useBatchQueue({ providerId: 'mock', preset: DEFAULT_PRESET, concurrency: 1 }));
+    let failed: { name: string; error: string }[] = [];
+    await act(async () => {
+      failed = await result.current.addFiles(files('a.jpg', 'b.heic'));
+    });
+    expect(result.current.items.map(item => item.name)).toEqual(['a.jpg']);
+    expect(failed).toEqual([{ name: 'b.heic', error: "This browser can't decode HEIC photos." }]);
+  });
+
+  it('runs at most `concurrency` items at a time and stops when all are done', async () => {
+    const first = pendingRun();
+    const second = pendingRun();
+    const { result } = await setup(['a.jpg', 'b.jpg']);
+
+    act(() => result.current.start());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing', 'pending']));
+    expect(retouch).toHaveBeenCalledWith(result.current.items[0].original, expect.objectContaining({ providerId: 'mock', preset: DEFAULT_PRESET }));
+
+    await act(async () => first.finish({ image: 'data:image/png;base64,YQ==' }));
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['done', 'processing']));
+    expect(result.current.items[0].processed).toBe('data:image/png;base64,YQ==');
+
+    await act(async () => second.finish({ image: 'data:image/png;base64,Yg==' }));
+    await waitFor(() => expect(result.current.isRunning).toBe(false));
+    expect(statuses(result.current.items)).toEqual(['done', 'done']);
+  });
+
+  it('marks failed items and re-queues them on retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const run = pendingRun();
+    const { result } = await setup(['a.jpg']);
+
+    act(() => result.current.start());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing']));
+    await act(async () => run.fail(new Error('Engine unavailable')));
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['failed']));
+    expect(result.current.items[0].error).toBe('Engine unavailable');
+
+    const retried = pendingRun();
+    act(() => result.current.retryFailed());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing']));
+    await act(async () => retried.finish({ image: 'data:image/png;base64,YQ==' }));
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['done']));
+  });
+
+  it('releases the skin mask of a failed item', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const mask = toObjectUrl(new Blob(['mask'], { type: 'image/png' }));
+    vi.mocked(computeSkinMask).mockResolvedValueOnce({ image: mask } as SkinMask);
+    const run = pendingRun();
+    const { result } = await setup(['a.jpg']);
+
+    act(() => result.current.start());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing']));
+    await act(async () => run.fail(new Error('Engine unavailable')));
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['failed']));
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(mask);
+  });
+
+  it('cancels running items back to pending and stops the queue', async () => {
+    retouch.mockImplementationOnce((_image, { signal }) => new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(new RetouchError('cancelled')));
+    }));
+    const { result } = await setup(['a.jpg', 'b.jpg']);
+
+    act(() => result.current.start());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing', 'pending']));
+    act(() => result.current.cancel());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['pending', 'pending']));
+    expect(result.current.isRunning).toBe(false);
+    expect(retouch).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds quality warnings to the item notice', async () => {
+    const run = pendingRun();
+    const { result } = await setup(['a.jpg']);
+
+    act(() => result.current.start());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing']));
+    await act(async () => run.finish({
+      image: 'data:image/png;base64,YQ==',
+      notice: 'The result was realigned.',
+      quality: [{ issues: [{ kind: 'background', message: 'The background changed.' }], overlay: null }],
+    }));
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['done']));
+    expect(result.current.items[0].notice).toBe('The result was realigned. The background changed.');
+  });
+
+  it('keeps items that are processing when removing or clearing', async () => {
+    pendingRun();
+    const { result } = await setup(['a.jpg', 'b.jpg']);
+
+    act(() => result.current.start());
+    await waitFor(() => expect(statuses(result.current.items)).toEqual(['processing', 'pending']));
+
+    act(() => result.current.removeItem(result.current.items[0].id));
+    expect(result.current.items).toHaveLength(2);
+    act(() => result.current.clear());
+    expect(result.current.items.map(item => item.name)).toEqual(['a.jpg']);
+  });
+
+  it('releases the object URLs of removed items', async () => {
+    const { result } = await setup(['a.jpg', 'b.jpg']);
+    const [a, b] = result.current.items;
+
+    act(() => result.current.removeItem(a.id));
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(a.original);
+    act(() => result.current.clear());
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(b.original);
+  });
+
+  it('releases the variants made for an item in the editor', async () => {
+    const { result } = await setup(['a.jpg']);
+    const [healed, blended] = [toObjectUrl(new Blob()), toObjectUrl(new Blob())];
+    act(() => result.current.updateItem(result.current.items[0].id, {
+      processed: blended,
+      variants: [{ id: 'variant-0', image: healed, label: 'Healed 1' }, { id: 'variant-1', image: blended, label: 'Blend 2' }],
+    }));
+
+    act(() => result.current.removeItem(result.current.items[0].id));
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(healed);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(blended);
+  });
+
+  it('releases every item when unmounted', async () => {
+    const { result, unmount } = await setup(['a.jpg', 'b.jpg']);
+    const [a, b] = result.current.items;
+
+    unmount();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(a.original);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(b.original);
+  });
+});
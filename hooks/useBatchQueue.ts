@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatchItem } from '../types';
+import { PromptOptions } from '../services/prompts';
+import { isCancelled } from '../services/providers/errors';
+import { retouchImage } from '../services/retouchPipeline';
+import { RetouchProviderId } from '../services/providers/types';
+import { revokeObjectUrl, toObjectUrl } from '../utils/imageHelpers';
+import { ImageIngestError } from '../utils/ingest';
+import { runImageTask } from '../utils/imageWorkerClient';
+import { computeSkinMask } from '../utils/skinMask';
+
+interface BatchQueueOptions {
+  providerId: RetouchProviderId;
+  /** Options of the preset shared by every item. */
+  preset: PromptOptions;
+  concurrency: number;
+}
+
+let nextItemId = 0;
+
+const releaseItem = (item: BatchItem) => {
+  [item.original, item.processed, item.skinMask?.image, ...item.variants.flatMap(v => [v.image, v.quality?.overlay])]
+    .forEach(url => url && revokeObjectUrl(url));
+};
+
+/**
+ * Queue of images retouched with the same provider, at most `concurrency` at a time.
+ * Items move pending -> processing -> done | failed; failed items can be re-queued,
+ * and cancelled ones go back to pending.
+ */
+export const useBatchQueue = ({ providerId, preset, concurrency }: BatchQueueOptions) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  // Guards against starting the same item twice between a state update and its render
+  const started = useRef(new Set<string>());
+  // One per running item, so cancelling stops their outstanding requests
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // The queue owns every URL its items hold
+  useEffect(() => () => {
+    controllers.current.forEach(controller => controller.abort());
+    itemsRef.current.forEach(releaseItem);
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  /** Adds the files that can be read; resolves to the ones that couldn't, with the reason. */
+  const addFiles = useCallback(async (files: File[]): Promise<{ name: string; error: string }[]> => {
+    // One at a time: decoding several full-size photos at once can run out of memory, even in the worker
+    const added: BatchItem[] = [];
+    const failed: { name: string; error: string }[] = [];
+    for (const file of files) {
+      try {
+        const { working, source } = await runImageTask('ingest', { file, name: file.name });
+        added.push({
+          id: `batch-${nextItemId++}`,
+          name: file.name,
+          original: toObjectUrl(working),
+          source,
+          processed: null,
+          variants: [],
+          skinMask: null,
+          status: 'pending',
+          progress: 0,
+          error: null,
+          notice: null,
+        });
+      } catch (err) {
+        console.error(`Failed to read ${file.name}:`, err);
+        failed.push({ name: file.name, error: err instanceof ImageIngestError ? err.message : "Failed to decode image." });
+      }
+    }
+    setItems(current => [...current, ...added]);
+    return failed;
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    let skinMask: BatchItem['skinMask'] = null;
+    let kept = false;
+    try {
+      skinMask = await computeSkinMask(item.original).catch(() => null);
+      const result = await retouchImage(item.original, {
+        providerId,
+        preset,
+        skinMask,
+        onProgress: ({ done, total }) => updateItem(item.id, { progress: total ? done / total : 0 }),
+        signal: controller.signal,
+      });
+      if (result.error || !result.image) {
+        updateItem(item.id, { status: 'failed', error: result.error || "Failed to process image." });
+        return;
+      }
+      const issues = result.quality[0]?.issues ?? [];
+      const notice = [result.notice, ...issues.map(issue => issue.message)].filter(Boolean).join(' ') || null;
+      updateItem(item.id, { status: 'done', processed: result.image, skinMask, notice, progress: 1 });
+      kept = true;
+    } catch (err) {
+      if (isCancelled(err)) {
+        updateItem(item.id, { status: 'pending', progress: 0 });
+        return;
+      }
+      console.error(`Batch item ${item.name} failed:`, err);
+      updateItem(item.id, { status: 'failed', error: (err as Error).message || "Failed to process image." });
+    } finally {
+      // Only a finished item holds on to its mask; a retry computes a new one
+      if (!kept && skinMask) revokeObjectUrl(skinMask.image);
+      controllers.current.delete(item.id);
+      started.current.delete(item.id);
+    }
+  }, [providerId, preset, updateItem]);
+
+  // Scheduler: whenever a slot frees up, start the next pending items
+  useEffect(() => {
+    if (!isRunning) return;
+    const active = items.filter(item => item.status === 'processing').length;
+    const next = items
+      .filter(item => item.status === 'pending' && !started.current.has(item.id))
+      .slice(0, Math.max(0, concurrency - active));
+
+    if (next.length === 0 && active === 0) {
+      setIsRunning(false);
+      return;
+    }
+    next.forEach(item => {
+      started.current.add(item.id);
+      updateItem(item.id, { status: 'processing', progress: 0, error: null });
+      runItem(item);
+    });
+  }, [items, isRunning, concurrency, runItem, updateItem]);
+
+  const start = useCallback(() => setIsRunning(true), []);
+  const pause = useCallback(() => setIsRunning(false), []);
+
+  /** Stops the queue and aborts the items being processed, which go back to pending. */
+  const cancel = useCallback(() => {
+    setIsRunning(false);
+    controllers.current.forEach(controller => controller.abort());
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'pending', error: null, progress: 0 });
+    setIsRunning(true);
+  }, [updateItem]);
+
+  const retryFailed = useCallback(() => {
+    setItems(current => current.map(item => (
+      item.status === 'failed' ? { ...item, status: 'pending', error: null, progress: 0 } : item
+    )));
+    setIsRunning(true);
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    itemsRef.current.filter(item => item.id === id && item.status !== 'processing').forEach(releaseItem);
+    setItems(current => current.filter(item => item.id !== id || item.status === 'processing'));
+  }, []);
+
+  const clear = useCallback(() => {
+    setIsRunning(false);
+    itemsRef.current.filter(item => item.status !== 'processing').forEach(releaseItem);
+    setItems(current => current.filter(item => item.status === 'processing'));
+  }, []);
+
+  return { items, isRunning, addFiles, start, pause, cancel, retry, retryFailed, removeItem, clear, updateItem };
+};
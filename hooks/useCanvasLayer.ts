@@ -0,0 +1,55 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+export interface RenderSize {
+  width: number;
+  height: number;
+}
+
+// Layers without a natural size (solid fills) are bounded by this multiple of the display size
+const MAX_UNBOUNDED_RESOLUTION = 4;
+
+/** Loads `src` into an image element; null until it has decoded. */
+export const useLoadedImage = (src?: string) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  useEffect(() => {
+    if (!src) return;
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = src;
+    return () => { img.onload = null; };
+  }, [src]);
+  return image;
+};
+
+/**
+ * Pixel size to rasterise a preview canvas at: its on-screen size times the device
+ * pixel ratio and `resolution` (e.g. while zoomed), but never beyond `naturalWidth`.
+ */
+export const useRenderSize = (
+  canvasRef: React.RefObject<HTMLCanvasElement | null>,
+  resolution = 1,
+  naturalWidth?: number
+): RenderSize | null => {
+  const [displaySize, setDisplaySize] = useState<RenderSize | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => {
+      const ratio = window.devicePixelRatio || 1;
+      setDisplaySize({
+        width: Math.max(1, Math.round(canvas.clientWidth * ratio)),
+        height: Math.max(1, Math.round(canvas.clientHeight * ratio)),
+      });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [canvasRef]);
+
+  return useMemo(() => {
+    if (!displaySize) return null;
+    const limit = naturalWidth ? naturalWidth / displaySize.width : MAX_UNBOUNDED_RESOLUTION;
+    const factor = Math.max(1, Math.min(resolution, limit));
+    return { width: Math.round(displaySize.width * factor), height: Math.round(displaySize.height * factor) };
+  }, [displaySize, resolution, naturalWidth]);
+};
@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useDialogFocus } from './useDialogFocus';
+
+const opener = document.createElement('button');
+const dialog = document.createElement('div');
+dialog.innerHTML = '<button id="first">Cancel</button><input id="middle"><button id="disabled" disabled>Skip</button><button id="last">Save</button>';
+const dialogRef = { current: dialog };
+
+const byId = (id: string) => dialog.querySelector<HTMLElement>(`#${id}`)!;
+const press = (key: string, shiftKey = false) => {
+  const event = new KeyboardEvent('keydown', { key, shiftKey, bubbles: true, cancelable: true });
+  document.activeElement!.dispatchEvent(event);
+  return event;
+};
+
+const open = (onClose = vi.fn()) => {
+  document.body.append(opener, dialog);
+  opener.focus();
+  return { ...renderHook(() => useDialogFocus(dialogRef, onClose)), onClose };
+};
+
+afterEach(() => {
+  opener.remove();
+  dialog.remove();
+});
+
+describe('useDialogFocus', () => {
+  it('focuses the first control and closes on Escape', () => {
+    const { onClose } = open();
+    expect(document.activeElement).toBe(byId('first'));
+    expect(press('Escape').defaultPrevented).toBe(true);
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it('keeps Tab inside the dialog, skipping disabled controls', () => {
+    open();
+    byId('last').focus();
+    expect(press('Tab').defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(byId('first'));
+
+    expect(press('Tab', true).defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(byId('last'));
+
+    // Between the ends the browser moves focus as usual
+    byId('middle').focus();
+    expect(press('Tab').defaultPrevented).toBe(false);
+  });
+
+  it('hands focus back to the opener when closed', () => {
+    const { unmount } = open();
+    unmount();
+    expect(document.activeElement).toBe(opener);
+  });
+});
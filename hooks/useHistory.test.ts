@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { useHistory } from './useHistory';
+
+const setup = () => renderHook(() => useHistory({ value: 0 }));
+
+describe('useHistory', () => {
+  it('starts with the initial entry', () => {
+    const { result } = setup();
+    expect(result.current.state).toEqual({ value: 0 });
+    expect(result.current.entries.map(entry => entry.label)).toEqual(['Open image']);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('records commits and steps through them with undo and redo', () => {
+    const { result } = setup();
+    act(() => result.current.commit('One', () => ({ value: 1 })));
+    act(() => result.current.commit('Two', () => ({ value: 2 })));
+    expect(result.current.index).toBe(2);
+
+    act(() => result.current.undo());
+    expect(result.current.state).toEqual({ value: 1 });
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.state).toEqual({ value: 2 });
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('ignores commits that return the same state', () => {
+    const { result } = setup();
+    act(() => result.current.commit('Nothing', state => state));
+    expect(result.current.entries).toHaveLength(1);
+  });
+
+  it('drops the redo branch when committing after an undo', () => {
+    const { result } = setup();
+    act(() => result.current.commit('One', () => ({ value: 1 })));
+    act(() => result.current.commit('Two', () => ({ value: 2 })));
+    act(() => result.current.undo());
+    act(() => result.current.commit('Three', () => ({ value: 3 })));
+
+    expect(result.current.entries.map(entry => entry.label)).toEqual(['Open image', 'One', 'Three']);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('merges consecutive commits with the same key', () => {
+    const { result } = setup();
+    act(() => result.current.commit('Blend', () => ({ value: 10 }), 'blend'));
+    act(() => result.current.commit('Blend', () => ({ value: 20 }), 'blend'));
+    act(() => result.current.commit('Blend', () => ({ value: 30 }), 'blend'));
+
+    expect(result.current.entries).toHaveLength(2);
+    expect(result.current.state).toEqual({ value: 30 });
+
+    act(() => result.current.undo());
+    expect(result.current.state).toEqual({ value: 0 });
+  });
+
+  it('starts a new entry when the key changes or after an undo', () => {
+    const { result } = setup();
+    act(() => result.current.commit('Blend', () => ({ value: 10 }), 'blend'));
+    act(() => result.current.commit('Grain', () => ({ value: 11 }), 'grain'));
+    act(() => result.current.commit('Blend', () => ({ value: 12 }), 'blend'));
+    expect(result.current.entries.map(entry => entry.label)).toEqual(['Open image', 'Blend', 'Grain', 'Blend']);
+
+    act(() => result.current.undo());
+    act(() => result.current.commit('Grain', () => ({ value: 13 }), 'grain'));
+    expect(result.current.entries.map(entry => entry.state.value)).toEqual([0, 10, 11, 13]);
+  });
+
+  it('jumps to an entry and ignores indexes out of range', () => {
+    const { result } = setup();
+    act(() => result.current.commit('One', () => ({ value: 1 })));
+    act(() => result.current.jumpTo(0));
+    expect(result.current.state).toEqual({ value: 0 });
+
+    act(() => result.current.jumpTo(5));
+    expect(result.current.index).toBe(0);
+  });
+
+  it('keeps at most 100 entries', () => {
+    const { result } = setup();
+    act(() => {
+      for (let i = 1; i <= 120; i++) result.current.commit(`Step ${i}`, () => ({ value: i }));
+    });
+    expect(result.current.entries).toHaveLength(100);
+    expect(result.current.entries[0].label).toBe('Step 21');
+    expect(result.current.state).toEqual({ value: 120 });
+  });
+});
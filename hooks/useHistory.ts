@@ -0,0 +1,73 @@
+import { useCallback, useState } from 'react';
+
+const MAX_ENTRIES = 100;
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  state: T;
+  /** Consecutive commits sharing a key (e.g. slider drags) collapse into one entry. */
+  mergeKey?: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+let nextEntryId = 0;
+
+/**
+ * Linear undo/redo history of immutable snapshots. Every commit records a labelled
+ * entry; committing after an undo discards the redo branch, like any editor.
+ */
+export const useHistory = <T,>(initialState: T, initialLabel = 'Open image') => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    entries: [{ id: nextEntryId++, label: initialLabel, state: initialState }],
+    index: 0,
+  }));
+
+  const commit = useCallback((label: string, update: (state: T) => T, mergeKey?: string) => {
+    setHistory(({ entries, index }) => {
+      const current = entries[index];
+      const state = update(current.state);
+      if (state === current.state) return { entries, index };
+
+      // Keep merging into the latest entry while the same control is being dragged
+      if (mergeKey && current.mergeKey === mergeKey && index > 0 && index === entries.length - 1) {
+        const merged = [...entries];
+        merged[index] = { ...current, state };
+        return { entries: merged, index };
+      }
+
+      const kept = entries.slice(0, index + 1);
+      kept.push({ id: nextEntryId++, label, state, mergeKey });
+      const overflow = Math.max(0, kept.length - MAX_ENTRIES);
+      return { entries: kept.slice(overflow), index: kept.length - 1 - overflow };
+    });
+  }, []);
+
+  const jumpTo = useCallback((target: number) => {
+    setHistory(h => (target >= 0 && target < h.entries.length ? { ...h, index: target } : h));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => (h.index > 0 ? { ...h, index: h.index - 1 } : h));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => (h.index < h.entries.length - 1 ? { ...h, index: h.index + 1 } : h));
+  }, []);
+
+  return {
+    state: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+  };
+};
@@ -0,0 +1,66 @@
+import { useCallback, useMemo, useState } from 'react';
+import { DEFAULT_PRESET, RetouchPreset } from '../services/prompts';
+import {
+  BUILT_IN_PRESETS,
+  exportPresetsJson,
+  importPresetsJson,
+  loadActivePresetId,
+  loadUserPresets,
+  saveActivePresetId,
+  saveUserPresets
+} from '../services/presets';
+
+/** Built-in and user presets plus the selected one, persisted to localStorage. */
+export const usePresets = () => {
+  const [userPresets, setUserPresets] = useState<RetouchPreset[]>(loadUserPresets);
+  const [activeId, setActiveId] = useState(loadActivePresetId);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+  const active = presets.find(p => p.id === activeId) ?? DEFAULT_PRESET;
+
+  const updateUserPresets = useCallback((update: (current: RetouchPreset[]) => RetouchPreset[]) => {
+    setUserPresets(current => {
+      const next = update(current);
+      saveUserPresets(next);
+      return next;
+    });
+  }, []);
+
+  const select = useCallback((id: string) => {
+    saveActivePresetId(id);
+    setActiveId(id);
+  }, []);
+
+  /** Saves a user preset (built-ins are saved as a new copy) and selects it. */
+  const save = useCallback((preset: RetouchPreset) => {
+    const saved = preset.builtIn ? { ...preset, id: `preset-${Date.now()}`, builtIn: undefined } : preset;
+    updateUserPresets(current => (
+      current.some(p => p.id === saved.id)
+        ? current.map(p => (p.id === saved.id ? saved : p))
+        : [...current, saved]
+    ));
+    select(saved.id);
+  }, [updateUserPresets, select]);
+
+  const remove = useCallback((id: string) => {
+    updateUserPresets(current => current.filter(p => p.id !== id));
+    if (id === activeId) select(DEFAULT_PRESET.id);
+  }, [updateUserPresets, activeId, select]);
+
+  /** Adds every preset in a JSON file; throws if the file has none. */
+  const importJson = useCallback((json: string) => {
+    const imported = importPresetsJson(json);
+    updateUserPresets(current => [...current, ...imported]);
+    select(imported[0].id);
+    return imported.length;
+  }, [updateUserPresets, select]);
+
+  /** The user's own presets, or just the selected one when there are none yet. */
+  const exportJson = useCallback(() => {
+    return exportPresetsJson(userPresets.length > 0 ? userPresets : [active]);
+  }, [userPresets, active]);
+
+  return { presets, active, select, save, remove, importJson, exportJson };
+};
+
+export type PresetLibrary = ReturnType<typeof usePresets>;
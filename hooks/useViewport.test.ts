@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useViewport } from './useViewport';
+
+/** A viewport of 800x600 CSS pixels around content fitted to 400x300. */
+const setup = (naturalWidth = 1600) => {
+  const viewport = document.createElement('div');
+  const content = document.createElement('div');
+  Object.defineProperties(viewport, { clientWidth: { value: 800 }, clientHeight: { value: 600 } });
+  Object.defineProperties(content, { offsetWidth: { value: 400 }, offsetHeight: { value: 300 } });
+  viewport.getBoundingClientRect = () => ({ left: 0, top: 0, width: 800, height: 600 }) as DOMRect;
+  // Stable refs, like useRef gives the Editor
+  const viewportRef = { current: viewport };
+  const contentRef = { current: content };
+  return renderHook(() => useViewport(viewportRef, contentRef, naturalWidth));
+};
+
+beforeEach(() => {
+  // jsdom has no layout, so report the sizes as soon as they are observed
+  vi.stubGlobal('ResizeObserver', class {
+    constructor(private callback: () => void) {}
+    observe() { this.callback(); }
+    disconnect() {}
+  });
+  vi.stubGlobal('devicePixelRatio', 1);
+});
+
+describe('useViewport', () => {
+  it('starts fitted with the whole image visible', () => {
+    const { result } = setup();
+    expect(result.current.scale).toBe(1);
+    expect(result.current.pixelZoom).toBe(0.25);
+    expect(result.current.maxScale).toBe(32);
+    expect(result.current.visible).toEqual({ x: -0.5, y: -0.5, width: 2, height: 2 });
+  });
+
+  it('zooms around the anchor so the point under it stays put', () => {
+    const { result } = setup();
+    act(() => result.current.zoomBy(2, { x: 500, y: 300 }));
+    expect(result.current.scale).toBe(2);
+    expect(result.current.pan).toEqual({ x: -100, y: 0 });
+    expect(result.current.transform).toBe('translate(-100px, 0px) scale(2)');
+  });
+
+  it('keeps the zoom between fitted and the pixel limit', () => {
+    const { result } = setup();
+    act(() => result.current.zoomBy(0.5));
+    expect(result.current.scale).toBe(1);
+    act(() => result.current.zoomTo(1000));
+    expect(result.current.scale).toBe(32);
+  });
+
+  it('shows one image pixel per device pixel at 100% and resets on fit', () => {
+    const { result } = setup();
+    act(() => result.current.actualPixels());
+    expect(result.current.scale).toBe(4);
+    expect(result.current.pixelZoom).toBe(1);
+
+    act(() => result.current.fit());
+    expect(result.current.scale).toBe(1);
+    expect(result.current.pan).toEqual({ x: 0, y: 0 });
+  });
+
+  it('centres on a point of the image without panning past its edges', () => {
+    const { result } = setup();
+    act(() => result.current.zoomTo(4));
+    act(() => result.current.centerOn(0.75, 0.5));
+    expect(result.current.pan.x).toBe(-400);
+    expect(result.current.pan.y).toBeCloseTo(0);
+    act(() => result.current.centerOn(0, 0));
+    expect(result.current.pan).toEqual({ x: 800, y: 600 });
+  });
+
+  it('zooms the mirrored pane around the same image point', () => {
+    const { result } = setup();
+    const mirror = document.createElement('div');
+    mirror.getBoundingClientRect = () => ({ left: 800, top: 0, width: 800, height: 600 }) as DOMRect;
+    act(() => result.current.mirrorRef(mirror));
+
+    // 100px right of the mirror's centre is 100px right of the main pane's centre
+    act(() => { mirror.dispatchEvent(new WheelEvent('wheel', { deltaY: -Math.log(2) / 0.0015, clientX: 1300, clientY: 300, cancelable: true })); });
+    expect(result.current.scale).toBeCloseTo(2);
+    expect(result.current.pan.x).toBeCloseTo(-100);
+  });
+
+  it('turns the pointer into a hand while space is held', () => {
+    const { result } = setup();
+    act(() => { document.body.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space', bubbles: true })); });
+    expect(result.current.spaceHeld).toBe(true);
+    act(() => { document.body.dispatchEvent(new KeyboardEvent('keyup', { code: 'Space', bubbles: true })); });
+    expect(result.current.spaceHeld).toBe(false);
+
+    const input = document.body.appendChild(document.createElement('input'));
+    act(() => { input.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space', bubbles: true })); });
+    expect(result.current.spaceHeld).toBe(false);
+    input.remove();
+  });
+});
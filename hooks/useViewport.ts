@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+// Highest zoom, in image pixels per device pixel
+const MAX_PIXEL_ZOOM = 8;
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+export interface ViewportLayout {
+  /** Visible viewport size in CSS pixels. */
+  viewWidth: number;
+  viewHeight: number;
+  /** Size of the image when fitted (scale 1), before the zoom transform. */
+  fitWidth: number;
+  fitHeight: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Panning stops once an image edge reaches the middle of the viewport
+const clampPan = (next: Point, scale: number, { fitWidth, fitHeight }: ViewportLayout): Point => {
+  if (scale <= 1) return { x: 0, y: 0 };
+  const maxX = (fitWidth * scale) / 2;
+  const maxY = (fitHeight * scale) / 2;
+  return { x: clamp(next.x, -maxX, maxX), y: clamp(next.y, -maxY, maxY) };
+};
+
+/**
+ * Zoom and pan state for the Editor viewport. The content is drawn at its fitted
+ * size and moved with a CSS transform (`translate(pan) scale(scale)` around its
+ * centre), so anything measuring it with getBoundingClientRect stays correct.
+ *
+ * @param naturalWidth The image's width in pixels, for the 100% view and the zoom limit.
+ */
+export const useViewport = (
+  viewportRef: React.RefObject<HTMLDivElement | null>,
+  contentRef: React.RefObject<HTMLDivElement | null>,
+  naturalWidth: number
+) => {
+  const [scale, setScale] = useState(1);
+  const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+  const [layout, setLayout] = useState<ViewportLayout>({ viewWidth: 0, viewHeight: 0, fitWidth: 0, fitHeight: 0 });
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  // Optional second pane (side-by-side compare) that mirrors the transform and accepts wheel zoom
+  const [mirror, setMirror] = useState<HTMLDivElement | null>(null);
+  // Latest values for native listeners and drag handlers
+  const state = useRef({ scale, pan, layout });
+  state.current = { scale, pan, layout };
+
+  const ratio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+  const maxScale = layout.fitWidth > 0 && naturalWidth > 0
+    ? Math.max(1, (MAX_PIXEL_ZOOM * naturalWidth) / (layout.fitWidth * ratio))
+    : 1;
+  /** Image pixels shown per device pixel, 1 = 100%. */
+  const pixelZoom = naturalWidth > 0 ? (layout.fitWidth * scale * ratio) / naturalWidth : 1;
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return;
+    const observer = new ResizeObserver(() => {
+      setLayout({
+        viewWidth: viewport.clientWidth,
+        viewHeight: viewport.clientHeight,
+        fitWidth: content.offsetWidth,
+        fitHeight: content.offsetHeight,
+      });
+    });
+    observer.observe(viewport);
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [viewportRef, contentRef]);
+
+  /** Zooms to `next`, keeping the content under `anchor` (client coordinates) in place. */
+  const zoomTo = useCallback((next: number, anchor?: Point) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const { scale: current, pan: currentPan, layout: currentLayout } = state.current;
+    const target = clamp(next, 1, maxScale);
+    const rect = viewport.getBoundingClientRect();
+    const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+    const point = anchor ?? center;
+    // Content offset (from its centre, unscaled) under the anchor stays under it
+    const qx = (point.x - center.x - currentPan.x) / current;
+    const qy = (point.y - center.y - currentPan.y) / current;
+    setScale(target);
+    setPan(clampPan({ x: point.x - center.x - qx * target, y: point.y - center.y - qy * target }, target, currentLayout));
+  }, [viewportRef, maxScale]);
+
+  const zoomBy = useCallback((factor: number, anchor?: Point) => {
+    zoomTo(state.current.scale * factor, anchor);
+  }, [zoomTo]);
+
+  const fit = useCallback(() => {
+    setScale(1);
+    setPan({ x: 0, y: 0 });
+  }, []);
+
+  /** 100%: one image pixel per device pixel. */
+  const actualPixels = useCallback((anchor?: Point) => {
+    const { layout: currentLayout } = state.current;
+    if (!currentLayout.fitWidth || !naturalWidth) return;
+    zoomTo(naturalWidth / (currentLayout.fitWidth * ratio), anchor);
+  }, [zoomTo, naturalWidth, ratio]);
+
+  /** Centres the view on a point of the image, given as fractions of its size. */
+  const centerOn = useCallback((fx: number, fy: number) => {
+    const { scale: current, layout: currentLayout } = state.current;
+    setPan(clampPan({
+      x: -(fx - 0.5) * currentLayout.fitWidth * current,
+      y: -(fy - 0.5) * currentLayout.fitHeight * current,
+    }, current, currentLayout));
+  }, []);
+
+  // Wheel and trackpad pinch (ctrl + wheel) zoom around the pointer; needs a non-passive listener
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const panes = mirror ? [viewport, mirror] : [viewport];
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const speed = e.deltaMode === 1 ? WHEEL_ZOOM_SPEED * 33 : WHEEL_ZOOM_SPEED;
+      // Map the pointer into the main pane, so the mirror zooms around the same image point
+      const pane = (e.currentTarget as HTMLElement).getBoundingClientRect();
+      const main = viewport.getBoundingClientRect();
+      zoomBy(Math.exp(-e.deltaY * speed * (e.ctrlKey ? 4 : 1)), {
+        x: e.clientX - pane.left - pane.width / 2 + main.left + main.width / 2,
+        y: e.clientY - pane.top - pane.height / 2 + main.top + main.height / 2,
+      });
+    };
+    panes.forEach(pane => pane.addEventListener('wheel', handleWheel, { passive: false }));
+    return () => panes.forEach(pane => pane.removeEventListener('wheel', handleWheel));
+  }, [viewportRef, mirror, zoomBy]);
+
+  // Two-finger pinch on touch screens
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    let pinch: { distance: number; scale: number } | null = null;
+    const distance = (touches: TouchList) => Math.hypot(
+      touches[0].clientX - touches[1].clientX,
+      touches[0].clientY - touches[1].clientY
+    );
+    const handleStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) pinch = { distance: distance(e.touches), scale: state.current.scale };
+    };
+    const handleMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      zoomTo(pinch.scale * (distance(e.touches) / pinch.distance), {
+        x: (e.touches[0].clientX + e.touches[1].clientX) / 2,
+        y: (e.touches[0].clientY + e.touches[1].clientY) / 2,
+      });
+    };
+    const handleEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+    viewport.addEventListener('touchstart', handleStart, { passive: true });
+    viewport.addEventListener('touchmove', handleMove, { passive: false });
+    viewport.addEventListener('touchend', handleEnd);
+    return () => {
+      viewport.removeEventListener('touchstart', handleStart);
+      viewport.removeEventListener('touchmove', handleMove);
+      viewport.removeEventListener('touchend', handleEnd);
+    };
+  }, [viewportRef, zoomTo]);
+
+  // Space held turns the pointer into a hand, like in photo editors
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => (e.target as HTMLElement).closest('input, textarea, select, button, [contenteditable="true"]');
+    const handleDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleDown);
+    window.addEventListener('keyup', handleUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleDown);
+      window.removeEventListener('keyup', handleUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  /** Starts a drag that moves the view until the mouse is released. */
+  const startPan = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    const start = { x: e.clientX, y: e.clientY };
+    const startPanValue = state.current.pan;
+    setIsPanning(true);
+
+    const handleMove = (move: MouseEvent) => {
+      const { scale: current, layout: currentLayout } = state.current;
+      setPan(clampPan({
+        x: startPanValue.x + move.clientX - start.x,
+        y: startPanValue.y + move.clientY - start.y,
+      }, current, currentLayout));
+    };
+    const handleUp = () => {
+      setIsPanning(false);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, []);
+
+  // Visible part of the image as fractions of its size, for the navigator
+  const visible = {
+    x: 0.5 - (layout.viewWidth / 2 + pan.x) / (layout.fitWidth * scale || 1),
+    y: 0.5 - (layout.viewHeight / 2 + pan.y) / (layout.fitHeight * scale || 1),
+    width: layout.viewWidth / (layout.fitWidth * scale || 1),
+    height: layout.viewHeight / (layout.fitHeight * scale || 1),
+  };
+
+  return {
+    scale,
+    pan,
+    pixelZoom,
+    maxScale,
+    visible,
+    spaceHeld,
+    isPanning,
+    zoomTo,
+    zoomBy,
+    fit,
+    actualPixels,
+    centerOn,
+    startPan,
+    /** Callback ref for a mirrored pane. */
+    mirrorRef: setMirror,
+    transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`,
+  };
+};
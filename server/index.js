@@ -0,0 +1,251 @@
+// Retouch proxy: holds the Gemini key so it never reaches the browser, and serves
+// the built app from dist/ in production. Plain Node, no build step:
+//   node server/index.js
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize, resolve } from 'node:path';
+import { FinishReason, GoogleGenAI } from '@google/genai';
+import { buildRetouchPrompt, readPromptOptions } from '../services/promptTemplate.js';
+
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const MODEL = 'gemini-2.5-flash-image';
+// Gemini rejects inline requests above 20 MB; tiles and crops stay far below it
+const MAX_BODY_BYTES = (Number(process.env.RETOUCH_MAX_BODY_MB) || 20) * 1024 * 1024;
+// Token bucket per client: a burst of RATE_LIMIT requests, refilled over a minute
+const RATE_LIMIT = Number(process.env.RETOUCH_RATE_LIMIT) || 30;
+const RATE_WINDOW_MS = 60_000;
+// Only trust X-Forwarded-For behind a proxy that sets it, or clients could pick their own bucket
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const STATIC_DIR = resolve('dist');
+const BLOCKED_REASONS = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const client = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+/** @type {Map<string, { tokens: number; updatedAt: number }>} */
+const buckets = new Map();
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   * @param {string} [code] One of the client's error kinds, e.g. 'notConfigured'.
+   */
+  constructor(status, message, code) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** Takes a token for `clientId`; returns the seconds to wait when there is none left. */
+const takeToken = (clientId) => {
+  const now = Date.now();
+  const bucket = buckets.get(clientId) ?? { tokens: RATE_LIMIT, updatedAt: now };
+  bucket.tokens = Math.min(RATE_LIMIT, bucket.tokens + ((now - bucket.updatedAt) / RATE_WINDOW_MS) * RATE_LIMIT);
+  bucket.updatedAt = now;
+  buckets.set(clientId, bucket);
+  if (bucket.tokens < 1) return Math.ceil(((1 - bucket.tokens) / RATE_LIMIT) * RATE_WINDOW_MS / 1000);
+  bucket.tokens -= 1;
+  return 0;
+};
+
+// Full buckets carry no state worth keeping
+setInterval(() => {
+  const cutoff = Date.now() - RATE_WINDOW_MS;
+  for (const [clientId, bucket] of buckets) {
+    if (bucket.updatedAt < cutoff) buckets.delete(clientId);
+  }
+}, RATE_WINDOW_MS).unref();
+
+const clientIdOf = (req) => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/** Reads the request body, failing with 413 as soon as it passes the limit. */
+const readBody = (req) => new Promise((resolveBody, reject) => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > MAX_BODY_BYTES) {
+    reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024} MB.`));
+    return;
+  }
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024} MB.`));
+      // Drain the rest so the 413 can still be sent
+      req.removeAllListeners('data');
+      req.resume();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const parseRequest = (text) => {
+  let body;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Body must be JSON.');
+  }
+  const { image, mimeType, preset, mask, maskMimeType } = body ?? {};
+  const options = readPromptOptions(preset);
+  if (typeof image !== 'string' || typeof mimeType !== 'string' || !options) {
+    throw new HttpError(400, 'Expected { image, mimeType, preset }.');
+  }
+  if (!mimeType.startsWith('image/') || (mask !== undefined && typeof mask !== 'string')) {
+    throw new HttpError(400, 'Unsupported image.');
+  }
+  // Any `prompt` in the body is ignored: the key only ever pays for the retouch template
+  return {
+    image,
+    mimeType,
+    prompt: buildRetouchPrompt(options, Boolean(mask)),
+    mask,
+    maskMimeType: typeof maskMimeType === 'string' ? maskMimeType : 'image/png',
+  };
+};
+
+/** Calls Gemini and answers in the HTTP endpoint format the browser already speaks. */
+const retouch = async ({ image, mimeType, prompt, mask, maskMimeType }, signal) => {
+  if (!client) throw new HttpError(503, 'GEMINI_API_KEY is not set on the server.', 'notConfigured');
+
+  let response;
+  try {
+    response = await client.models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          { text: prompt },
+          { inlineData: { mimeType, data: image } },
+          ...(mask ? [{ inlineData: { mimeType: maskMimeType, data: mask } }] : []),
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+  } catch (error) {
+    // Pass on statuses the browser can act on; anything else is our upstream failing
+    const status = [400, 401, 403, 429].includes(error?.status) ? error.status : 502;
+    const code = status === 400 && /api key/i.test(error?.message ?? '') ? 'invalidKey' : undefined;
+    throw new HttpError(status, error?.message || 'Gemini request failed.', code);
+  }
+
+  const images = [];
+  const text = [];
+  for (const candidate of response.candidates ?? []) {
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.inlineData?.data) {
+        images.push({ image: part.inlineData.data, mimeType: part.inlineData.mimeType || mimeType });
+      } else if (part.text && !part.thought) {
+        text.push(part.text.trim());
+      }
+    }
+  }
+
+  const [candidate] = response.candidates ?? [];
+  const finishReason = candidate?.finishReason;
+  const blockReason = response.promptFeedback?.blockReason;
+  const body = {
+    images,
+    finishReason,
+    blockReason,
+    safetyRatings: (candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings ?? []).map(rating => ({
+      category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+      probability: rating.probability ?? 'HARM_PROBABILITY_UNSPECIFIED',
+      blocked: Boolean(rating.blocked),
+    })),
+    text: text.filter(Boolean).join('\n\n'),
+  };
+  const blocked = images.length === 0 && (blockReason || BLOCKED_REASONS.includes(finishReason));
+  return { status: blocked ? 422 : 200, body };
+};
+
+const handleRetouch = async (req, res) => {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Use POST.' }, { Allow: 'POST' });
+    return;
+  }
+  const wait = takeToken(clientIdOf(req));
+  if (wait > 0) {
+    sendJson(res, 429, { error: 'Too many requests.', code: 'quota' }, { 'Retry-After': String(wait) });
+    return;
+  }
+
+  // Stop the upstream call when the browser cancels or goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const request = parseRequest(await readBody(req));
+  const { status, body } = await retouch(request, controller.signal);
+  sendJson(res, status, body);
+};
+
+const serveStatic = async (req, res) => {
+  let path;
+  try {
+    path = normalize(decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname));
+  } catch {
+    throw new HttpError(400, 'Malformed path.');
+  }
+  let file = join(STATIC_DIR, path);
+  if (!file.startsWith(STATIC_DIR)) throw new HttpError(403, 'Forbidden.');
+  // Unknown paths get the app shell
+  if (!(await stat(file).catch(() => null))?.isFile()) file = join(STATIC_DIR, 'index.html');
+  const content = await readFile(file).catch(() => null);
+  if (!content) throw new HttpError(404, 'Not found. Run `npm run build` to serve the app from here.');
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] ?? 'application/octet-stream' });
+  res.end(content);
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.url?.split('?')[0] === '/api/retouch') {
+      await handleRetouch(req, res);
+    } else {
+      await serveStatic(req, res);
+    }
+  } catch (error) {
+    if (res.headersSent || res.destroyed) return;
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status >= 500) console.error('Request failed:', error);
+    sendJson(res, status, { error: error?.message || 'Internal error.', ...(error?.code ? { code: error.code } : {}) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Retouch proxy on http://localhost:${PORT}${client ? '' : ' (GEMINI_API_KEY not set)'}`);
+});
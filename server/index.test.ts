@@ -0,0 +1,129 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const SCRIPT = resolve(__dirname, 'index.js');
+
+const freePort = () => new Promise<number>((resolvePort, reject) => {
+  const probe = createServer();
+  probe.on('error', reject);
+  probe.listen(0, () => {
+    const address = probe.address();
+    probe.close(() => resolvePort(typeof address === 'object' && address ? address.port : 0));
+  });
+});
+
+/**
+ * Runs the proxy in a scratch directory, so no .env file or build output leaks in,
+ * and without a Gemini key.
+ */
+const startServer = async (env: Record<string, string> = {}) => {
+  const cwd = mkdtempSync(join(tmpdir(), 'dermafix-server-'));
+  const port = await freePort();
+  const child: ChildProcess = spawn(process.execPath, [SCRIPT], {
+    cwd,
+    env: { PATH: process.env.PATH ?? '', PORT: String(port), ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  await new Promise<void>((resolveStart, reject) => {
+    child.stdout?.on('data', chunk => {
+      if (String(chunk).includes('Retouch proxy on')) resolveStart();
+    });
+    child.on('exit', code => reject(new Error(`Server exited with ${code}`)));
+  });
+  return {
+    cwd,
+    url: (path: string) => `http://127.0.0.1:${port}${path}`,
+    stop: () => {
+      child.kill();
+      rmSync(cwd, { recursive: true, force: true });
+    },
+  };
+};
+
+const post = (url: string, body: unknown) => fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+const VALID = { image: 'aW1hZ2U=', mimeType: 'image/jpeg', preset: { targets: ['acne'], strength: 'subtle', preserve: [], notes: '' } };
+
+describe('retouch proxy', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    server = await startServer({ RETOUCH_RATE_LIMIT: '8', RETOUCH_MAX_BODY_MB: '0.001' });
+  });
+
+  afterAll(() => server?.stop());
+
+  it('only accepts POST', async () => {
+    const response = await fetch(server.url('/api/retouch'));
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('POST');
+  });
+
+  it('rejects bodies that are not a retouch request', async () => {
+    expect((await post(server.url('/api/retouch'), 'not json')).status).toBe(400);
+    expect((await post(server.url('/api/retouch'), { image: 'aW1hZ2U=' })).status).toBe(400);
+    expect((await post(server.url('/api/retouch'), { ...VALID, mimeType: 'text/html' })).status).toBe(400);
+    expect((await post(server.url('/api/retouch'), { ...VALID, preset: undefined, prompt: 'Anything at all.' })).status).toBe(400);
+    expect((await post(server.url('/api/retouch'), { ...VALID, preset: { ...VALID.preset, strength: 'extreme' } })).status).toBe(400);
+  });
+
+  it('rejects bodies over the size limit', async () => {
+    const response = await post(server.url('/api/retouch'), { ...VALID, image: 'a'.repeat(2048) });
+    expect(response.status).toBe(413);
+  });
+
+  it('reports a missing key in the error format the browser maps', async () => {
+    const response = await post(server.url('/api/retouch'), VALID);
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: 'GEMINI_API_KEY is not set on the server.', code: 'notConfigured' });
+  });
+
+  it('rate limits each client', async () => {
+    // The earlier tests used seven of the eight tokens
+    await post(server.url('/api/retouch'), VALID);
+    const response = await post(server.url('/api/retouch'), VALID);
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await response.json()).code).toBe('quota');
+  });
+});
+
+describe('static files', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    server = await startServer();
+    mkdirSync(join(server.cwd, 'dist', 'assets'), { recursive: true });
+    writeFileSync(join(server.cwd, 'dist', 'index.html'), '<!doctype html><title>DermaFix</title>');
+    writeFileSync(join(server.cwd, 'dist', 'assets', 'app.js'), 'console.log(1);');
+  });
+
+  afterAll(() => server?.stop());
+
+  it('serves the built files with their content type', async () => {
+    const response = await fetch(server.url('/assets/app.js'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/javascript');
+    expect(await response.text()).toBe('console.log(1);');
+  });
+
+  it('answers unknown paths with the app shell', async () => {
+    const response = await fetch(server.url('/projects/42'));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<title>DermaFix</title>');
+  });
+
+  it('rejects paths that are not valid percent-encoding', async () => {
+    const response = await fetch(server.url('/%E0%A4%A'));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Malformed path.');
+  });
+});
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { exportPresetsJson, importPresetsJson, loadUserPresets, saveUserPresets, BUILT_IN_PRESETS } from './presets';
+import { buildRetouchPrompt, DEFAULT_PRESET, NOTES_MAX_LENGTH, RetouchPreset } from './prompts';
+
+const preset = (overrides: Partial<RetouchPreset> = {}): RetouchPreset => ({
+  id: 'preset-1', name: 'Studio', targets: ['acne'], strength: 'subtle', preserve: ['freckles'], notes: 'Keep the scar on the chin.', ...overrides,
+});
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('presets', () => {
+  it('round-trips through an export file with fresh ids', () => {
+    const imported = importPresetsJson(exportPresetsJson([preset(), BUILT_IN_PRESETS[1]]));
+    expect(imported.map(p => p.name)).toEqual(['Studio', 'Acne only']);
+    expect(imported.every(p => !p.builtIn && p.id.startsWith('preset-') && p.id !== 'preset-1')).toBe(true);
+    expect(imported[0]).toMatchObject({ targets: ['acne'], strength: 'subtle', preserve: ['freckles'], notes: 'Keep the scar on the chin.' });
+  });
+
+  it('accepts a bare array or object and cleans up unknown values', () => {
+    const [cleaned] = importPresetsJson(JSON.stringify({ name: '  Soft ', targets: ['acne', 'tattoos'], strength: 'extreme', preserve: 'moles' }));
+    expect(cleaned).toMatchObject({ name: 'Soft', targets: ['acne'], strength: 'moderate', preserve: [], notes: '' });
+    expect(importPresetsJson(JSON.stringify([preset(), preset({ name: 'Two' })]))).toHaveLength(2);
+  });
+
+  it('rejects files without a valid preset', () => {
+    expect(() => importPresetsJson(JSON.stringify([{ name: '' }, 3, null]))).toThrow(/doesn't contain any valid presets/);
+    expect(() => importPresetsJson('not json')).toThrow();
+  });
+
+  it('stores only user presets and survives corrupt storage', () => {
+    saveUserPresets([DEFAULT_PRESET, preset()]);
+    expect(loadUserPresets().map(p => p.id)).toEqual(['preset-1']);
+    localStorage.setItem('dermafix.presets', '{');
+    expect(loadUserPresets()).toEqual([]);
+  });
+});
+
+describe('buildRetouchPrompt', () => {
+  it('compiles targets, strength, preserved features and notes', () => {
+    const prompt = buildRetouchPrompt(preset());
+    expect(prompt).toContain('Task: Remove acne and pimples from the face');
+    expect(prompt).toContain('Be conservative');
+    expect(prompt).toContain('Leave the background, hair, clothes, eyes and freckles 100% untouched.');
+    expect(prompt).toContain('ADDITIONAL NOTES: Keep the scar on the chin.');
+  });
+
+  it('falls back to the standard targets and keeps the texture rules', () => {
+    const prompt = buildRetouchPrompt(preset({ targets: [], preserve: [], notes: ' ' }));
+    expect(prompt).toContain('Remove acne and pimples, redness and blotchy irritation, small scars and healed marks');
+    expect(prompt).toContain('TEXTURE IS PARAMOUNT');
+    expect(prompt).not.toContain('ADDITIONAL NOTES');
+  });
+
+  it('keeps the retouch instructions and explains the mask when inpainting', () => {
+    const prompt = buildRetouchPrompt(preset(), true);
+    expect(prompt).toContain('Be conservative');
+    expect(prompt).toContain('Only heal the skin under the WHITE areas of the mask.');
+    expect(buildRetouchPrompt(preset())).not.toContain('INPAINTING');
+  });
+
+  it('cuts notes to the maximum length', () => {
+    const prompt = buildRetouchPrompt(preset({ notes: 'x'.repeat(NOTES_MAX_LENGTH + 50) }));
+    expect(prompt).toContain(`ADDITIONAL NOTES: ${'x'.repeat(NOTES_MAX_LENGTH)}\n`);
+  });
+});
@@ -0,0 +1,78 @@
+import { DEFAULT_PRESET, NOTES_MAX_LENGTH, PreserveFeature, PRESERVE_LABELS, RetouchPreset, RetouchStrength, RetouchTarget, TARGET_LABELS } from './prompts';
+
+const PRESETS_STORAGE_KEY = 'dermafix.presets';
+const ACTIVE_PRESET_STORAGE_KEY = 'dermafix.activePreset';
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PRESETS: RetouchPreset[] = [
+  DEFAULT_PRESET,
+  { id: 'builtin-acne', name: 'Acne only', targets: ['acne'], strength: 'moderate', preserve: ['freckles', 'moles'], notes: '', builtIn: true },
+  { id: 'builtin-redness', name: 'Redness only', targets: ['redness'], strength: 'subtle', preserve: ['freckles', 'moles'], notes: '', builtIn: true },
+  { id: 'builtin-under-eye', name: 'Under-eye circles', targets: ['underEyeCircles'], strength: 'subtle', preserve: ['wrinkles'], notes: '', builtIn: true },
+  { id: 'builtin-scars', name: 'Scars', targets: ['scars'], strength: 'moderate', preserve: ['freckles', 'moles'], notes: '', builtIn: true },
+  { id: 'builtin-natural', name: 'Keep freckles & moles', targets: ['acne', 'redness', 'scars'], strength: 'moderate', preserve: ['freckles', 'moles'], notes: '', builtIn: true },
+];
+
+const isOneOf = <T extends string>(labels: Record<T, string>) => (value: unknown): value is T => {
+  return typeof value === 'string' && value in labels;
+};
+
+const STRENGTHS: RetouchStrength[] = ['subtle', 'moderate', 'strong'];
+
+/** Validates untrusted JSON (storage or an imported file) into a preset, or null. */
+const parsePreset = (value: unknown): RetouchPreset | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { id, name, targets, strength, preserve, notes } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  return {
+    id: typeof id === 'string' && id ? id : `preset-${Date.now()}`,
+    name: name.trim().slice(0, 60),
+    targets: Array.isArray(targets) ? targets.filter(isOneOf<RetouchTarget>(TARGET_LABELS)) : [],
+    strength: STRENGTHS.includes(strength as RetouchStrength) ? strength as RetouchStrength : 'moderate',
+    preserve: Array.isArray(preserve) ? preserve.filter(isOneOf<PreserveFeature>(PRESERVE_LABELS)) : [],
+    notes: typeof notes === 'string' ? notes.slice(0, NOTES_MAX_LENGTH) : '',
+  };
+};
+
+export const loadUserPresets = (): RetouchPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(parsePreset).filter((p): p is RetouchPreset => p !== null) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: RetouchPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+export const loadActivePresetId = (): string => {
+  return localStorage.getItem(ACTIVE_PRESET_STORAGE_KEY) || DEFAULT_PRESET.id;
+};
+
+export const saveActivePresetId = (id: string) => {
+  localStorage.setItem(ACTIVE_PRESET_STORAGE_KEY, id);
+};
+
+/** Serialises presets for sharing a house style with the team. */
+export const exportPresetsJson = (presets: RetouchPreset[]): string => {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.map(({ builtIn, ...preset }) => preset),
+  }, null, 2);
+};
+
+/**
+ * Parses a presets file. Accepts the exported format or a bare array/object.
+ * Imported presets get fresh ids so they never overwrite local ones.
+ */
+export const importPresetsJson = (json: string): RetouchPreset[] => {
+  const data = JSON.parse(json);
+  const list = Array.isArray(data) ? data : Array.isArray(data?.presets) ? data.presets : [data];
+  const presets = list.map(parsePreset).filter((p: RetouchPreset | null): p is RetouchPreset => p !== null);
+  if (presets.length === 0) {
+    throw new Error("The file doesn't contain any valid presets.");
+  }
+  return presets.map((preset: RetouchPreset, i: number) => ({ ...preset, id: `preset-${Date.now()}-${i}` }));
+};
@@ -0,0 +1,85 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EditorDocument } from '../types';
+import { deleteProject, getProject, listProjects, ProjectRecord, saveProject, updateProject } from './projectStore';
+
+const project = (id: string, overrides: Partial<ProjectRecord> = {}): ProjectRecord => ({
+  id,
+  name: `${id}.jpg`,
+  createdAt: 1,
+  updatedAt: 1,
+  thumbnail: 'data:image/jpeg;base64,dGh1bWI=',
+  original: new Blob(['original'], { type: 'image/jpeg' }),
+  results: [],
+  activeResult: -1,
+  document: { spots: [], strokes: [] } as unknown as EditorDocument,
+  ...overrides,
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  for (const { id } of await listProjects()) await deleteProject(id);
+});
+
+describe('projectStore', () => {
+  it('saves and reads back a project with its image', async () => {
+    await saveProject(project('a'));
+    const saved = await getProject('a');
+
+    expect(saved?.name).toBe('a.jpg');
+    expect(await saved?.original.text()).toBe('original');
+    expect(saved?.updatedAt).toBeGreaterThan(1);
+  });
+
+  it('lists the most recently edited projects first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1000);
+    await saveProject(project('old', { results: [new Blob(['r'])] }));
+    vi.setSystemTime(2000);
+    await saveProject(project('new'));
+
+    const list = await listProjects();
+    expect(list.map(p => p.id)).toEqual(['new', 'old']);
+    expect(list[1]).toEqual({ id: 'old', name: 'old.jpg', updatedAt: 1000, thumbnail: project('old').thumbnail, resultCount: 1 });
+  });
+
+  it('keeps only the 20 most recent projects', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (let i = 0; i < 22; i++) {
+      vi.setSystemTime(1000 + i);
+      await saveProject(project(`p${i}`));
+    }
+    const ids = (await listProjects()).map(p => p.id);
+    expect(ids).toHaveLength(20);
+    expect(ids).not.toContain('p0');
+    expect(ids).not.toContain('p1');
+  });
+
+  it('patches a stored project from its current state', async () => {
+    await saveProject(project('a'));
+    await updateProject('a', current => ({ results: [...current.results, new Blob(['r1'])], activeResult: current.results.length }));
+    await updateProject('a', current => ({ results: [...current.results, new Blob(['r2'])], activeResult: current.results.length }));
+
+    const saved = await getProject('a');
+    expect(saved?.results).toHaveLength(2);
+    expect(saved?.activeResult).toBe(1);
+    expect(saved?.name).toBe('a.jpg');
+  });
+
+  it('applies concurrent patches one after the other', async () => {
+    await saveProject(project('a'));
+    await Promise.all(['r1', 'r2', 'r3'].map(label => (
+      updateProject('a', current => ({ results: [...current.results, new Blob([label])] }))
+    )));
+
+    const saved = await getProject('a');
+    expect(await Promise.all(saved!.results.map(blob => blob.text()))).toEqual(['r1', 'r2', 'r3']);
+  });
+
+  it('ignores updates to deleted projects', async () => {
+    await saveProject(project('a'));
+    await deleteProject('a');
+    await updateProject('a', () => ({ activeResult: 0 }));
+    expect(await getProject('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { EditorDocument, ImageSource } from '../types';
+
+const DB_NAME = 'dermafix';
+const DB_VERSION = 1;
+const STORE = 'projects';
+const MAX_PROJECTS = 20;
+
+/** A saved editing session: everything needed to reopen the Editor exactly as it was left. */
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string; // Small JPEG data URL for the recent projects list
+  original: Blob; // The file as opened, at full resolution
+  /** Upright, downsized copy the editor works on; missing in projects saved before ingestion, which used `original`. */
+  working?: Blob;
+  source?: Omit<ImageSource, 'blob'>;
+  /** Every processed result (variant) produced for this image, oldest first. */
+  results: Blob[];
+  resultLabels?: string[]; // Parallel to results; missing in projects saved before variants
+  activeResult: number; // Index of the newest result, -1 when none
+  document: EditorDocument;
+  /** Kept beside the document by projects saved before it moved into `document.skinOnly`. */
+  skinOnly?: boolean;
+}
+
+export type ProjectSummary = Pick<ProjectRecord, 'id' | 'name' | 'updatedAt' | 'thumbnail'> & { resultCount: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getProject = (id: string): Promise<ProjectRecord | undefined> => {
+  return run('readonly', store => store.get(id) as IDBRequest<ProjectRecord | undefined>);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+/** Most recently edited first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await run('readonly', store => store.getAll() as IDBRequest<ProjectRecord[]>);
+  return records
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(({ id, name, updatedAt, thumbnail, results }) => ({ id, name, updatedAt, thumbnail, resultCount: results.length }));
+};
+
+/** Saves a project, evicting the oldest ones beyond MAX_PROJECTS. */
+export const saveProject = async (project: ProjectRecord): Promise<void> => {
+  await run('readwrite', store => store.put({ ...project, updatedAt: Date.now() }));
+
+  const projects = await listProjects();
+  for (const stale of projects.slice(MAX_PROJECTS)) {
+    await deleteProject(stale.id);
+  }
+};
+
+/**
+ * Applies `patch` to a stored project; a no-op if it was deleted meanwhile. The read
+ * and the write share one transaction, so concurrent updates can't undo each other.
+ */
+export const updateProject = async (id: string, patch: (project: ProjectRecord) => Partial<ProjectRecord>): Promise<void> => {
+  await run('readwrite', store => {
+    const request = store.get(id) as IDBRequest<ProjectRecord | undefined>;
+    request.onsuccess = () => {
+      const project = request.result;
+      if (project) store.put({ ...project, ...patch(project), updatedAt: Date.now() });
+    };
+    return request;
+  });
+};
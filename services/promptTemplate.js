@@ -0,0 +1,94 @@
+// Retouch prompt template, shared by the app and the retouch proxy (server/index.js).
+// The proxy builds Gemini's prompt itself from a preset's options, so the text it sends
+// with the server's key is always this template. Plain JavaScript so Node can import it
+// without a build step; services/prompts.ts holds the types.
+
+/** Longest preset notes the template takes; longer ones are cut. */
+export const NOTES_MAX_LENGTH = 1000;
+
+const TARGET_PROMPTS = {
+  acne: 'acne and pimples',
+  redness: 'redness and blotchy irritation',
+  scars: 'small scars and healed marks',
+  underEyeCircles: 'dark under-eye circles (lighten them, keep the natural under-eye shape)',
+  hyperpigmentation: 'dark spots and uneven pigmentation',
+};
+
+const PRESERVE_PROMPTS = {
+  freckles: 'freckles',
+  moles: 'moles and beauty marks',
+  wrinkles: 'expression lines and wrinkles',
+  facialHair: 'facial hair and stubble',
+};
+
+const STRENGTH_PROMPTS = {
+  subtle: 'Be conservative: only correct clearly visible blemishes and leave minor unevenness alone.',
+  moderate: 'Correct the blemishes fully while keeping the skin looking real.',
+  strong: 'Correct the blemishes thoroughly, including faint marks, but never at the expense of texture.',
+};
+
+const DEFAULT_TARGETS = ['acne', 'redness', 'scars'];
+
+/**
+ * @typedef {object} PromptOptions
+ * @property {string[]} targets Keys of TARGET_PROMPTS
+ * @property {string} strength Key of STRENGTH_PROMPTS
+ * @property {string[]} preserve Keys of PRESERVE_PROMPTS
+ * @property {string} notes
+ */
+
+/**
+ * Validates untrusted options, e.g. from a request body. Unknown targets and features
+ * are dropped and notes are cut to NOTES_MAX_LENGTH; returns null when the shape is wrong.
+ *
+ * @param {unknown} value
+ * @returns {PromptOptions | null}
+ */
+export const readPromptOptions = (value) => {
+  if (!value || typeof value !== 'object') return null;
+  const { targets, strength, preserve, notes } = /** @type {Record<string, unknown>} */ (value);
+  if (!Array.isArray(targets) || !Array.isArray(preserve) || typeof strength !== 'string' || !(strength in STRENGTH_PROMPTS)) {
+    return null;
+  }
+  return {
+    targets: targets.filter(target => typeof target === 'string' && target in TARGET_PROMPTS),
+    strength,
+    preserve: preserve.filter(feature => typeof feature === 'string' && feature in PRESERVE_PROMPTS),
+    notes: typeof notes === 'string' ? notes.slice(0, NOTES_MAX_LENGTH) : '',
+  };
+};
+
+/**
+ * Compiles preset options into the retouch instructions sent to the provider.
+ * The strict guidelines are always included; presets only change the task and scope.
+ * With `inpaint`, the instructions also explain the mask image that follows the photo.
+ *
+ * @param {PromptOptions} options
+ * @param {boolean} [inpaint]
+ * @returns {string}
+ */
+export const buildRetouchPrompt = (options, inpaint = false) => {
+  const targets = options.targets.length > 0 ? options.targets : DEFAULT_TARGETS;
+  const preserve = options.preserve.map(feature => PRESERVE_PROMPTS[feature]);
+  const keep = ['the background', 'hair', 'clothes', 'eyes', ...preserve];
+  const notes = options.notes.trim().slice(0, NOTES_MAX_LENGTH);
+
+  const prompt = `
+  You are a high-end beauty retoucher.
+  Task: Remove ${targets.map(target => TARGET_PROMPTS[target]).join(', ')} from the face in this image.
+  ${STRENGTH_PROMPTS[options.strength]}
+
+  STRICT GUIDELINES:
+  1. TEXTURE IS PARAMOUNT: Do NOT smooth the skin like a plastic filter. You must PRESERVE the original pores, skin grain, and lighting details. The goal is "invisible retouching".
+  2. GEOMETRY: The output image MUST have the exact same dimensions and pixel alignment as the input. Do not crop, rotate, or shift the image.
+  3. STRUCTURE: Do not change facial features (nose shape, jawline, eye size). Only heal the skin surface.
+  4. SCOPE: Leave ${keep.slice(0, -1).join(', ')} and ${keep[keep.length - 1]} 100% untouched.
+  5. Output: Return the fully processed image.
+  ${notes ? `\n  ADDITIONAL NOTES: ${notes}` : ''}
+`;
+  if (!inpaint) return prompt;
+  return `${prompt}
+  INPAINTING: The second image is a black and white mask with the same size as the photo.
+  Only heal the skin under the WHITE areas of the mask. Every pixel under the black areas must stay exactly as in the photo.
+`;
+};
@@ -0,0 +1,54 @@
+import { buildRetouchPrompt as compileRetouchPrompt } from './promptTemplate.js';
+
+export { NOTES_MAX_LENGTH } from './promptTemplate.js';
+
+export type RetouchTarget = 'acne' | 'redness' | 'scars' | 'underEyeCircles' | 'hyperpigmentation';
+export type PreserveFeature = 'freckles' | 'moles' | 'wrinkles' | 'facialHair';
+export type RetouchStrength = 'subtle' | 'moderate' | 'strong';
+
+/** A named retouch profile: what to fix, how hard, and what must survive. */
+export interface RetouchPreset {
+  id: string;
+  name: string;
+  targets: RetouchTarget[];
+  strength: RetouchStrength;
+  preserve: PreserveFeature[];
+  notes: string; // Free-form extra instructions
+  builtIn?: boolean;
+}
+
+export const TARGET_LABELS: Record<RetouchTarget, string> = {
+  acne: 'Acne & pimples',
+  redness: 'Redness',
+  scars: 'Small scars',
+  underEyeCircles: 'Under-eye circles',
+  hyperpigmentation: 'Dark spots',
+};
+
+export const PRESERVE_LABELS: Record<PreserveFeature, string> = {
+  freckles: 'Freckles',
+  moles: 'Moles & beauty marks',
+  wrinkles: 'Expression lines',
+  facialHair: 'Facial hair & stubble',
+};
+
+/** What a preset tells the provider; the proxy builds Gemini's prompt from these. */
+export type PromptOptions = Pick<RetouchPreset, 'targets' | 'strength' | 'preserve' | 'notes'>;
+
+/**
+ * Compiles preset options into the retouch instructions sent to the provider, with
+ * the inpainting explanation added when a mask image follows the photo.
+ */
+export const buildRetouchPrompt = (options: PromptOptions, inpaint = false): string => (
+  compileRetouchPrompt(options, inpaint)
+);
+
+export const DEFAULT_PRESET: RetouchPreset = {
+  id: 'builtin-standard',
+  name: 'Standard',
+  targets: ['acne', 'redness', 'scars'],
+  strength: 'moderate',
+  preserve: [],
+  notes: '',
+  builtIn: true,
+};
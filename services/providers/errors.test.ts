@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { isCancelled, isRefusal, kindForStatus, RetouchError, toRetouchError } from './errors';
+
+describe('kindForStatus', () => {
+  it('maps the statuses that say something about the failure', () => {
+    expect(kindForStatus(401)).toBe('invalidKey');
+    expect(kindForStatus(403)).toBe('invalidKey');
+    expect(kindForStatus(408)).toBe('timeout');
+    expect(kindForStatus(429)).toBe('quota');
+    expect(kindForStatus(500)).toBe('server');
+    expect(kindForStatus(503)).toBe('server');
+  });
+
+  it('returns null for the rest', () => {
+    expect(kindForStatus(400)).toBeNull();
+    expect(kindForStatus(404)).toBeNull();
+  });
+});
+
+describe('RetouchError', () => {
+  it('shows a user-facing message and keeps the provider detail', () => {
+    const error = new RetouchError('quota', 'RESOURCE_EXHAUSTED', { status: 429 });
+    expect(error.message).toMatch(/rate limit or quota/);
+    expect(error.detail).toBe('RESOURCE_EXHAUSTED');
+    expect(error.status).toBe(429);
+    expect(error.name).toBe('RetouchError');
+  });
+
+  it('shows the detail itself for unknown failures', () => {
+    expect(new RetouchError('unknown', 'Something odd').message).toBe('Something odd');
+    expect(new RetouchError('unknown').message).toBe('Failed to process image.');
+  });
+
+  it('only retries transient failures', () => {
+    expect(['quota', 'network', 'timeout', 'server'].every(kind => new RetouchError(kind as 'quota').retryable)).toBe(true);
+    expect(['safety', 'noImage', 'invalidKey', 'notConfigured', 'cancelled', 'unknown']
+      .some(kind => new RetouchError(kind as 'safety').retryable)).toBe(false);
+  });
+});
+
+describe('toRetouchError', () => {
+  it('passes RetouchErrors through', () => {
+    const error = new RetouchError('safety');
+    expect(toRetouchError(error)).toBe(error);
+  });
+
+  it('treats aborts as cancellation', () => {
+    const error = toRetouchError(new DOMException('The user aborted a request.', 'AbortError'));
+    expect(error.kind).toBe('cancelled');
+    expect(isCancelled(error)).toBe(true);
+  });
+
+  it('treats fetch TypeErrors as network failures', () => {
+    expect(toRetouchError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(toRetouchError(new TypeError('Load failed')).kind).toBe('network');
+    expect(toRetouchError(new TypeError('x is not a function')).kind).toBe('unknown');
+  });
+
+  it('recognises key and quota messages from the SDK', () => {
+    expect(toRetouchError(new Error('API key not valid. Please pass a valid API key.')).kind).toBe('invalidKey');
+    expect(toRetouchError(new Error('429 RESOURCE_EXHAUSTED')).kind).toBe('quota');
+  });
+
+  it('falls back to the status on the thrown object', () => {
+    const error = toRetouchError(Object.assign(new Error('Internal'), { status: 500 }));
+    expect(error.kind).toBe('server');
+    expect(error.status).toBe(500);
+    expect(toRetouchError(Object.assign(new Error('Nope'), { status: '500' })).status).toBeUndefined();
+  });
+
+  it('wraps anything else as unknown with its text', () => {
+    const error = toRetouchError('boom');
+    expect(error.kind).toBe('unknown');
+    expect(error.message).toBe('boom');
+  });
+});
+
+describe('isRefusal', () => {
+  it('is true for safety blocks and image-less answers only', () => {
+    expect(isRefusal(new RetouchError('safety'))).toBe(true);
+    expect(isRefusal(new RetouchError('noImage'))).toBe(true);
+    expect(isRefusal(new RetouchError('server'))).toBe(false);
+    expect(isRefusal(new Error('safety'))).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { RetouchDiagnostics } from './types';
+
+export type RetouchErrorKind =
+  | 'safety'
+  | 'noImage'
+  | 'quota'
+  | 'network'
+  | 'invalidKey'
+  | 'notConfigured'
+  | 'timeout'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+const MESSAGES: Record<RetouchErrorKind, string> = {
+  safety: "The engine declined this photo for safety reasons. Try a different photo or heal the spots offline.",
+  noImage: "The engine answered without an image. Please try again, or pick another preset.",
+  quota: "The engine's rate limit or quota was reached. Wait a minute and try again.",
+  network: "Couldn't reach the retouch engine. Check your connection and try again.",
+  invalidKey: "The API key was rejected. Check GEMINI_API_KEY or the endpoint's credentials.",
+  notConfigured: "This engine isn't set up yet. Configure it or choose another engine.",
+  timeout: "The engine took too long to answer. Please try again.",
+  server: "The retouch engine had an internal error. Please try again shortly.",
+  cancelled: "Retouch cancelled.",
+  unknown: "Failed to process image.",
+};
+
+// Worth another attempt after a pause; the rest fail the same way every time
+const RETRYABLE: RetouchErrorKind[] = ['quota', 'network', 'timeout', 'server'];
+
+/**
+ * A failed retouch request. `message` is written for the user; `detail` keeps what
+ * the provider actually said, for the console.
+ */
+export class RetouchError extends Error {
+  readonly kind: RetouchErrorKind;
+  readonly detail: string | undefined;
+  /** HTTP status of the failed response, when there was one. */
+  readonly status: number | undefined;
+  /** The model's own account of a refusal or an image-less answer. */
+  readonly diagnostics: RetouchDiagnostics | undefined;
+
+  constructor(
+    kind: RetouchErrorKind,
+    detail?: string,
+    { status, diagnostics }: { status?: number; diagnostics?: RetouchDiagnostics } = {}
+  ) {
+    super(kind === 'unknown' && detail ? detail : MESSAGES[kind]);
+    this.name = 'RetouchError';
+    this.kind = kind;
+    this.detail = detail;
+    this.status = status;
+    this.diagnostics = diagnostics;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+/** Maps an HTTP status to an error kind; null for statuses that don't tell us much. */
+export const kindForStatus = (status: number): RetouchErrorKind | null => {
+  if (status === 401 || status === 403) return 'invalidKey';
+  if (status === 408) return 'timeout';
+  if (status === 429) return 'quota';
+  if (status >= 500) return 'server';
+  return null;
+};
+
+/** Classifies anything a provider or the network threw. */
+export const toRetouchError = (error: unknown): RetouchError => {
+  if (error instanceof RetouchError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException && error.name === 'AbortError') return new RetouchError('cancelled', message);
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new RetouchError('network', message);
+
+  const rawStatus = error !== null && typeof error === 'object' ? (error as { status?: unknown }).status : undefined;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  if (/api key not valid|api_key_invalid|permission denied/i.test(message)) return new RetouchError('invalidKey', message, { status });
+  if (/resource.?exhausted|quota|rate limit/i.test(message)) return new RetouchError('quota', message, { status });
+  const kind = status !== undefined ? kindForStatus(status) : null;
+  return new RetouchError(kind ?? 'unknown', message, { status });
+};
+
+export const isCancelled = (error: unknown): error is RetouchError => error instanceof RetouchError && error.kind === 'cancelled';
+
+/** The model declined or answered in words only; worth explaining rather than just reporting. */
+export const isRefusal = (error: unknown): error is RetouchError => (
+  error instanceof RetouchError && (error.kind === 'safety' || error.kind === 'noImage')
+);
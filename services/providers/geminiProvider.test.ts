@@ -0,0 +1,20 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRESET } from '../prompts';
+import { geminiProvider } from './geminiProvider';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('geminiProvider', () => {
+  it('goes through the proxy without sending any key', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ image: 'b3V0', mimeType: 'image/png' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await geminiProvider.retouch({ base64Image: 'aW1hZ2U=', mimeType: 'image/jpeg', preset: DEFAULT_PRESET });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/retouch');
+    expect(JSON.stringify(init)).not.toMatch(/key/i);
+    expect(result.images).toEqual([{ base64Image: 'b3V0', mimeType: 'image/png' }]);
+  });
+});
@@ -0,0 +1,20 @@
+import { postRetouch } from './httpProvider';
+import { RetouchProvider, RetouchRequest, RetouchResult } from './types';
+
+// Served by server/index.js, which holds the key; Vite proxies it in development
+const PROXY_ENDPOINT = '/api/retouch';
+
+/**
+ * Sends the image to Gemini, through the app's own server, to remove blemishes
+ * while keeping texture. The key never reaches the browser.
+ */
+const retouch = (request: RetouchRequest): Promise<RetouchResult> => postRetouch(PROXY_ENDPOINT, request);
+
+export const geminiProvider: RetouchProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Google Gemini 2.5 Flash Image',
+  // Only whether a key was configured at build time; the key itself stays on the server
+  isConfigured: () => process.env.GEMINI_ENABLED === 'true',
+  retouch
+};
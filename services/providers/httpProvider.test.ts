@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRESET } from '../prompts';
+import { RetouchError } from './errors';
+import { httpProvider, postRetouch } from './httpProvider';
+
+const request = { base64Image: 'aW1hZ2U=', mimeType: 'image/jpeg', preset: DEFAULT_PRESET };
+
+const respond = (status: number, body: unknown) => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status, statusText: 'Status' }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const failure = async (promise: Promise<unknown>): Promise<RetouchError> => {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof RetouchError) return error;
+    throw error;
+  }
+  throw new Error('Expected the request to fail.');
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('httpProvider', () => {
+  it('refuses to run without RETOUCH_ENDPOINT', async () => {
+    expect(httpProvider.isConfigured()).toBe(false);
+    const fetchMock = respond(200, {});
+    const error = await failure(httpProvider.retouch(request));
+    expect(error.kind).toBe('notConfigured');
+    expect(error.detail).toMatch(/No retouch endpoint configured/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('postRetouch', () => {
+  it('posts the image with the compiled prompt and the preset options as JSON', async () => {
+    const fetchMock = respond(200, { image: 'b3V0', mimeType: 'image/png' });
+    const result = await postRetouch('/retouch', request);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/retouch');
+    expect(init.method).toBe('POST');
+    const body = JSON.parse(init.body as string);
+    expect(body).toMatchObject({ image: 'aW1hZ2U=', mimeType: 'image/jpeg' });
+    expect(body.prompt).toContain('high-end beauty retoucher');
+    expect(body.prompt).not.toContain('INPAINTING');
+    expect(body.preset).toEqual({ targets: ['acne', 'redness', 'scars'], strength: 'moderate', preserve: [], notes: '' });
+    expect(result).toEqual({ images: [{ base64Image: 'b3V0', mimeType: 'image/png' }] });
+  });
+
+  it('sends the mask and the inpainting instructions together', async () => {
+    const fetchMock = respond(200, { image: 'b3V0' });
+    await postRetouch('/retouch', { ...request, mask: { base64Image: 'bWFzaw==', mimeType: 'image/png' } });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(body).toMatchObject({ mask: 'bWFzaw==', maskMimeType: 'image/png' });
+    expect(body.prompt).toContain('INPAINTING');
+  });
+
+  it('falls back to the request mime type', async () => {
+    respond(200, { image: 'b3V0' });
+    expect(await postRetouch('/retouch', request)).toEqual({ images: [{ base64Image: 'b3V0', mimeType: 'image/jpeg' }] });
+  });
+
+  it('accepts several candidates and skips entries without an image', async () => {
+    respond(200, { images: [{ image: 'b25l' }, { mimeType: 'image/png' }, { image: 'dHdv', mimeType: 'image/webp' }] });
+    expect(await postRetouch('/retouch', request)).toEqual({
+      images: [{ base64Image: 'b25l', mimeType: 'image/jpeg' }, { base64Image: 'dHdv', mimeType: 'image/webp' }]
+    });
+  });
+
+  it('classifies error statuses', async () => {
+    respond(503, {});
+    const error = await failure(postRetouch('/retouch', request));
+    expect(error.kind).toBe('server');
+    expect(error.status).toBe(503);
+    expect(error.detail).toMatch(/responded with 503/);
+
+    respond(422, {});
+    expect((await failure(postRetouch('/retouch', request))).kind).toBe('safety');
+    respond(404, {});
+    expect((await failure(postRetouch('/retouch', request))).kind).toBe('unknown');
+  });
+
+  it('fails with noImage when the answer has no image', async () => {
+    respond(200, { mimeType: 'image/png' });
+    expect((await failure(postRetouch('/retouch', request))).kind).toBe('noImage');
+  });
+
+  it('fails with noImage and keeps the diagnostics when no image comes back', async () => {
+    respond(200, { images: [], finishReason: 'STOP', text: 'I cannot edit this photo.' });
+    const error = await failure(postRetouch('/retouch', request));
+    expect(error.kind).toBe('noImage');
+    expect(error.diagnostics).toEqual({ finishReason: 'STOP', safetyRatings: [], text: 'I cannot edit this photo.' });
+  });
+
+  it('reads the safety ratings of a 422 refusal', async () => {
+    respond(422, {
+      finishReason: 'IMAGE_SAFETY',
+      safetyRatings: [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true }, null],
+    });
+    const error = await failure(postRetouch('/retouch', request));
+    expect(error.kind).toBe('safety');
+    expect(error.diagnostics?.safetyRatings).toEqual([
+      { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true },
+      { category: '', probability: '', blocked: false },
+    ]);
+  });
+
+  it('prefers a known error code from the body over the status', async () => {
+    respond(503, { error: 'GEMINI_API_KEY is not set on the server.', code: 'notConfigured' });
+    const error = await failure(postRetouch('/retouch', request));
+    expect(error.kind).toBe('notConfigured');
+    expect(error.detail).toContain('GEMINI_API_KEY is not set on the server.');
+
+    respond(429, { code: 'somethingElse' });
+    expect((await failure(postRetouch('/retouch', request))).kind).toBe('quota');
+  });
+
+  it('copes with an error response that is not JSON', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Bad gateway', { status: 502 })));
+    const error = await failure(postRetouch('/retouch', request));
+    expect(error.kind).toBe('server');
+    expect(error.diagnostics).toBeUndefined();
+  });
+
+  it('passes the abort signal to fetch', async () => {
+    const fetchMock = respond(200, { image: 'b3V0' });
+    const controller = new AbortController();
+    await postRetouch('/retouch', { ...request, signal: controller.signal });
+    expect((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].signal).toBe(controller.signal);
+  });
+});
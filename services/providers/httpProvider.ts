@@ -0,0 +1,111 @@
+import { buildRetouchPrompt } from '../prompts';
+import { kindForStatus, RetouchError, RetouchErrorKind } from './errors';
+import { RetouchDiagnostics, RetouchImage, RetouchProvider, RetouchRequest, RetouchResult } from './types';
+
+// Error kinds an endpoint may name in the `code` of an error response
+const ERROR_CODES: RetouchErrorKind[] = ['safety', 'noImage', 'quota', 'invalidKey', 'notConfigured'];
+
+const getHttpEndpoint = (): string => process.env.RETOUCH_ENDPOINT || '';
+
+/** A property of a parsed JSON value, or undefined when it isn't an object. */
+const field = (value: unknown, key: string): unknown => (
+  value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+);
+
+/** Optional `finishReason`, `blockReason`, `safetyRatings` and `text` fields of a response body. */
+const readDiagnostics = (body: unknown): RetouchDiagnostics | undefined => {
+  const finishReason = field(body, 'finishReason');
+  const blockReason = field(body, 'blockReason');
+  const safetyRatings = field(body, 'safetyRatings');
+  const text = field(body, 'text');
+  if (finishReason === undefined && blockReason === undefined && safetyRatings === undefined && text === undefined) return undefined;
+  return {
+    finishReason: typeof finishReason === 'string' ? finishReason : undefined,
+    blockReason: typeof blockReason === 'string' ? blockReason : undefined,
+    safetyRatings: Array.isArray(safetyRatings)
+      ? safetyRatings.map((rating: unknown) => ({
+        category: String(field(rating, 'category') ?? ''),
+        probability: String(field(rating, 'probability') ?? ''),
+        blocked: Boolean(field(rating, 'blocked'))
+      }))
+      : [],
+    text: typeof text === 'string' ? text : ''
+  };
+};
+
+/**
+ * Posts the image to a retouch endpoint speaking this app's JSON protocol.
+ *
+ * The endpoint receives `{ image, mimeType, prompt, preset }` as JSON (plus `mask` and
+ * `maskMimeType` for region healing), where `prompt` is the compiled instructions and
+ * `preset` the `{ targets, strength, preserve, notes }` they were built from. It must answer
+ * with `{ image, mimeType }`, where `image` is raw base64, or with
+ * `{ images: [{ image, mimeType }] }` to return several candidates. Any response,
+ * including a 422 refusal, may add `finishReason`, `blockReason`, `safetyRatings`
+ * and `text`; error responses may name an error kind in `code`.
+ */
+export const postRetouch = async (
+  endpoint: string,
+  { base64Image, mimeType, preset, mask, signal }: RetouchRequest
+): Promise<RetouchResult> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      image: base64Image,
+      mimeType,
+      prompt: buildRetouchPrompt(preset, Boolean(mask)),
+      preset: { targets: preset.targets, strength: preset.strength, preserve: preset.preserve, notes: preset.notes },
+      ...(mask ? { mask: mask.base64Image, maskMimeType: mask.mimeType } : {})
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    const detail = `Retouch endpoint responded with ${response.status} ${response.statusText}.`;
+    // 422 is how the endpoint can say the model refused the photo
+    const body: unknown = await response.json().catch(() => null);
+    const code = field(body, 'code');
+    const error = field(body, 'error');
+    const kind = ERROR_CODES.includes(code as RetouchErrorKind) ? code as RetouchErrorKind
+      : response.status === 422 ? 'safety'
+      : kindForStatus(response.status) ?? 'unknown';
+    throw new RetouchError(kind, typeof error === 'string' ? `${detail} ${error}` : detail, {
+      status: response.status,
+      diagnostics: readDiagnostics(body)
+    });
+  }
+
+  const body: unknown = await response.json();
+  const diagnostics = readDiagnostics(body);
+  const list = field(body, 'images');
+  const entries: unknown[] = Array.isArray(list) ? list : [body];
+  const images: RetouchImage[] = entries.flatMap(entry => {
+    const image = field(entry, 'image');
+    const entryMimeType = field(entry, 'mimeType');
+    return typeof image === 'string'
+      ? [{ base64Image: image, mimeType: typeof entryMimeType === 'string' ? entryMimeType : mimeType }]
+      : [];
+  });
+
+  if (images.length === 0) {
+    throw new RetouchError('noImage', "No image data returned from the retouch endpoint.", { diagnostics });
+  }
+  return { images, diagnostics };
+};
+
+const retouch = async (request: RetouchRequest): Promise<RetouchResult> => {
+  const endpoint = getHttpEndpoint();
+  if (!endpoint) {
+    throw new RetouchError('notConfigured', "No retouch endpoint configured. Set RETOUCH_ENDPOINT or choose another provider.");
+  }
+  return postRetouch(endpoint, request);
+};
+
+export const httpProvider: RetouchProvider = {
+  id: 'http',
+  label: 'HTTP Endpoint',
+  description: 'Custom retouch server',
+  isConfigured: () => Boolean(getHttpEndpoint()),
+  retouch
+};
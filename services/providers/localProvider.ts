@@ -0,0 +1,51 @@
+import { base64ToBlob, blobToBase64, canvasToBlob, createCanvas, loadImage } from '../../utils/imageHelpers';
+import { inpaint } from '../../utils/inpaint';
+import { RetouchError } from './errors';
+import { RetouchProvider, RetouchRequest, RetouchResult } from './types';
+
+/**
+ * Client-side healing brush: fills the masked spots with frequency-separation
+ * inpainting, so marked blemishes can be fixed with no key or network at all.
+ * It only works on a mask, i.e. through "Heal Selected" / "Heal Offline".
+ */
+const retouch = async ({ base64Image, mimeType, mask }: RetouchRequest): Promise<RetouchResult> => {
+  if (!mask) {
+    throw new RetouchError('notConfigured', "The local healer only fills marked spots. Switch to Manual mode, mark the blemishes and use Heal Offline.");
+  }
+
+  const [img, maskImg] = await Promise.all([
+    loadImage(base64ToBlob(base64Image, mimeType)),
+    loadImage(base64ToBlob(mask.base64Image, mask.mimeType))
+  ]);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0);
+  const image = ctx.getImageData(0, 0, width, height);
+
+  // The mask is white on black, so any channel gives the coverage
+  const [, maskCtx] = createCanvas(width, height);
+  maskCtx.drawImage(maskImg, 0, 0, width, height);
+  const maskData = maskCtx.getImageData(0, 0, width, height).data;
+  const coverage = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = maskData[i * 4];
+  }
+
+  inpaint(image, coverage);
+  ctx.putImageData(image, 0, 0);
+
+  return {
+    images: [{ base64Image: await blobToBase64(await canvasToBlob(canvas, 'image/png')), mimeType: 'image/png' }]
+  };
+};
+
+export const localProvider: RetouchProvider = {
+  id: 'local',
+  label: 'Local Healing',
+  description: 'Offline healing brush for marked spots',
+  isConfigured: () => true,
+  masksOnly: true,
+  retouch
+};
@@ -0,0 +1,52 @@
+import { base64ToBlob, blobToBase64, canvasToBlob, createCanvas, loadImage } from '../../utils/imageHelpers';
+import { RetouchProvider, RetouchRequest, RetouchResult } from './types';
+
+// Pixels differing from their blurred neighbourhood by more than this are
+// treated as edges (eyes, hair, outlines) and left alone.
+const EDGE_THRESHOLD = 28;
+const SMOOTHING = 0.65;
+
+/**
+ * Deterministic offline "retouch" for developing the Editor without a key or network.
+ * It applies an edge-aware low-pass so small blemishes fade while outlines stay put,
+ * and always returns an image with the exact input dimensions.
+ */
+const retouch = async ({ base64Image, mimeType }: RetouchRequest): Promise<RetouchResult> => {
+  const img = await loadImage(base64ToBlob(base64Image, mimeType));
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0);
+  const original = ctx.getImageData(0, 0, width, height);
+
+  const [, blurCtx] = createCanvas(width, height);
+  const radius = Math.max(2, Math.round(Math.min(width, height) / 200));
+  blurCtx.filter = `blur(${radius}px)`;
+  blurCtx.drawImage(img, 0, 0);
+  const blurred = blurCtx.getImageData(0, 0, width, height);
+
+  const out = original.data;
+  const low = blurred.data;
+  for (let i = 0; i < out.length; i += 4) {
+    const diff = (Math.abs(out[i] - low[i]) + Math.abs(out[i + 1] - low[i + 1]) + Math.abs(out[i + 2] - low[i + 2])) / 3;
+    if (diff > EDGE_THRESHOLD) continue;
+    const weight = SMOOTHING * (1 - diff / EDGE_THRESHOLD);
+    out[i] += (low[i] - out[i]) * weight;
+    out[i + 1] += (low[i + 1] - out[i + 1]) * weight;
+    out[i + 2] += (low[i + 2] - out[i + 2]) * weight;
+  }
+  ctx.putImageData(original, 0, 0);
+
+  return {
+    images: [{ base64Image: await blobToBase64(await canvasToBlob(canvas, 'image/png')), mimeType: 'image/png' }]
+  };
+};
+
+export const mockProvider: RetouchProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  description: 'Local deterministic result, no network',
+  isConfigured: () => true,
+  retouch
+};
@@ -0,0 +1,61 @@
+import { PromptOptions } from '../prompts';
+
+export type RetouchProviderId = 'gemini' | 'http' | 'mock' | 'local';
+
+export interface RetouchImage {
+  base64Image: string;
+  mimeType: string;
+}
+
+export interface RetouchRequest {
+  base64Image: string; // Raw base64, without the data URL prefix
+  mimeType: string;
+  /** The selected preset's options; providers that take text compile them with buildRetouchPrompt. */
+  preset: PromptOptions;
+  /**
+   * Inpainting mask at the image's size, white where pixels should be regenerated.
+   * Providers that can't inpaint may ignore it; the result is clipped to it anyway.
+   */
+  mask?: RetouchImage;
+  /** Aborted on cancellation or timeout; providers should stop work and reject. */
+  signal?: AbortSignal;
+}
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked: boolean;
+}
+
+/** What the model reported besides images; this is where refusals are explained. */
+export interface RetouchDiagnostics {
+  /** Why generation stopped, e.g. 'STOP', 'SAFETY' or 'IMAGE_SAFETY'. */
+  finishReason?: string;
+  /** Set when the request was blocked before anything was generated. */
+  blockReason?: string;
+  safetyRatings: SafetyRating[];
+  /** Text parts of the response, joined. */
+  text: string;
+}
+
+export interface RetouchResult {
+  /** Every image in the response; models may return more than one candidate. */
+  images: RetouchImage[];
+  diagnostics?: RetouchDiagnostics;
+}
+
+/**
+ * A backend capable of retouching a face image.
+ * Implementations must return an image with the same framing as the input, and
+ * should reject with a RetouchError when they can tell what went wrong.
+ */
+export interface RetouchProvider {
+  id: RetouchProviderId;
+  label: string;
+  description: string;
+  /** Whether the provider has everything it needs (keys, endpoints) to run. */
+  isConfigured: () => boolean;
+  /** Only fills inpainting masks, so it's offered for healing marked spots but not as the engine. */
+  masksOnly?: boolean;
+  retouch: (request: RetouchRequest) => Promise<RetouchResult>;
+}
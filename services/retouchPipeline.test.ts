@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { registerImage, solidImage } from '../test/fakeCanvas';
+import { Spot } from '../types';
+import { circleShape } from '../utils/spotShape';
+import { RetouchError } from './providers/errors';
+import { retouchRegions } from './retouchPipeline';
+import { processFaceImage } from './retouchService';
+
+vi.mock('../utils/imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+vi.mock('./retouchService', () => ({ processFaceImage: vi.fn() }));
+
+const retouch = vi.mocked(processFaceImage);
+
+// Far enough apart that each spot is sent as its own region
+const spots: Spot[] = [100, 600, 1100].map(x => ({ id: `spot-${x}`, shape: circleShape({ x, y: 200 }, 10), hardness: 1 }));
+
+afterEach(() => {
+  retouch.mockReset();
+});
+
+describe('retouchRegions', () => {
+  it('stops at the first failure and aborts the requests still in flight', async () => {
+    const signals: AbortSignal[] = [];
+    let secondStarted = () => {};
+    retouch.mockImplementation((_image, _mimeType, _providerId, _preset, _mask, options) => {
+      const signal = options!.signal!;
+      signals.push(signal);
+      // The first region fails once the second one is under way
+      if (signals.length === 1) return new Promise((_, reject) => { secondStarted = () => reject(new RetouchError('quota')); });
+      secondStarted();
+      return new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(new RetouchError('cancelled')));
+      });
+    });
+
+    const original = registerImage(solidImage(1200, 400, [200, 160, 140, 255]));
+    const result = retouchRegions(original, { providerId: 'mock', spots, strokes: [] });
+    await expect(result).rejects.toMatchObject({ kind: 'quota' });
+
+    // Two ran side by side; the third region never started
+    expect(retouch).toHaveBeenCalledTimes(2);
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it('aborts every request when the caller cancels', async () => {
+    const controller = new AbortController();
+    retouch.mockImplementation((_image, _mimeType, _providerId, _preset, _mask, options) => new Promise((_, reject) => {
+      options!.signal!.addEventListener('abort', () => reject(new RetouchError('cancelled')));
+    }));
+
+    const original = registerImage(solidImage(1200, 400, [200, 160, 140, 255]));
+    const result = retouchRegions(original, { providerId: 'mock', spots, strokes: [], signal: controller.signal });
+    await vi.waitFor(() => expect(retouch).toHaveBeenCalledTimes(2));
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(retouch).toHaveBeenCalledTimes(2);
+  });
+});
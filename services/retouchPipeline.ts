@@ -0,0 +1,398 @@
+import { BrushStroke, Spot } from '../types';
+import { alignToOriginal } from '../utils/alignment';
+import { applyMask, maskShapeBounds, renderManualMask } from '../utils/brushMask';
+import { base64ToBlob, blobToBase64, Canvas, canvasToBlob, canvasToObjectUrl, createCanvas, getContext2D, loadImage, revokeObjectUrl, urlToBlob } from '../utils/imageHelpers';
+import { checkQuality, QualityReport } from '../utils/qualityCheck';
+import { SkinMask } from '../utils/skinMask';
+import { featherTile, growRect, mergeRects, padRect, planTiles, Rect, Tile } from '../utils/tiling';
+import { PromptOptions } from './prompts';
+import { processFaceImage } from './retouchService';
+import { isCancelled, RetouchError, toRetouchError } from './providers/errors';
+import { RetouchImage, RetouchProviderId } from './providers/types';
+
+// Working copies whose long edge exceeds this are processed in tiles at the working resolution
+const TILING_THRESHOLD = 1536;
+const TILE_SIZE = 1024;
+const TILE_OVERLAP = 128;
+const TILE_CONCURRENCY = 2;
+// Margin kept around the detected face so feathered tile edges land outside the skin
+const FACE_PADDING = 0.15;
+// Context sent around each healed region, as a fraction of its size, and the smallest crop
+const REGION_CONTEXT = 1;
+const MIN_REGION_SIZE = 256;
+
+export interface RetouchProgress {
+  done: number;
+  total: number;
+}
+
+export interface PipelineResult {
+  /** Processed layer at the original's exact size as an object URL, or null if the result was rejected. */
+  image: string | null;
+  /** Further aligned images from the same response, when the model returned several. */
+  extras: string[];
+  /** Warning for the user (realignment, rejected tiles), if any. */
+  notice: string | null;
+  /** Set when the whole result had to be discarded. */
+  error: string | null;
+  /** Quality checks for `image` followed by each of `extras`. */
+  quality: QualityReport[];
+  /** The provider error behind `error`, when the request itself failed. */
+  failure?: RetouchError;
+}
+
+interface PipelineOptions {
+  providerId: RetouchProviderId;
+  /** Options of the selected preset; the built-in default when omitted. */
+  preset?: PromptOptions;
+  /** Segmentation of the original: large photos only send its face box, and the quality checks compare everything else. */
+  skinMask?: SkinMask | null;
+  /** Send only the padded face box, whatever the photo's size; backgrounds and bystanders often trip safety filters. */
+  cropToFace?: boolean;
+  onProgress?: (progress: RetouchProgress) => void;
+  /** Cancels every outstanding request. */
+  signal?: AbortSignal;
+}
+
+// Images cross into base64 only here, at the provider boundary, and come straight back out as Blobs
+const toProvider = async (blob: Blob): Promise<RetouchImage> => ({
+  base64Image: await blobToBase64(blob),
+  mimeType: blob.type || 'image/png',
+});
+
+const fromProvider = (image: RetouchImage): Blob => base64ToBlob(image.base64Image, image.mimeType);
+
+const releaseUrls = (urls: (string | null)[]) => {
+  urls.forEach(url => url && revokeObjectUrl(url));
+};
+
+/** Frees the object URLs of a result that won't be shown. */
+const releaseResult = (result: PipelineResult) => {
+  releaseUrls([result.image, ...result.extras, ...result.quality.map(report => report.overlay)]);
+};
+
+const retouchSingle = async (originalImage: string, { providerId, preset, skinMask, onProgress, signal }: PipelineOptions): Promise<PipelineResult> => {
+  onProgress?.({ done: 0, total: 1 });
+  const request = await toProvider(await urlToBlob(originalImage));
+  const result = await processFaceImage(request.base64Image, request.mimeType, providerId, preset, undefined, { signal });
+  onProgress?.({ done: 1, total: 1 });
+
+  // Reconcile size and framing so preview and export blend pixel for pixel
+  const alignments = await Promise.all(result.images.map(image => alignToOriginal(originalImage, fromProvider(image))));
+  const accepted = alignments.filter(alignment => alignment.status !== 'rejected' && alignment.image);
+  if (accepted.length === 0) {
+    return { image: null, extras: [], notice: null, error: alignments[0].message, quality: [] };
+  }
+  const corrected = accepted.find(alignment => alignment.status === 'corrected');
+  const quality = await Promise.all(accepted.map(alignment => (
+    checkQuality(originalImage, alignment.image as string, { transform: alignment.transform, skinMask })
+  )));
+  return {
+    image: accepted[0].image,
+    extras: accepted.slice(1).map(alignment => alignment.image as string),
+    notice: corrected ? corrected.message : null,
+    error: null,
+    quality,
+  };
+};
+
+/**
+ * Small worker pool so large photos don't fire dozens of requests at once. The first
+ * failure stops it: no further tasks start, the ones in flight are aborted through
+ * the signal they're given, and that failure is rethrown once they've settled.
+ */
+const runPool = async (
+  count: number,
+  task: (index: number, signal: AbortSignal) => Promise<void>,
+  { onProgress, signal }: Pick<PipelineOptions, 'onProgress' | 'signal'>
+) => {
+  const controller = new AbortController();
+  const handleAbort = () => controller.abort();
+  signal?.addEventListener('abort', handleAbort, { once: true });
+  if (signal?.aborted) controller.abort();
+
+  let done = 0;
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+  onProgress?.({ done, total: count });
+
+  const worker = async () => {
+    while (next < count && !failure) {
+      try {
+        await task(next++, controller.signal);
+        onProgress?.({ done: ++done, total: count });
+      } catch (error) {
+        failure ??= { error };
+        controller.abort();
+      }
+    }
+  };
+  try {
+    await Promise.all(Array.from({ length: Math.min(TILE_CONCURRENCY, count) }, worker));
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+  }
+  if (failure) throw failure.error;
+};
+
+const retouchTile = async (
+  source: HTMLImageElement,
+  tile: Tile,
+  { providerId, preset }: PipelineOptions,
+  signal: AbortSignal
+): Promise<string | null> => {
+  const [canvas, ctx] = createCanvas(tile.width, tile.height);
+  ctx.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+  const tileBlob = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+
+  const request = await toProvider(tileBlob);
+  const result = await processFaceImage(request.base64Image, request.mimeType, providerId, preset, undefined, { signal });
+  const [image] = result.images;
+  const alignment = await alignToOriginal(tileBlob, fromProvider(image));
+  return alignment.status === 'rejected' ? null : alignment.image;
+};
+
+const retouchTiled = async (
+  originalImage: string,
+  source: HTMLImageElement,
+  region: Rect,
+  options: PipelineOptions
+): Promise<PipelineResult> => {
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+  const tiles = planTiles(region, TILE_SIZE, TILE_OVERLAP);
+  const results: (string | null)[] = new Array(tiles.length).fill(null);
+
+  await runPool(tiles.length, async (index, signal) => {
+    results[index] = await retouchTile(source, tiles[index], options, signal);
+  }, options).catch(err => {
+    releaseUrls(results);
+    throw err;
+  });
+
+  const rejected = results.filter(r => r === null).length;
+  if (rejected === tiles.length) {
+    return { image: null, extras: [], notice: null, error: "None of the image tiles could be aligned with the original. Please try again.", quality: [] };
+  }
+
+  // Feather every tile back into the full-resolution original, in raster order
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0);
+  for (let i = 0; i < tiles.length; i++) {
+    const tileResult = results[i];
+    if (!tileResult) continue;
+    const tile = tiles[i];
+    const tileImg = await loadImage(tileResult);
+    revokeObjectUrl(tileResult);
+    ctx.drawImage(featherTile(tileImg, tile, width, height, TILE_OVERLAP), tile.x, tile.y);
+  }
+
+  const { type } = await urlToBlob(originalImage);
+  const image = await canvasToObjectUrl(canvas, type === 'image/png' ? 'image/png' : 'image/jpeg', 0.95);
+  return {
+    image,
+    extras: [],
+    notice: rejected > 0 ? `${rejected} of ${tiles.length} tiles didn't line up and were left unretouched.` : null,
+    error: null,
+    quality: [await checkQuality(originalImage, image, { skinMask: options.skinMask })],
+  };
+};
+
+/**
+ * Runs the full retouch pipeline for an image: large photos are cropped to the face
+ * (when one was detected) and split into overlapping tiles, smaller ones go to the
+ * provider in one request unless `cropToFace` is set. Either way the returned layer
+ * is aligned to the original's pixel grid.
+ *
+ * `originalImage` is the working copy, capped at WORKING_LONG_EDGE (3072 px), so the
+ * provider never sees finer detail than that, tiled or not. Detail beyond the cap
+ * comes back at export, which adds the layer's change to the full-resolution source.
+ */
+export const retouchImage = async (originalImage: string, options: PipelineOptions): Promise<PipelineResult> => {
+  const source = await loadImage(originalImage);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+
+  const cropped = options.cropToFace && !!options.skinMask;
+  if (Math.max(width, height) <= TILING_THRESHOLD && !cropped) {
+    return retouchSingle(originalImage, options);
+  }
+  const region = options.skinMask
+    ? padRect(options.skinMask.faceBox, FACE_PADDING, width, height)
+    : { x: 0, y: 0, width, height };
+  return retouchTiled(originalImage, source, region, options);
+};
+
+const hasCoverage = (mask: Canvas, region: Rect): boolean => {
+  const ctx = getContext2D(mask);
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(region.x, region.y, region.width, region.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+/** Sends one region crop with its mask and returns the aligned result, or null if it was rejected. */
+const retouchRegion = async (
+  source: HTMLImageElement,
+  mask: Canvas,
+  region: Rect,
+  { providerId, preset }: PipelineOptions,
+  signal: AbortSignal
+): Promise<string | null> => {
+  const [canvas, ctx] = createCanvas(region.width, region.height);
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+  const crop = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+
+  // Opaque black and white copy of the mask for the model
+  const [maskCanvas, maskCtx] = createCanvas(region.width, region.height);
+  maskCtx.fillStyle = '#000';
+  maskCtx.fillRect(0, 0, region.width, region.height);
+  maskCtx.drawImage(mask, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+
+  const request = await toProvider(crop);
+  const result = await processFaceImage(
+    request.base64Image,
+    request.mimeType,
+    providerId,
+    preset,
+    await toProvider(await canvasToBlob(maskCanvas, 'image/png')),
+    { signal }
+  );
+  const [image] = result.images;
+  const alignment = await alignToOriginal(crop, fromProvider(image));
+  return alignment.status === 'rejected' ? null : alignment.image;
+};
+
+/**
+ * "Heal selected": only the marked spots and painted areas are sent to the provider,
+ * each as a crop with some surrounding context and an inpainting mask. The results
+ * are clipped to the mask, so every other pixel of the layer is the original's.
+ */
+export const retouchRegions = async (
+  originalImage: string,
+  { spots, strokes, ...options }: PipelineOptions & { spots: Spot[]; strokes: BrushStroke[] }
+): Promise<PipelineResult> => {
+  const source = await loadImage(originalImage);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+  const mask = renderManualMask(width, height, spots, strokes, width, height);
+
+  const regions = mergeRects(maskShapeBounds(width, height, spots, strokes).map(rect => (
+    growRect(padRect(rect, REGION_CONTEXT, width, height), MIN_REGION_SIZE, width, height)
+  ))).filter(region => hasCoverage(mask, region));
+  if (regions.length === 0) {
+    return { image: null, extras: [], notice: null, error: "Mark at least one spot or paint an area to heal.", quality: [] };
+  }
+
+  const results: (string | null)[] = new Array(regions.length).fill(null);
+  await runPool(regions.length, async (index, signal) => {
+    results[index] = await retouchRegion(source, mask, regions[index], options, signal);
+  }, options).catch(err => {
+    releaseUrls(results);
+    throw err;
+  });
+
+  const rejected = results.filter(r => r === null).length;
+  if (rejected === regions.length) {
+    return { image: null, extras: [], notice: null, error: "None of the healed regions could be aligned with the original. Please try again.", quality: [] };
+  }
+
+  // PNG keeps the untouched pixels bit-identical to the decoded original; being clipped to the mask, it needs no quality checks
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0);
+  for (let i = 0; i < regions.length; i++) {
+    const regionResult = results[i];
+    if (!regionResult) continue;
+    const { x, y, width: w, height: h } = regions[i];
+    const [regionMask, regionMaskCtx] = createCanvas(w, h);
+    regionMaskCtx.drawImage(mask, x, y, w, h, 0, 0, w, h);
+    const regionImg = await loadImage(regionResult);
+    revokeObjectUrl(regionResult);
+    ctx.drawImage(applyMask(regionImg, regionMask, w, h), x, y);
+  }
+
+  return {
+    image: await canvasToObjectUrl(canvas, 'image/png'),
+    extras: [],
+    notice: rejected > 0 ? `${rejected} of ${regions.length} regions didn't line up and were left unretouched.` : null,
+    error: null,
+    quality: [],
+  };
+};
+
+export interface VariantsResult {
+  images: string[];
+  /** Quality checks, one per image. */
+  quality: QualityReport[];
+  notices: string[];
+  errors: string[];
+  /** Provider errors of the failed runs, with the model's diagnostics. */
+  failures: RetouchError[];
+}
+
+const flagged = (result: PipelineResult) => result.quality.reduce((sum, report) => sum + report.issues.length, 0);
+
+/**
+ * Runs the pipeline `count` times, in parallel or one after another, and collects every
+ * aligned image (including extra candidates from a single response) as a variant.
+ * Runs that fail the quality checks are repeated up to `retries` times, keeping the
+ * attempt with the fewest issues.
+ */
+export const retouchVariants = async (
+  originalImage: string,
+  { count, parallel, retries = 0, ...options }: PipelineOptions & { count: number; parallel: boolean; retries?: number }
+): Promise<VariantsResult> => {
+  const progress: RetouchProgress[] = Array.from({ length: count }, () => ({ done: 0, total: 1 }));
+  const report = (index: number, value: RetouchProgress) => {
+    progress[index] = value;
+    options.onProgress?.({
+      done: progress.reduce((sum, p) => sum + p.done, 0),
+      total: progress.reduce((sum, p) => sum + p.total, 0),
+    });
+  };
+
+  let retried = 0;
+  // Cancellation ends the whole batch of runs; other failures only cost their own run
+  const attempt = (index: number) => retouchImage(originalImage, { ...options, onProgress: p => report(index, p) })
+    .catch((err: unknown): PipelineResult => {
+      if (isCancelled(err)) throw err;
+      const failure = toRetouchError(err);
+      return { image: null, extras: [], notice: null, error: failure.message, quality: [], failure };
+    });
+  const runOne = async (index: number) => {
+    let best = await attempt(index);
+    for (let retry = 0; retry < retries && best.image && flagged(best) > 0; retry++) {
+      retried++;
+      const next = await attempt(index);
+      if (next.image && flagged(next) < flagged(best)) {
+        releaseResult(best);
+        best = next;
+      } else {
+        releaseResult(next);
+      }
+    }
+    return best;
+  };
+
+  const results: PipelineResult[] = [];
+  if (parallel) {
+    results.push(...await Promise.all(Array.from({ length: count }, (_, i) => runOne(i))));
+  } else {
+    for (let i = 0; i < count; i++) {
+      results.push(await runOne(i));
+    }
+  }
+
+  return {
+    images: results.flatMap(result => (result.image ? [result.image, ...result.extras] : [])),
+    quality: results.flatMap(result => (result.image ? result.quality : [])),
+    notices: [
+      ...results.flatMap(result => (result.notice ? [result.notice] : [])),
+      ...(retried > 0 ? [`Retried ${retried} time(s) after results failed the quality checks.`] : []),
+    ],
+    errors: results.flatMap(result => (result.error ? [result.error] : [])),
+    failures: results.flatMap(result => (result.failure ? [result.failure] : [])),
+  };
+};
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRESET } from './prompts';
+import { geminiProvider } from './providers/geminiProvider';
+import { RetouchError } from './providers/errors';
+import { httpProvider } from './providers/httpProvider';
+import { getActiveProviderId, listProviders, processFaceImage, setActiveProviderId } from './retouchService';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe('provider selection', () => {
+  it('lists the engines, leaving out the mask-only local healer', () => {
+    expect(listProviders().map(provider => provider.id)).toEqual(['gemini', 'http', 'mock']);
+  });
+
+  it('prefers Gemini when it has a key, else the offline mock', () => {
+    const configured = vi.spyOn(geminiProvider, 'isConfigured').mockReturnValue(true);
+    expect(getActiveProviderId()).toBe('gemini');
+    configured.mockReturnValue(false);
+    expect(getActiveProviderId()).toBe('mock');
+  });
+
+  it("remembers the user's choice and ignores unknown or mask-only stored ids", () => {
+    vi.spyOn(geminiProvider, 'isConfigured').mockReturnValue(false);
+    setActiveProviderId('http');
+    expect(getActiveProviderId()).toBe('http');
+    localStorage.setItem('dermafix.provider', 'retired-engine');
+    expect(getActiveProviderId()).toBe('mock');
+    localStorage.setItem('dermafix.provider', 'local');
+    expect(getActiveProviderId()).toBe('mock');
+  });
+});
+
+const OUTPUT = { images: [{ base64Image: 'b3V0', mimeType: 'image/png' }] };
+
+describe('processFaceImage', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('sends the image with the default preset to the chosen provider', async () => {
+    const retouch = vi.spyOn(httpProvider, 'retouch').mockResolvedValue(OUTPUT);
+    const result = await processFaceImage('aW4=', 'image/jpeg', 'http');
+
+    expect(retouch).toHaveBeenCalledWith(expect.objectContaining({ base64Image: 'aW4=', mimeType: 'image/jpeg', preset: DEFAULT_PRESET }));
+    expect(result).toEqual(OUTPUT);
+  });
+
+  it('retries transient failures with backoff', async () => {
+    vi.useFakeTimers();
+    const retouch = vi.spyOn(httpProvider, 'retouch')
+      .mockRejectedValueOnce(new RetouchError('server'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(OUTPUT);
+
+    const result = processFaceImage('aW4=', 'image/jpeg', 'http');
+    await vi.runAllTimersAsync();
+    expect(await result).toEqual(OUTPUT);
+    expect(retouch).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry and on permanent failures', async () => {
+    vi.useFakeTimers();
+    const retouch = vi.spyOn(httpProvider, 'retouch').mockRejectedValue(new RetouchError('quota'));
+    const result = processFaceImage('aW4=', 'image/jpeg', 'http', DEFAULT_PRESET, undefined, { retries: 2 });
+    const settled = expect(result).rejects.toMatchObject({ kind: 'quota' });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(retouch).toHaveBeenCalledTimes(3);
+
+    retouch.mockReset().mockRejectedValue(new RetouchError('safety'));
+    await expect(processFaceImage('aW4=', 'image/jpeg', 'http')).rejects.toMatchObject({ kind: 'safety' });
+    expect(retouch).toHaveBeenCalledTimes(1);
+  });
+
+  it('explains right away that the local healer needs marked spots', async () => {
+    await expect(processFaceImage('aW4=', 'image/jpeg', 'local')).rejects.toMatchObject({ kind: 'notConfigured' });
+  });
+
+  it('aborts an attempt that takes longer than the timeout', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(httpProvider, 'retouch').mockImplementation(({ signal }) => new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    const result = processFaceImage('aW4=', 'image/jpeg', 'http', DEFAULT_PRESET, undefined, { timeoutMs: 5000, retries: 0 });
+    const settled = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    await vi.advanceTimersByTimeAsync(5000);
+    await settled;
+  });
+
+  it('reports cancellation instead of retrying', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const retouch = vi.spyOn(httpProvider, 'retouch').mockRejectedValue(new RetouchError('network'));
+    const result = processFaceImage('aW4=', 'image/jpeg', 'http', DEFAULT_PRESET, undefined, { signal: controller.signal });
+    const settled = expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await settled;
+    expect(retouch).toHaveBeenCalledTimes(1);
+  });
+});
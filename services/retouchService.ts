@@ -0,0 +1,131 @@
+import { DEFAULT_PRESET, PromptOptions } from './prompts';
+import { geminiProvider } from './providers/geminiProvider';
+import { httpProvider } from './providers/httpProvider';
+import { localProvider } from './providers/localProvider';
+import { mockProvider } from './providers/mockProvider';
+import { RetouchError, toRetouchError } from './providers/errors';
+import { RetouchImage, RetouchProvider, RetouchProviderId, RetouchRequest, RetouchResult } from './providers/types';
+
+const PROVIDER_STORAGE_KEY = 'dermafix.provider';
+const DEFAULT_TIMEOUT_MS = 120_000;
+const MAX_RETRIES = 3;
+// Backoff doubles from this, with up to as much again of random jitter
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface RequestOptions {
+  /** Aborts the request, including any pending retry. */
+  signal?: AbortSignal;
+  /** Per attempt; defaults to RETOUCH_TIMEOUT (seconds) or two minutes. */
+  timeoutMs?: number;
+  /** Extra attempts after transient failures (network, timeouts, rate limits, server errors). */
+  retries?: number;
+}
+
+const PROVIDERS: Record<RetouchProviderId, RetouchProvider> = {
+  gemini: geminiProvider,
+  http: httpProvider,
+  mock: mockProvider,
+  local: localProvider
+};
+
+// Providers that can retouch a whole image, i.e. the ones the engine can be set to
+const isEngineId = (value: string | null | undefined): value is RetouchProviderId => {
+  return !!value && value in PROVIDERS && !PROVIDERS[value as RetouchProviderId].masksOnly;
+};
+
+/** The engines to choose from; mask-only providers are reached through their own actions. */
+export const listProviders = (): RetouchProvider[] => Object.values(PROVIDERS).filter(provider => !provider.masksOnly);
+
+/**
+ * Resolves the provider to use: the user's last choice, then RETOUCH_PROVIDER,
+ * then Gemini if a key is present, otherwise the offline mock.
+ */
+export const getActiveProviderId = (): RetouchProviderId => {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (isEngineId(stored)) return stored;
+  if (isEngineId(process.env.RETOUCH_PROVIDER)) return process.env.RETOUCH_PROVIDER;
+  return geminiProvider.isConfigured() ? 'gemini' : 'mock';
+};
+
+export const setActiveProviderId = (id: RetouchProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+const defaultTimeout = (): number => {
+  const seconds = Number(process.env.RETOUCH_TIMEOUT);
+  return seconds > 0 ? seconds * 1000 : DEFAULT_TIMEOUT_MS;
+};
+
+/** Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts. */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new RetouchError('cancelled'));
+    return;
+  }
+  const handleAbort = () => {
+    window.clearTimeout(timer);
+    reject(new RetouchError('cancelled'));
+  };
+  const timer = window.setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/** One provider call under its own timeout, linked to the caller's signal. */
+const attempt = async (provider: RetouchProvider, request: Omit<RetouchRequest, 'signal'>, timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const handleAbort = () => controller.abort();
+  signal?.addEventListener('abort', handleAbort, { once: true });
+  try {
+    return await provider.retouch({ ...request, signal: controller.signal });
+  } catch (error) {
+    if (signal?.aborted) throw new RetouchError('cancelled');
+    if (timedOut) throw new RetouchError('timeout', `No answer after ${Math.round(timeoutMs / 1000)}s.`);
+    throw toRetouchError(error);
+  } finally {
+    window.clearTimeout(timer);
+    signal?.removeEventListener('abort', handleAbort);
+  }
+};
+
+/**
+ * Sends the image to the selected retouch provider to remove blemishes while keeping texture.
+ * Transient failures are retried with exponential backoff; every failure surfaces as a
+ * RetouchError whose message is ready to show.
+ *
+ * @param base64Image The base64 encoded string of the image (without the data URL prefix).
+ * @param mimeType The mime type of the image (e.g., 'image/jpeg').
+ * @param providerId The provider to use; defaults to the active one.
+ * @param preset Options of the selected preset, which the retouch instructions are built from.
+ * @param mask Optional inpainting mask limiting which pixels may change.
+ * @param options Cancellation, timeout and retry settings.
+ * @returns The processed image as base64 along with its mime type.
+ */
+export const processFaceImage = async (
+  base64Image: string,
+  mimeType: string,
+  providerId: RetouchProviderId = getActiveProviderId(),
+  preset: PromptOptions = DEFAULT_PRESET,
+  mask?: RetouchImage,
+  { signal, timeoutMs = defaultTimeout(), retries = MAX_RETRIES }: RequestOptions = {}
+): Promise<RetouchResult> => {
+  const provider = PROVIDERS[providerId];
+  for (let retry = 0; ; retry++) {
+    if (signal?.aborted) throw new RetouchError('cancelled');
+    try {
+      return await attempt(provider, { base64Image, mimeType, preset, mask }, timeoutMs, signal);
+    } catch (error) {
+      const failure = error as RetouchError;
+      console.error(`${provider.label} request failed (${failure.kind}):`, failure.detail ?? failure.message);
+      if (!failure.retryable || retry >= retries) throw failure;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** retry * (1 + Math.random()), signal);
+    }
+  }
+};
@@ -0,0 +1,404 @@
+/**
+ * Just enough of the 2D canvas for the pixel code under test: nearest-neighbour
+ * drawImage with scale/translate transforms, a box-filter stand-in for
+ * `blur(Npx)`, ImageData reads and writes, and filled rects, circles and
+ * polygons in solid colours or linear and radial gradients. Paths honour any
+ * mix of translate, scale and rotate. Fills sample each pixel's centre, so
+ * edges are hard; text and strokes aren't drawn.
+ *
+ * Images are identified by string keys, like the object URLs the app passes
+ * around; `fakeImageHelpers` replaces the loading and encoding helpers in
+ * utils/imageHelpers with ones that resolve those keys, directly or through
+ * the Blobs they encode to.
+ */
+
+export type Rgba = [number, number, number, number];
+
+interface Source {
+  width: number;
+  height: number;
+  sample: (x: number, y: number) => Rgba;
+}
+
+/** A decoded image whose pixels come from a function of the pixel position. */
+export class FakeImage implements Source {
+  readonly naturalWidth: number;
+  readonly naturalHeight: number;
+
+  constructor(readonly width: number, readonly height: number, readonly pixel: (x: number, y: number) => Rgba) {
+    this.naturalWidth = width;
+    this.naturalHeight = height;
+  }
+
+  sample(x: number, y: number): Rgba {
+    return this.pixel(x, y);
+  }
+}
+
+const parseColor = (style: string): Rgba => {
+  const rgba = style.match(/rgba?\(([^)]+)\)/);
+  if (rgba) {
+    const [r, g, b, a = '1'] = rgba[1].split(',').map(part => part.trim());
+    return [Number(r), Number(g), Number(b), Math.round(Number(a) * 255)];
+  }
+  if (style.startsWith('#') && style.length === 4) {
+    return [1, 2, 3].map(i => parseInt(style[i] + style[i], 16)).concat(255) as Rgba;
+  }
+  if (style.startsWith('#') && style.length === 7) {
+    return [1, 3, 5].map(i => parseInt(style.slice(i, i + 2), 16)).concat(255) as Rgba;
+  }
+  if (style === 'white') return [255, 255, 255, 255];
+  if (style === 'black') return [0, 0, 0, 255];
+  throw new Error(`Unsupported fill style in fake canvas: ${style}`);
+};
+
+const boxBlur = (data: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sum = [0, 0, 0, 0];
+      let count = 0;
+      for (let v = Math.max(0, y - radius); v <= Math.min(height - 1, y + radius); v++) {
+        for (let u = Math.max(0, x - radius); u <= Math.min(width - 1, x + radius); u++) {
+          const i = (v * width + u) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += data[i + c];
+          count++;
+        }
+      }
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) out[i + c] = Math.round(sum[c] / count);
+    }
+  }
+  return out;
+};
+
+type Style = string | FakeGradient;
+
+/** Linear or radial (from a centre point) gradient between colour stops. */
+export class FakeGradient {
+  private stops: { offset: number; color: Rgba }[] = [];
+
+  constructor(private readonly position: (x: number, y: number) => number) {}
+
+  addColorStop(offset: number, color: string) {
+    this.stops.push({ offset, color: parseColor(color) });
+    this.stops.sort((a, b) => a.offset - b.offset);
+  }
+
+  colorAt(x: number, y: number): Rgba {
+    const t = Math.min(1, Math.max(0, this.position(x, y)));
+    const after = this.stops.findIndex(stop => stop.offset >= t);
+    if (after <= 0) return this.stops[after === 0 ? 0 : this.stops.length - 1].color;
+    const a = this.stops[after - 1];
+    const b = this.stops[after];
+    const k = b.offset === a.offset ? 1 : (t - a.offset) / (b.offset - a.offset);
+    return a.color.map((value, c) => value + (b.color[c] - value) * k) as Rgba;
+  }
+}
+
+// Point-in-shape tests for the sub-paths of the current path
+type Shape = (x: number, y: number) => boolean;
+
+const inPolygon = (points: [number, number][], x: number, y: number) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+export class FakeContext {
+  filter = 'none';
+  globalAlpha = 1;
+  globalCompositeOperation = 'source-over';
+  fillStyle: Style = '#000000';
+  imageSmoothingEnabled = true;
+  imageSmoothingQuality = 'high';
+  private matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+  private saved: { filter: string; globalAlpha: number; globalCompositeOperation: string; fillStyle: Style; matrix: FakeContext['matrix'] }[] = [];
+  private shapes: Shape[] = [];
+  private polygon: [number, number][] | null = null;
+
+  constructor(readonly canvas: FakeCanvas) {}
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.matrix = { a, b, c, d, e, f };
+  }
+
+  translate(x: number, y: number) {
+    const { a, b, c, d, e, f } = this.matrix;
+    this.matrix = { a, b, c, d, e: e + a * x + c * y, f: f + b * x + d * y };
+  }
+
+  scale(x: number, y: number) {
+    const { a, b, c, d, e, f } = this.matrix;
+    this.matrix = { a: a * x, b: b * x, c: c * y, d: d * y, e, f };
+  }
+
+  rotate(angle: number) {
+    const { a, b, c, d, e, f } = this.matrix;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.matrix = { a: a * cos + c * sin, b: b * cos + d * sin, c: c * cos - a * sin, d: d * cos - b * sin, e, f };
+  }
+
+  save() {
+    const { filter, globalAlpha, globalCompositeOperation, fillStyle, matrix } = this;
+    this.saved.push({ filter, globalAlpha, globalCompositeOperation, fillStyle, matrix });
+  }
+
+  restore() {
+    const state = this.saved.pop();
+    if (state) Object.assign(this, state);
+  }
+
+  getImageData(x: number, y: number, width: number, height: number) {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < width; u++) {
+        const pixel = this.canvas.sample(x + u, y + v);
+        data.set(pixel, (v * width + u) * 4);
+      }
+    }
+    return { width, height, data };
+  }
+
+  createImageData(width: number, height: number) {
+    return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  }
+
+  putImageData(image: { width: number; height: number; data: Uint8ClampedArray }, x: number, y: number) {
+    for (let v = 0; v < image.height; v++) {
+      for (let u = 0; u < image.width; u++) {
+        if (x + u < 0 || y + v < 0 || x + u >= this.canvas.width || y + v >= this.canvas.height) continue;
+        const from = (v * image.width + u) * 4;
+        this.canvas.data.set(image.data.subarray(from, from + 4), ((y + v) * this.canvas.width + x + u) * 4);
+      }
+    }
+  }
+
+  clearRect(x: number, y: number, width: number, height: number) {
+    this.paint(x, y, width, height, () => [0, 0, 0, 0], true);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    this.paint(x, y, width, height, this.styleAt());
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number) {
+    const length = (x1 - x0) ** 2 + (y1 - y0) ** 2;
+    return new FakeGradient((x, y) => ((x - x0) * (x1 - x0) + (y - y0) * (y1 - y0)) / length);
+  }
+
+  createRadialGradient(x0: number, y0: number, r0: number, _x1: number, _y1: number, r1: number) {
+    return new FakeGradient((x, y) => (Math.hypot(x - x0, y - y0) - r0) / (r1 - r0));
+  }
+
+  beginPath() {
+    this.shapes = [];
+    this.polygon = null;
+  }
+
+  arc(x: number, y: number, r: number) {
+    this.shapes.push((px, py) => Math.hypot(px - x, py - y) <= r);
+  }
+
+  ellipse(x: number, y: number, rx: number, ry: number, rotation: number) {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    this.shapes.push((px, py) => {
+      const u = (px - x) * cos + (py - y) * sin;
+      const v = -(px - x) * sin + (py - y) * cos;
+      return (u / rx) ** 2 + (v / ry) ** 2 <= 1;
+    });
+  }
+
+  moveTo(x: number, y: number) {
+    const points: [number, number][] = [[x, y]];
+    this.polygon = points;
+    this.shapes.push((px, py) => inPolygon(points, px, py));
+  }
+
+  lineTo(x: number, y: number) {
+    if (this.polygon) this.polygon.push([x, y]);
+    else this.moveTo(x, y);
+  }
+
+  closePath() {
+    this.polygon = null;
+  }
+
+  fill() {
+    const shapes = this.shapes;
+    const style = this.fillStyle;
+    const solid = style instanceof FakeGradient ? null : parseColor(style);
+    const transparent: Rgba = [0, 0, 0, 0];
+    // Pixel centres are taken back into the path's own coordinates
+    const { a, b, c, d, e, f } = this.matrix;
+    const det = a * d - b * c;
+    const color = (x: number, y: number): Rgba => {
+      const px = x + 0.5 - e;
+      const py = y + 0.5 - f;
+      const u = (d * px - c * py) / det;
+      const v = (a * py - b * px) / det;
+      if (!shapes.some(shape => shape(u, v))) return transparent;
+      return solid ?? (style as FakeGradient).colorAt(u, v);
+    };
+
+    const blur = this.filter.match(/blur\(([\d.]+)px\)/);
+    if (!blur) {
+      this.paint(0, 0, this.canvas.width, this.canvas.height, color);
+      return;
+    }
+    const { width, height } = this.canvas;
+    const layer = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) layer.set(color(x, y), (y * width + x) * 4);
+    }
+    const blurred = boxBlur(layer, width, height, Math.round(Number(blur[1])));
+    this.paint(0, 0, width, height, (x, y) => {
+      const i = (y * width + x) * 4;
+      return [blurred[i], blurred[i + 1], blurred[i + 2], blurred[i + 3]];
+    });
+  }
+
+  private styleAt(): (x: number, y: number) => Rgba {
+    const style = this.fillStyle;
+    if (style instanceof FakeGradient) return (x, y) => style.colorAt(x + 0.5, y + 0.5);
+    const color = parseColor(style);
+    return () => color;
+  }
+
+  drawImage(source: Source, ...args: number[]) {
+    let [sx, sy, sw, sh] = [0, 0, source.width, source.height];
+    let [dx, dy, dw, dh] = [args[0], args[1], source.width, source.height];
+    if (args.length === 4) [dx, dy, dw, dh] = args;
+    if (args.length === 8) [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+
+    const { a, d, e, f } = this.matrix;
+    const x0 = a * dx + e;
+    const y0 = d * dy + f;
+    const x1 = a * (dx + dw) + e;
+    const y1 = d * (dy + dh) + f;
+    const sampler = (x: number, y: number): Rgba => {
+      const u = Math.floor(sx + ((x + 0.5 - x0) / (x1 - x0)) * sw);
+      const v = Math.floor(sy + ((y + 0.5 - y0) / (y1 - y0)) * sh);
+      return source.sample(Math.min(source.width - 1, Math.max(0, u)), Math.min(source.height - 1, Math.max(0, v)));
+    };
+
+    const blur = this.filter.match(/blur\(([\d.]+)px\)/);
+    if (!blur) {
+      this.paint(Math.floor(x0), Math.floor(y0), Math.ceil(x1) - Math.floor(x0), Math.ceil(y1) - Math.floor(y0), sampler);
+      return;
+    }
+    // Blur what would be drawn, over the whole canvas so edges spread like the real filter
+    const layer = new FakeCanvas(this.canvas.width, this.canvas.height);
+    layer.getContext().setTransform(a, 0, 0, d, e, f);
+    layer.getContext().drawImage(source, ...args);
+    const blurred = boxBlur(layer.data, layer.width, layer.height, Math.round(Number(blur[1])));
+    this.paint(0, 0, this.canvas.width, this.canvas.height, (x, y) => {
+      const i = (y * this.canvas.width + x) * 4;
+      return [blurred[i], blurred[i + 1], blurred[i + 2], blurred[i + 3]];
+    });
+  }
+
+  private paint(x: number, y: number, width: number, height: number, color: (x: number, y: number) => Rgba, replace = false) {
+    const { data, width: cw, height: ch } = this.canvas;
+    for (let v = Math.max(0, y); v < Math.min(ch, y + height); v++) {
+      for (let u = Math.max(0, x); u < Math.min(cw, x + width); u++) {
+        const [r, g, b, alpha] = color(u, v);
+        const i = (v * cw + u) * 4;
+        const sa = (alpha / 255) * this.globalAlpha;
+        if (replace || this.globalCompositeOperation === 'copy') {
+          data.set([r, g, b, alpha], i);
+        } else if (this.globalCompositeOperation === 'destination-in') {
+          data[i + 3] = Math.round(data[i + 3] * sa);
+        } else if (this.globalCompositeOperation === 'destination-out') {
+          data[i + 3] = Math.round(data[i + 3] * (1 - sa));
+        } else {
+          const da = data[i + 3] / 255;
+          const oa = sa + da * (1 - sa);
+          for (const [c, value] of [r, g, b].entries()) {
+            data[i + c] = oa ? Math.round((value * sa + data[i + c] * da * (1 - sa)) / oa) : 0;
+          }
+          data[i + 3] = Math.round(oa * 255);
+        }
+      }
+    }
+  }
+}
+
+export class FakeCanvas implements Source {
+  data: Uint8ClampedArray;
+  private context = new FakeContext(this);
+
+  constructor(public width: number, public height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+
+  getContext() {
+    return this.context;
+  }
+
+  sample(x: number, y: number): Rgba {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return [0, 0, 0, 0];
+    const i = (y * this.width + x) * 4;
+    return [this.data[i], this.data[i + 1], this.data[i + 2], this.data[i + 3]];
+  }
+
+  /** A frozen copy, as decoding an encoded canvas would give. */
+  snapshot(): FakeImage {
+    const copy = new FakeCanvas(this.width, this.height);
+    copy.data = this.data.slice();
+    return new FakeImage(this.width, this.height, (x, y) => copy.sample(x, y));
+  }
+
+  toDataURL(): string {
+    return registerImage(this.snapshot());
+  }
+}
+
+const images = new Map<string, FakeImage>();
+
+/** Makes `image` loadable under a new key, which is returned. */
+export const registerImage = (image: FakeImage): string => {
+  const key = `fake:image/${images.size + 1}`;
+  images.set(key, image);
+  return key;
+};
+
+export const getImage = (key: string): FakeImage => {
+  const image = images.get(key);
+  if (!image) throw new Error(`No fake image registered as ${key}`);
+  return image;
+};
+
+/** An image filled with one colour. */
+export const solidImage = (width: number, height: number, color: Rgba) => new FakeImage(width, height, () => color);
+
+// Encoded fakes carry their image's key, so decoding them finds the pixels again
+const blobKeys = new WeakMap<Blob, string>();
+
+const blobFor = (key: string, mimeType: string): Blob => {
+  const blob = new Blob([], { type: mimeType });
+  blobKeys.set(blob, key);
+  return blob;
+};
+
+/** Replacements for the loading and encoding helpers in utils/imageHelpers. */
+export const fakeImageHelpers = {
+  loadImage: async (src: string | Blob) => {
+    const key = typeof src === 'string' ? src : blobKeys.get(src);
+    if (!key) throw new Error('Failed to decode image.');
+    return getImage(key);
+  },
+  createCanvas: (width: number, height: number) => {
+    const canvas = new FakeCanvas(width, height);
+    return [canvas, canvas.getContext()];
+  },
+  canvasToBlob: async (canvas: FakeCanvas, mimeType: string) => blobFor(canvas.toDataURL(), mimeType),
+  canvasToObjectUrl: async (canvas: FakeCanvas) => canvas.toDataURL(),
+  urlToBlob: async (url: string) => blobFor(url, 'image/png'),
+};
@@ -0,0 +1,126 @@
+import { QualityReport } from './utils/qualityCheck';
+import { SkinMask } from './utils/skinMask';
+
+export type BlemishType = 'acne' | 'redness' | 'scar' | 'mole';
+
+/** A position in the original image, in pixels. */
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+/** A rotated ellipse around (cx, cy); radii along its own axes. */
+export interface EllipseShape {
+  kind: 'ellipse';
+  cx: number; // Image pixels
+  cy: number; // Image pixels
+  rx: number; // Image pixels
+  ry: number; // Image pixels
+  rotation: number; // Degrees, clockwise
+}
+
+/** A freeform closed polygon traced with the lasso. */
+export interface LassoShape {
+  kind: 'lasso';
+  points: PixelPoint[]; // Image pixels
+}
+
+export type SpotShape = EllipseShape | LassoShape;
+
+export interface Spot {
+  id: string;
+  shape: SpotShape;
+  hardness: number; // 0 (fully feathered) - 1 (hard edge)
+  variantId?: string; // Source layer; the active variant when unset
+  detection?: SpotDetection; // Set on spots suggested by blemish detection
+  createdAt?: number; // Epoch ms; erase strokes made later cut into the spot
+}
+
+export interface SpotDetection {
+  type: BlemishType;
+  confidence: number; // 0 - 1
+  accepted: boolean; // Accepted suggestions are kept whatever the filter
+}
+
+/** Which pending suggestions go into the mask. */
+export interface DetectionFilter {
+  types: BlemishType[];
+  minConfidence: number; // 0 - 100
+}
+
+export interface MaskPoint {
+  x: number; // Percentage 0-100
+  y: number; // Percentage 0-100
+}
+
+export type BrushTool = 'spot' | 'lasso' | 'brush' | 'eraser';
+
+/** A painted stroke on the manual mask, stored as vectors so it renders identically at any resolution. */
+export interface BrushStroke {
+  id: string;
+  mode: 'paint' | 'erase';
+  points: MaskPoint[];
+  size: number; // Radius, percentage of width
+  hardness: number; // 0 (fully feathered) - 1 (hard edge)
+  opacity: number; // 0 - 1
+  variantId?: string; // Source layer for paint strokes; erase strokes apply to every layer
+  createdAt?: number; // Epoch ms; orders strokes and spots in the mask
+}
+
+export type RetouchMode = 'auto' | 'manual';
+
+/** One processed result for the current image, aligned to the original. */
+export interface RetouchVariant {
+  id: string;
+  image: string; // Object URL
+  label: string;
+  quality?: QualityReport; // Set for fresh engine results; healed and blended layers aren't checked
+}
+
+/** Everything the user can edit in the Editor; undo/redo snapshots this. */
+export interface EditorDocument {
+  spots: Spot[];
+  strokes: BrushStroke[];
+  intensity: number; // Tone, 0 - 100
+  texture: number; // Original detail kept, 0 - 100
+  retouchMode: RetouchMode;
+  activeVariantId: string | null; // Layer used in auto mode and for new spots
+  detectionFilter: DetectionFilter;
+  skinOnly: boolean; // Auto mode composites only skin pixels when a skin mask is available
+}
+
+/** Container format of an opened file, read from its bytes rather than its name. */
+export type SourceFormat = 'jpeg' | 'png' | 'webp' | 'heic' | 'tiff' | 'raw' | 'other';
+
+/** The file an image was opened from, kept at full resolution for export. */
+export interface ImageSource {
+  blob: Blob;
+  format: SourceFormat;
+  width: number; // Upright, full resolution
+  height: number; // Upright, full resolution
+}
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  original: string; // Object URL of the working copy
+  source: ImageSource;
+  processed: string | null; // Object URL, aligned to the original
+  /** Results made for the item in the editor, shown again when it's reopened; `processed` is the newest. */
+  variants: RetouchVariant[];
+  skinMask: SkinMask | null;
+  status: BatchStatus;
+  progress: number; // 0 - 1 while processing
+  error: string | null;
+  notice: string | null;
+}
+
+/** Settings applied to every image of a batch, both when processing and exporting. */
+export interface BatchSettings {
+  intensity: number; // Tone, 0 - 100
+  texture: number; // 0 - 100
+  skinOnly: boolean;
+  concurrency: number;
+}
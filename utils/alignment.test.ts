@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeImage, getImage, registerImage, Rgba } from '../test/fakeCanvas';
+import { alignToOriginal } from './alignment';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+// Smooth but non-repeating shading with a couple of features, like a face on a plain background
+const scene = (x: number, y: number): Rgba => {
+  const spot = 90 * Math.exp(-((x - 150) ** 2 + (y - 120) ** 2) / 900);
+  const ridge = 60 * Math.exp(-((x - 260) ** 2) / 400 - ((y - 180) ** 2) / 4000);
+  const brow = -50 * Math.exp(-((x - 220) ** 2) / 3000 - ((y - 70) ** 2) / 150);
+  const value = 80 + 0.25 * x + 0.15 * y + 30 * Math.sin(x / 23 + y / 41) + 20 * Math.sin(y / 17) + spot + ridge + brow;
+  return [value, value * 0.8, value * 0.7, 255];
+};
+
+const original = () => registerImage(new FakeImage(400, 300, scene));
+
+describe('alignToOriginal', () => {
+  it('accepts an identical result as exact', async () => {
+    const result = await alignToOriginal(original(), registerImage(new FakeImage(400, 300, scene)));
+    expect(result.status).toBe('exact');
+    expect(result.transform).toEqual({ sx: 1, sy: 1, tx: 0, ty: 0 });
+    expect(result.residual).toBeLessThan(1);
+  });
+
+  it('treats a result that only differs in size as exact', async () => {
+    const resized = new FakeImage(512, 384, (x, y) => scene((x * 400) / 512, (y * 300) / 384));
+    const result = await alignToOriginal(original(), registerImage(resized));
+
+    expect(result.status).toBe('exact');
+    expect(result.transform.sx).toBeCloseTo(400 / 512);
+    const image = getImage(result.image!);
+    expect([image.width, image.height]).toEqual([400, 300]);
+  });
+
+  it('measures and undoes a shifted result', async () => {
+    const shifted = new FakeImage(400, 300, (x, y) => scene(x - 5, y + 3));
+    const result = await alignToOriginal(original(), registerImage(shifted));
+
+    expect(result.status).toBe('corrected');
+    // The processed centre (200, 150) shows the original's (195, 153)
+    const { sx, sy, tx, ty } = result.transform;
+    expect(Math.abs(sx * 200 + tx - 195)).toBeLessThan(1);
+    expect(Math.abs(sy * 150 + ty - 153)).toBeLessThan(1);
+    expect(result.message).toMatch(/realigned/);
+
+    // Away from the uncovered border the realigned pixels match the original again
+    const realigned = getImage(result.image!);
+    expect(realigned.sample(200, 150)[0]).toBeCloseTo(scene(200, 150)[0], -1);
+  });
+
+  it('rejects a result that shows a different picture', async () => {
+    const other = new FakeImage(400, 300, (x, y) => {
+      const value = (x * 7919 + y * 104729) % 255;
+      return [value, 255 - value, value, 255];
+    });
+    const result = await alignToOriginal(original(), registerImage(other));
+
+    expect(result.status).toBe('rejected');
+    expect(result.image).toBeNull();
+    expect(result.message).toMatch(/doesn't line up/);
+  });
+});
@@ -0,0 +1,214 @@
+import { canvasToObjectUrl, createCanvas, loadImage } from './imageHelpers';
+
+/** Maps processed-image pixels onto original-image pixels: x = sx * u + tx, y = sy * v + ty. */
+export interface AlignmentTransform {
+  sx: number;
+  sy: number;
+  tx: number;
+  ty: number;
+}
+
+export type AlignmentStatus = 'exact' | 'corrected' | 'rejected';
+
+export interface AlignmentResult {
+  status: AlignmentStatus;
+  /** Processed layer resampled onto the original's pixel grid, as an object URL (null when rejected). */
+  image: string | null;
+  transform: AlignmentTransform;
+  /** Mean absolute luminance difference after alignment, 0-255. */
+  residual: number;
+  message: string;
+}
+
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+const COARSE_SIZE = 128;
+const FINE_SIZE = 320;
+// Above this residual the two images are considered different pictures.
+const MAX_RESIDUAL = 24;
+// Fraction of the original that must be covered by the processed layer.
+const MIN_COVERAGE = 0.97;
+// Offsets below half a pixel and scale changes below 0.2% are not worth resampling.
+const EXACT_OFFSET_PX = 0.5;
+const EXACT_SCALE = 0.002;
+
+const toGray = (img: HTMLImageElement, longEdge: number): GrayImage => {
+  const ratio = longEdge / Math.max(img.naturalWidth, img.naturalHeight);
+  const width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(img.naturalHeight * ratio));
+  const [, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = value;
+    sum += value;
+  }
+  // Zero-mean so a global exposure shift from the model doesn't skew the match
+  const mean = sum / gray.length;
+  for (let i = 0; i < gray.length; i++) gray[i] -= mean;
+
+  return { width, height, data: gray };
+};
+
+/** Mean absolute difference over the overlap, plus the fraction of the original that is covered. */
+const measure = (original: GrayImage, processed: GrayImage, t: AlignmentTransform) => {
+  let total = 0;
+  let count = 0;
+  let samples = 0;
+  for (let y = 0; y < original.height; y += 2) {
+    for (let x = 0; x < original.width; x += 2) {
+      samples++;
+      const u = Math.round((x - t.tx) / t.sx);
+      const v = Math.round((y - t.ty) / t.sy);
+      if (u < 0 || v < 0 || u >= processed.width || v >= processed.height) continue;
+      total += Math.abs(original.data[y * original.width + x] - processed.data[v * processed.width + u]);
+      count++;
+    }
+  }
+  const coverage = count / samples;
+  return { residual: count ? total / count : Infinity, coverage };
+};
+
+const cost = (original: GrayImage, processed: GrayImage, t: AlignmentTransform) => {
+  const { residual, coverage } = measure(original, processed, t);
+  // Penalise transforms that leave parts of the original uncovered
+  return residual + Math.max(0, MIN_COVERAGE - coverage) * 200;
+};
+
+/** Pattern search over scale and translation, starting from `start`. */
+const refine = (original: GrayImage, processed: GrayImage, start: AlignmentTransform, initialStep: number): AlignmentTransform => {
+  let best = start;
+  let bestCost = cost(original, processed, best);
+  let step = initialStep;
+
+  while (step >= 0.25) {
+    let improved = false;
+    const scaleStep = step / Math.max(original.width, original.height);
+    const candidates: AlignmentTransform[] = [
+      { ...best, tx: best.tx + step }, { ...best, tx: best.tx - step },
+      { ...best, ty: best.ty + step }, { ...best, ty: best.ty - step },
+      { ...best, sx: best.sx * (1 + scaleStep), sy: best.sy * (1 + scaleStep) },
+      { ...best, sx: best.sx * (1 - scaleStep), sy: best.sy * (1 - scaleStep) },
+      { ...best, sx: best.sx * (1 + scaleStep) }, { ...best, sx: best.sx * (1 - scaleStep) },
+      { ...best, sy: best.sy * (1 + scaleStep) }, { ...best, sy: best.sy * (1 - scaleStep) },
+    ];
+    for (const candidate of candidates) {
+      const c = cost(original, processed, candidate);
+      if (c < bestCost) {
+        best = candidate;
+        bestCost = c;
+        improved = true;
+      }
+    }
+    if (!improved) step /= 2;
+  }
+  return best;
+};
+
+/** Initial guesses: the naive stretch, plus aspect-preserving contain and cover fits. */
+const initialGuesses = (original: GrayImage, processed: GrayImage): AlignmentTransform[] => {
+  const stretch = { sx: original.width / processed.width, sy: original.height / processed.height, tx: 0, ty: 0 };
+  const fit = (s: number): AlignmentTransform => ({
+    sx: s,
+    sy: s,
+    tx: (original.width - processed.width * s) / 2,
+    ty: (original.height - processed.height * s) / 2,
+  });
+  return [stretch, fit(Math.min(stretch.sx, stretch.sy)), fit(Math.max(stretch.sx, stretch.sy))];
+};
+
+/** Converts a transform measured between two downsampled images into full-resolution pixels. */
+const rescale = (t: AlignmentTransform, from: [GrayImage, GrayImage], to: [GrayImage, GrayImage]): AlignmentTransform => {
+  const [fromOriginal, fromProcessed] = from;
+  const [toOriginal, toProcessed] = to;
+  const ox = toOriginal.width / fromOriginal.width;
+  const oy = toOriginal.height / fromOriginal.height;
+  const px = toProcessed.width / fromProcessed.width;
+  const py = toProcessed.height / fromProcessed.height;
+  return { sx: (t.sx * ox) / px, sy: (t.sy * oy) / py, tx: t.tx * ox, ty: t.ty * oy };
+};
+
+const describe = (t: AlignmentTransform, width: number, height: number, processedWidth: number, processedHeight: number) => {
+  const dx = Math.round(t.tx);
+  const dy = Math.round(t.ty);
+  const stretchX = (t.sx * processedWidth) / width;
+  const stretchY = (t.sy * processedHeight) / height;
+  const scale = ((stretchX + stretchY) / 2 - 1) * 100;
+  return `shift ${dx}px, ${dy}px, scale ${scale >= 0 ? '+' : ''}${scale.toFixed(1)}%`;
+};
+
+/**
+ * Measures the offset and scale between the model output and the original, and
+ * resamples the processed image onto the original's exact pixel grid so preview
+ * and export blend pixel for pixel. Results that can't be matched are rejected.
+ */
+export const alignToOriginal = async (originalSrc: string | Blob, processedSrc: string | Blob): Promise<AlignmentResult> => {
+  const [imgOriginal, imgProcessed] = await Promise.all([loadImage(originalSrc), loadImage(processedSrc)]);
+  const width = imgOriginal.naturalWidth;
+  const height = imgOriginal.naturalHeight;
+
+  const coarse: [GrayImage, GrayImage] = [toGray(imgOriginal, COARSE_SIZE), toGray(imgProcessed, COARSE_SIZE)];
+  const fine: [GrayImage, GrayImage] = [toGray(imgOriginal, FINE_SIZE), toGray(imgProcessed, FINE_SIZE)];
+  const full: [GrayImage, GrayImage] = [
+    { width, height, data: new Float32Array(0) },
+    { width: imgProcessed.naturalWidth, height: imgProcessed.naturalHeight, data: new Float32Array(0) },
+  ];
+
+  let coarseBest = initialGuesses(...coarse)[0];
+  let coarseCost = Infinity;
+  for (const guess of initialGuesses(...coarse)) {
+    const candidate = refine(...coarse, guess, 8);
+    const c = cost(...coarse, candidate);
+    if (c < coarseCost) {
+      coarseBest = candidate;
+      coarseCost = c;
+    }
+  }
+
+  const fineTransform = refine(...fine, rescale(coarseBest, coarse, fine), 2);
+  const { residual, coverage } = measure(...fine, fineTransform);
+  const transform = rescale(fineTransform, fine, full);
+  const stretch = { sx: width / imgProcessed.naturalWidth, sy: height / imgProcessed.naturalHeight };
+
+  if (residual > MAX_RESIDUAL || coverage < MIN_COVERAGE) {
+    return {
+      status: 'rejected',
+      image: null,
+      transform,
+      residual,
+      message: `The retouched image doesn't line up with the original (${describe(transform, width, height, imgProcessed.naturalWidth, imgProcessed.naturalHeight)}). Please try again.`,
+    };
+  }
+
+  const isExact =
+    Math.abs(transform.tx) < EXACT_OFFSET_PX &&
+    Math.abs(transform.ty) < EXACT_OFFSET_PX &&
+    Math.abs(transform.sx / stretch.sx - 1) < EXACT_SCALE &&
+    Math.abs(transform.sy / stretch.sy - 1) < EXACT_SCALE;
+  const applied: AlignmentTransform = isExact ? { ...stretch, tx: 0, ty: 0 } : transform;
+
+  // Resample onto the original grid; any uncovered border falls back to the original pixels
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(imgOriginal, 0, 0);
+  ctx.setTransform(applied.sx, 0, 0, applied.sy, applied.tx, applied.ty);
+  ctx.drawImage(imgProcessed, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  return {
+    status: isExact ? 'exact' : 'corrected',
+    image: await canvasToObjectUrl(canvas, 'image/png'),
+    transform: applied,
+    residual,
+    message: isExact
+      ? 'Retouched image matches the original framing.'
+      : `Model output was misaligned (${describe(transform, width, height, imgProcessed.naturalWidth, imgProcessed.naturalHeight)}) and has been realigned.`,
+  };
+};
@@ -0,0 +1,56 @@
+import { BatchItem, BatchSettings } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, ExportSettings } from './exportImage';
+import { urlToBlob } from './imageHelpers';
+import { runImageTask } from './imageWorkerClient';
+import { createZip, ZipEntry } from './zip';
+
+// Full-size JPEGs without carried-over metadata
+const BATCH_EXPORT_SETTINGS: ExportSettings = {
+  ...DEFAULT_EXPORT_SETTINGS,
+  format: 'image/jpeg',
+  quality: 92,
+  sizePreset: 'original',
+  keepOrientation: false,
+  keepColorProfile: false,
+  keepCameraMetadata: false,
+};
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '') || 'image';
+
+/**
+ * Composites every finished item at its source's full resolution with the shared
+ * batch settings, one at a time in the image worker, and packs them into one ZIP.
+ */
+export const exportBatch = async (items: BatchItem[], settings: BatchSettings): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+
+  for (const item of items) {
+    if (item.status !== 'done' || !item.processed) continue;
+
+    const [working, processed, mask] = await Promise.all([
+      urlToBlob(item.original),
+      urlToBlob(item.processed),
+      settings.skinOnly && item.skinMask ? urlToBlob(item.skinMask.image) : Promise.resolve(null),
+    ]);
+    const { blob } = await runImageTask('export', {
+      working,
+      source: item.source,
+      layers: [{ image: processed, mask: mask && { kind: 'image', image: mask } }],
+      blend: { tone: settings.intensity, texture: settings.texture },
+      settings: BATCH_EXPORT_SETTINGS,
+      faceBox: null,
+    });
+
+    // Keep names unique when a shoot contains duplicates from different folders
+    let name = `${baseName(item.name)}-retouched.jpg`;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${baseName(item.name)}-retouched-${n}.jpg`;
+    }
+    usedNames.add(name);
+
+    entries.push({ name, data: blob });
+  }
+
+  return createZip(entries);
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeImage, registerImage, Rgba } from '../test/fakeCanvas';
+import { BlemishType, Spot } from '../types';
+import { detectBlemishes, filterSpots } from './blemishDetection';
+import { circleShape } from './spotShape';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+const SKIN: Rgba = [224, 172, 140, 255];
+const BACKGROUND: Rgba = [40, 90, 200, 255];
+
+const inEllipse = (x: number, y: number, cx: number, cy: number, rx: number, ry: number) => (
+  ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1
+);
+
+const spot = (id: string, detection?: { type: BlemishType; confidence: number; accepted?: boolean }): Spot => ({
+  id,
+  shape: circleShape({ x: 10, y: 10 }, 5),
+  hardness: 0.5,
+  detection: detection && { accepted: false, ...detection },
+});
+
+const ids = (spots: Spot[]) => spots.map(s => s.id);
+
+describe('detectBlemishes', () => {
+  // A skin oval on a blue background with a red mark of the given radius on the cheek
+  const withRedMark = (radius: number) => registerImage(new FakeImage(400, 300, (x, y) => {
+    if (inEllipse(x, y, 230, 170, radius, radius)) return [214, 120, 110, 255];
+    return inEllipse(x, y, 200, 150, 80, 110) ? SKIN : BACKGROUND;
+  }));
+
+  it('finds a small red spot on the cheek and calls it acne', async () => {
+    const found = await detectBlemishes(withRedMark(2.5));
+    expect(found).toHaveLength(1);
+    expect(found[0].type).toBe('acne');
+    expect(found[0].x).toBeCloseTo(230.5, 0);
+    expect(found[0].y).toBeCloseTo(170.5, 0);
+    expect(found[0].confidence).toBeGreaterThan(0.5);
+  });
+
+  it('calls a wider red patch redness', async () => {
+    const found = await detectBlemishes(withRedMark(7));
+    expect(found.map(blemish => blemish.type)).toEqual(['redness']);
+  });
+
+  it('finds nothing on clear skin or without a face', async () => {
+    const clear = registerImage(new FakeImage(400, 300, (x, y) => (inEllipse(x, y, 200, 150, 80, 110) ? SKIN : BACKGROUND)));
+    expect(await detectBlemishes(clear)).toEqual([]);
+    expect(await detectBlemishes(clear, null)).toEqual([]);
+  });
+});
+
+describe('filterSpots', () => {
+  const spots = [
+    spot('manual'),
+    spot('acne-high', { type: 'acne', confidence: 0.9 }),
+    spot('acne-low', { type: 'acne', confidence: 0.3 }),
+    spot('mole', { type: 'mole', confidence: 0.95 }),
+    spot('scar-accepted', { type: 'scar', confidence: 0.1, accepted: true }),
+  ];
+
+  it('keeps pending suggestions of the chosen types above the confidence', () => {
+    expect(ids(filterSpots(spots, { types: ['acne', 'scar'], minConfidence: 50 })))
+      .toEqual(['manual', 'acne-high', 'scar-accepted']);
+  });
+
+  it('always keeps hand-placed and accepted spots', () => {
+    expect(ids(filterSpots(spots, { types: [], minConfidence: 100 }))).toEqual(['manual', 'scar-accepted']);
+  });
+
+  it('includes suggestions exactly at the threshold', () => {
+    expect(ids(filterSpots(spots, { types: ['acne'], minConfidence: 30 })))
+      .toEqual(['manual', 'acne-high', 'acne-low', 'scar-accepted']);
+  });
+
+  it('keeps the spots themselves, in order', () => {
+    const kept = filterSpots(spots, { types: ['mole'], minConfidence: 0 });
+    expect(kept[1]).toBe(spots[3]);
+  });
+});
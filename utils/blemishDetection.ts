@@ -0,0 +1,196 @@
+import { BlemishType, DetectionFilter, Spot } from '../types';
+import { createCanvas, loadImage } from './imageHelpers';
+import { computeSkinMask, SkinMask } from './skinMask';
+
+export const BLEMISH_TYPES: BlemishType[] = ['acne', 'redness', 'scar', 'mole'];
+
+export const BLEMISH_LABELS: Record<BlemishType, string> = {
+  acne: 'Acne',
+  redness: 'Redness',
+  scar: 'Scar',
+  mole: 'Mole',
+};
+
+export interface DetectedBlemish {
+  x: number; // Image pixels
+  y: number; // Image pixels
+  radius: number; // Image pixels
+  type: BlemishType;
+  confidence: number; // 0 - 1
+}
+
+const WORK_SIZE = 768;
+// Neighbourhood the skin is compared with, as a fraction of the width
+const BACKGROUND_FRACTION = 0.012;
+// Darkening (luma) and reddening (Cr) that count as one unit of contrast
+const LUMA_SCALE = 14;
+const RED_SCALE = 6;
+// Only pixels this deep inside the skin mask (alpha) are examined, away from eyes, brows and lips
+const SKIN_CORE = 220;
+// Blemish sizes, as fractions of the skin area; bigger red patches are diffuse redness
+const MIN_AREA_PX = 4;
+const MAX_SPOT_AREA = 0.004;
+const MAX_PATCH_AREA = 0.03;
+const PATCH_AREA = 0.0012;
+const MAX_SUGGESTIONS = 80;
+// Spot radius relative to the blob, so the heal covers its soft edge
+const RADIUS_MARGIN = 1.6;
+const MIN_RADIUS = 0.003; // Fraction of the width
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Moments and colour sums of one connected group of candidate pixels
+interface Candidate {
+  area: number;
+  sumX: number;
+  sumY: number;
+  sumXX: number;
+  sumYY: number;
+  sumXY: number;
+  darkness: number;
+  redness: number;
+  peak: number;
+}
+
+const classify = (blob: Candidate, skinArea: number): { type: BlemishType; confidence: number } | null => {
+  const { area } = blob;
+  const darkness = blob.darkness / area;
+  const redness = blob.redness / area;
+  // Second moments give the blob's elongation, which separates scars from round spots
+  const mx = blob.sumX / area;
+  const my = blob.sumY / area;
+  const vxx = blob.sumXX / area - mx * mx;
+  const vyy = blob.sumYY / area - my * my;
+  const vxy = blob.sumXY / area - mx * my;
+  const spread = Math.sqrt(((vxx - vyy) / 2) ** 2 + vxy * vxy);
+  const major = (vxx + vyy) / 2 + spread;
+  const minor = Math.max(0.25, (vxx + vyy) / 2 - spread);
+  const elongation = Math.sqrt(major / minor);
+
+  const share = area / skinArea;
+  const red = redness >= RED_SCALE * 0.8;
+  let type: BlemishType;
+  if (red) {
+    if (share > MAX_PATCH_AREA) return null;
+    type = share > PATCH_AREA ? 'redness' : 'acne';
+  } else {
+    if (share > MAX_SPOT_AREA) return null;
+    if (elongation >= 2.2) type = 'scar';
+    else if (darkness >= LUMA_SCALE * 1.8 && elongation < 1.6) type = 'mole';
+    else type = 'scar';
+  }
+
+  // Stronger contrast and a cleaner shape for the type give more confidence
+  const contrast = clamp01((blob.peak - 1) / 3);
+  const shape = type === 'scar' ? clamp01((elongation - 1) / 3) : clamp01(1.6 / elongation - 0.4);
+  return { type, confidence: Math.min(0.99, 0.2 + 0.55 * contrast + 0.25 * shape) };
+};
+
+/**
+ * Finds likely blemishes on the skin with local image analysis: each skin pixel is
+ * compared with the average of the surrounding skin, and connected spots that are
+ * darker or redder are grouped, sized and classified by colour, size and shape
+ * (red and small is acne, red and wide is redness, dark and round is a mole, the
+ * rest is scarring). Nothing leaves the device.
+ *
+ * @param skinMask The image's segmentation; computed here when not supplied.
+ * @returns Suggestions sorted by confidence, most certain first.
+ */
+export const detectBlemishes = async (src: string, skinMask?: SkinMask | null): Promise<DetectedBlemish[]> => {
+  const [img, mask] = await Promise.all([loadImage(src), skinMask !== undefined ? skinMask : computeSkinMask(src)]);
+  if (!mask) return [];
+  const maskImg = await loadImage(mask.image);
+
+  const ratio = Math.min(1, WORK_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(img.naturalHeight * ratio));
+
+  const [, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const [, maskCtx] = createCanvas(width, height);
+  maskCtx.drawImage(maskImg, 0, 0, width, height);
+  const skin = maskCtx.getImageData(0, 0, width, height).data;
+
+  // Blurring the skin alone (transparent elsewhere) averages only skin, so eyes and hair don't skew it
+  const [skinOnly, skinOnlyCtx] = createCanvas(width, height);
+  skinOnlyCtx.drawImage(img, 0, 0, width, height);
+  skinOnlyCtx.globalCompositeOperation = 'destination-in';
+  skinOnlyCtx.drawImage(maskImg, 0, 0, width, height);
+  const [, backgroundCtx] = createCanvas(width, height);
+  backgroundCtx.filter = `blur(${Math.max(2, width * BACKGROUND_FRACTION)}px)`;
+  backgroundCtx.drawImage(skinOnly, 0, 0);
+  const background = backgroundCtx.getImageData(0, 0, width, height).data;
+
+  const luma = (d: Uint8ClampedArray, i: number) => 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+  const cr = (d: Uint8ClampedArray, i: number) => 0.5 * d[i] - 0.418688 * d[i + 1] - 0.081312 * d[i + 2];
+
+  const n = width * height;
+  const score = new Float32Array(n);
+  const darkness = new Float32Array(n);
+  const redness = new Float32Array(n);
+  let skinArea = 0;
+  for (let p = 0; p < n; p++) {
+    const i = p * 4;
+    if (skin[i + 3] < SKIN_CORE || background[i + 3] === 0) continue;
+    skinArea++;
+    darkness[p] = luma(background, i) - luma(pixels, i);
+    redness[p] = cr(pixels, i) - cr(background, i);
+    score[p] = Math.max(darkness[p] / LUMA_SCALE, redness[p] / RED_SCALE);
+  }
+  if (skinArea === 0) return [];
+
+  // Group candidate pixels into 4-connected blobs
+  const seen = new Uint8Array(n);
+  const found: DetectedBlemish[] = [];
+  for (let start = 0; start < n; start++) {
+    if (score[start] <= 1 || seen[start]) continue;
+    const blob: Candidate = { area: 0, sumX: 0, sumY: 0, sumXX: 0, sumYY: 0, sumXY: 0, darkness: 0, redness: 0, peak: 0 };
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      blob.area++;
+      blob.sumX += x;
+      blob.sumY += y;
+      blob.sumXX += x * x;
+      blob.sumYY += y * y;
+      blob.sumXY += x * y;
+      blob.darkness += darkness[p];
+      blob.redness += redness[p];
+      blob.peak = Math.max(blob.peak, score[p]);
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+      for (const q of neighbours) {
+        if (q >= 0 && !seen[q] && score[q] > 1) {
+          seen[q] = 1;
+          stack.push(q);
+        }
+      }
+    }
+    if (blob.area < MIN_AREA_PX) continue;
+
+    const result = classify(blob, skinArea);
+    if (!result) continue;
+    found.push({
+      x: (blob.sumX / blob.area + 0.5) / ratio,
+      y: (blob.sumY / blob.area + 0.5) / ratio,
+      radius: Math.max(MIN_RADIUS * img.naturalWidth, (Math.sqrt(blob.area / Math.PI) * RADIUS_MARGIN) / ratio),
+      ...result,
+    });
+  }
+
+  return found.sort((a, b) => b.confidence - a.confidence).slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * The spots that go into the mask: everything placed by hand or accepted, plus the
+ * pending suggestions whose type and confidence pass the filter.
+ */
+export const filterSpots = (spots: Spot[], filter: DetectionFilter): Spot[] => spots.filter(spot => (
+  !spot.detection
+  || spot.detection.accepted
+  || (filter.types.includes(spot.detection.type) && spot.detection.confidence * 100 >= filter.minConfidence)
+));
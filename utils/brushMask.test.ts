@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BrushStroke, PixelPoint, Spot } from '../types';
+import { FakeCanvas, solidImage } from '../test/fakeCanvas';
+import { applyMask, maskShapeBounds, renderManualMask } from './brushMask';
+import { circleShape } from './spotShape';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+const stroke = (mode: BrushStroke['mode'], points: [number, number][], overrides: Partial<BrushStroke> = {}): BrushStroke => ({
+  id: `${mode}-${points.length}`,
+  mode,
+  points: points.map(([x, y]) => ({ x, y })),
+  size: 5,
+  hardness: 1,
+  opacity: 1,
+  ...overrides,
+});
+
+// Spots are in the pixels of a 400 x 200 original, twice the render size
+const spot = (x: number, y: number, radius: number, hardness: number): Spot => ({
+  id: `${x}-${y}`,
+  shape: circleShape({ x, y }, radius),
+  hardness,
+});
+
+const lasso = (points: PixelPoint[], hardness: number): Spot => ({ id: 'lasso', shape: { kind: 'lasso', points }, hardness });
+
+const render = (spots: Spot[], strokes: BrushStroke[]) => renderManualMask(200, 100, spots, strokes, 400, 200) as unknown as FakeCanvas;
+const alpha = (mask: FakeCanvas, x: number, y: number) => mask.sample(x, y)[3];
+
+describe('renderManualMask', () => {
+  it('paints along the whole stroke, scaled to the render size', () => {
+    const mask = render([], [stroke('paint', [[10, 50], [90, 50]])]);
+    expect(alpha(mask, 20, 50)).toBe(255);
+    expect(alpha(mask, 100, 50)).toBe(255);
+    expect(alpha(mask, 180, 50)).toBe(255);
+    expect(alpha(mask, 100, 70)).toBe(0);
+  });
+
+  it('applies each stroke at its opacity', () => {
+    const mask = render([], [stroke('paint', [[50, 50]], { opacity: 0.5 })]);
+    expect(alpha(mask, 100, 50)).toBeCloseTo(128, -1);
+  });
+
+  it('cuts earlier paint with erase strokes', () => {
+    const mask = render([], [
+      stroke('paint', [[10, 50], [90, 50]]),
+      stroke('erase', [[50, 20], [50, 80]]),
+    ]);
+    expect(alpha(mask, 40, 50)).toBe(255);
+    expect(alpha(mask, 100, 50)).toBe(0);
+  });
+
+  it('cuts spots with erase strokes made after them, but not before', () => {
+    const placed = { ...spot(200, 100, 40, 1), createdAt: 2 };
+    const eraser = (createdAt: number) => stroke('erase', [[50, 20], [50, 80]], { createdAt });
+    expect(alpha(render([placed], [eraser(3)]), 100, 50)).toBe(0);
+    expect(alpha(render([placed], [eraser(1)]), 100, 50)).toBe(255);
+    // Marks from older projects have no creation time: strokes first, then spots
+    expect(alpha(render([spot(200, 100, 40, 1)], [stroke('erase', [[50, 20], [50, 80]])]), 100, 50)).toBe(255);
+  });
+
+  it('feathers soft spots towards their edge', () => {
+    const mask = render([spot(200, 100, 40, 0)], []);
+    expect(alpha(mask, 100, 50)).toBeGreaterThan(240);
+    expect(alpha(mask, 110, 50)).toBeGreaterThan(60);
+    expect(alpha(mask, 110, 50)).toBeLessThan(200);
+    expect(alpha(mask, 125, 50)).toBe(0);
+  });
+
+  it('keeps hard spots solid out to their radius', () => {
+    const mask = render([spot(200, 100, 40, 1)], []);
+    expect(alpha(mask, 118, 50)).toBe(255);
+    expect(alpha(mask, 122, 50)).toBe(0);
+  });
+
+  it('squashes and turns ellipses along their own axes', () => {
+    const mask = render([{ ...spot(200, 100, 0, 1), shape: { kind: 'ellipse', cx: 200, cy: 100, rx: 40, ry: 10, rotation: 90 } }], []);
+    expect(alpha(mask, 100, 32)).toBe(255);
+    expect(alpha(mask, 100, 68)).toBe(255);
+    expect(alpha(mask, 108, 50)).toBe(0);
+  });
+
+  it('fills lasso outlines, softening their edge unless hard', () => {
+    const square = [{ x: 100, y: 40 }, { x: 300, y: 40 }, { x: 300, y: 160 }, { x: 100, y: 160 }];
+    const hard = render([lasso(square, 1)], []);
+    expect(alpha(hard, 51, 50)).toBe(255);
+    expect(alpha(hard, 49, 50)).toBe(0);
+    const soft = render([lasso(square, 0)], []);
+    expect(alpha(soft, 100, 50)).toBe(255);
+    expect(alpha(soft, 50, 50)).toBeGreaterThan(60);
+    expect(alpha(soft, 50, 50)).toBeLessThan(200);
+  });
+});
+
+describe('applyMask', () => {
+  it('keeps the source only where the mask is set', () => {
+    const mask = render([spot(100, 100, 40, 1)], []);
+    const cut = applyMask(solidImage(200, 100, [10, 20, 30, 255]) as unknown as CanvasImageSource, mask as unknown as CanvasImageSource, 200, 100) as unknown as FakeCanvas;
+    expect(cut.sample(50, 50)).toEqual([10, 20, 30, 255]);
+    expect(cut.sample(150, 50)[3]).toBe(0);
+  });
+});
+
+describe('maskShapeBounds', () => {
+  it('bounds each spot and paint stroke in pixels, clamped to the image', () => {
+    const bounds = maskShapeBounds(200, 100, [spot(100, 50, 20, 1), spot(0, 0, 20, 1)], [
+      stroke('paint', [[10, 10], [30, 20]]),
+      stroke('erase', [[90, 90]]),
+    ]);
+    expect(bounds).toEqual([
+      { x: 80, y: 30, width: 40, height: 40 },
+      { x: 0, y: 0, width: 20, height: 20 },
+      { x: 10, y: 0, width: 60, height: 30 },
+    ]);
+  });
+
+  it('pads soft lassos by their feathered edge', () => {
+    const square = [{ x: 40, y: 20 }, { x: 120, y: 20 }, { x: 120, y: 80 }, { x: 40, y: 80 }];
+    expect(maskShapeBounds(200, 100, [lasso(square, 1)], [])).toEqual([{ x: 40, y: 20, width: 80, height: 60 }]);
+    expect(maskShapeBounds(200, 100, [lasso(square, 0)], [])).toEqual([{ x: 26, y: 6, width: 108, height: 88 }]);
+  });
+});
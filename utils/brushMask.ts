@@ -0,0 +1,168 @@
+import { BrushStroke, Spot } from '../types';
+import { Canvas, Canvas2D, createCanvas } from './imageHelpers';
+import { shapeBounds } from './spotShape';
+import { Rect } from './tiling';
+
+// Dabs are laid down every quarter radius so strokes look continuous
+const DAB_SPACING = 0.25;
+// A fully feathered lasso blurs by this fraction of its smaller side
+const LASSO_FEATHER = 0.15;
+
+/** Draws one soft round dab: solid out to `hardness * r`, fading to zero at `r`. */
+const drawDab = (ctx: Canvas2D, x: number, y: number, r: number, hardness: number) => {
+  if (r <= 0) return;
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, r);
+  gradient.addColorStop(0, 'rgba(255,255,255,1)');
+  gradient.addColorStop(Math.min(0.999, Math.max(0, hardness)), 'rgba(255,255,255,1)');
+  gradient.addColorStop(1, 'rgba(255,255,255,0)');
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(x, y, r, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Blur radius of a lasso's edge, in image pixels
+const lassoFeather = (spot: Spot): number => {
+  const { minX, minY, maxX, maxY } = shapeBounds(spot.shape);
+  return (1 - spot.hardness) * Math.min(maxX - minX, maxY - minY) * LASSO_FEATHER;
+};
+
+/**
+ * Draws a spot in image pixels; `scaleX`/`scaleY` map them onto the canvas. Ellipses
+ * use the round dab squashed along their axes, so their edge fades the same way.
+ */
+const drawSpot = (ctx: Canvas2D, spot: Spot, scaleX: number, scaleY: number) => {
+  const { shape } = spot;
+  ctx.save();
+  ctx.scale(scaleX, scaleY);
+  if (shape.kind === 'ellipse') {
+    if (shape.rx > 0 && shape.ry > 0) {
+      ctx.translate(shape.cx, shape.cy);
+      ctx.rotate((shape.rotation * Math.PI) / 180);
+      ctx.scale(1, shape.ry / shape.rx);
+      drawDab(ctx, 0, 0, shape.rx, spot.hardness);
+    }
+  } else if (shape.points.length >= 3) {
+    // The blur works in canvas pixels, unaffected by the transform
+    const feather = lassoFeather(spot) * scaleX;
+    if (feather > 0.5) ctx.filter = `blur(${feather / 2}px)`;
+    ctx.fillStyle = 'white';
+    ctx.beginPath();
+    shape.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+const renderStroke = (stroke: BrushStroke, width: number, height: number): Canvas => {
+  const [canvas, ctx] = createCanvas(width, height);
+  const r = (stroke.size / 100) * width;
+  const spacing = Math.max(1, r * DAB_SPACING);
+  const points = stroke.points.map(p => ({ x: (p.x / 100) * width, y: (p.y / 100) * height }));
+
+  points.forEach((point, i) => {
+    if (i === 0) {
+      drawDab(ctx, point.x, point.y, r, stroke.hardness);
+      return;
+    }
+    const prev = points[i - 1];
+    const distance = Math.hypot(point.x - prev.x, point.y - prev.y);
+    const steps = Math.max(1, Math.ceil(distance / spacing));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      drawDab(ctx, prev.x + (point.x - prev.x) * t, prev.y + (point.y - prev.y) * t, r, stroke.hardness);
+    }
+  });
+  return canvas;
+};
+
+/**
+ * Rasterises the manual mask at the requested size. Strokes and spots are drawn in
+ * the order they were made (each stroke at its own opacity), so an eraser cuts away
+ * whatever was painted or placed before it. Marks without a creation time, from older
+ * projects, come first: strokes, then spots.
+ * Spots are in the original's pixels (`imageWidth` x `imageHeight`) and scaled to fit.
+ * Preview and export both call this, so they only differ in resolution.
+ */
+export const renderManualMask = (
+  width: number,
+  height: number,
+  spots: Spot[],
+  strokes: BrushStroke[],
+  imageWidth: number,
+  imageHeight: number
+): Canvas => {
+  const [canvas, ctx] = createCanvas(width, height);
+  // Sorting is stable, so marks made at the same time keep the order of their arrays
+  const marks = [
+    ...strokes.map(stroke => ({ stroke, spot: null, createdAt: stroke.createdAt ?? 0 })),
+    ...spots.map(spot => ({ stroke: null, spot, createdAt: spot.createdAt ?? 0 })),
+  ].sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const { stroke, spot } of marks) {
+    if (stroke) {
+      ctx.globalAlpha = stroke.opacity;
+      ctx.globalCompositeOperation = stroke.mode === 'erase' ? 'destination-out' : 'source-over';
+      ctx.drawImage(renderStroke(stroke, width, height), 0, 0);
+    } else if (spot) {
+      ctx.globalAlpha = 1;
+      ctx.globalCompositeOperation = 'source-over';
+      drawSpot(ctx, spot, width / imageWidth, height / imageHeight);
+    }
+  }
+  return canvas;
+};
+
+/** Cuts `source` with `mask` (alpha), both stretched to `width` x `height`. */
+export const applyMask = (
+  source: CanvasImageSource,
+  mask: CanvasImageSource,
+  width: number,
+  height: number
+): Canvas => {
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(mask, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-over';
+  return canvas;
+};
+
+/**
+ * Pixel bounds of every spot and paint stroke in the manual mask, one rect per shape,
+ * at the original's size. Erase strokes only remove coverage, so they never add a region.
+ */
+export const maskShapeBounds = (
+  width: number,
+  height: number,
+  spots: Spot[],
+  strokes: BrushStroke[]
+): Rect[] => {
+  const bounds = (xs: number[], ys: number[], r: number): Rect => {
+    const x = Math.max(0, Math.floor(Math.min(...xs) - r));
+    const y = Math.max(0, Math.floor(Math.min(...ys) - r));
+    return {
+      x,
+      y,
+      width: Math.min(width, Math.ceil(Math.max(...xs) + r)) - x,
+      height: Math.min(height, Math.ceil(Math.max(...ys) + r)) - y,
+    };
+  };
+
+  return [
+    ...spots.map(spot => {
+      const { minX, minY, maxX, maxY } = shapeBounds(spot.shape);
+      // A blurred edge reaches about three blur radii past the outline
+      const pad = spot.shape.kind === 'lasso' ? lassoFeather(spot) * 1.5 : 0;
+      return bounds([minX, maxX], [minY, maxY], pad);
+    }),
+    ...strokes
+      .filter(stroke => stroke.mode === 'paint' && stroke.points.length > 0)
+      .map(stroke => bounds(
+        stroke.points.map(p => (p.x / 100) * width),
+        stroke.points.map(p => (p.y / 100) * height),
+        (stroke.size / 100) * width
+      )),
+  ].filter(rect => rect.width > 0 && rect.height > 0);
+};
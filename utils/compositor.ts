@@ -0,0 +1,41 @@
+import { applyMask } from './brushMask';
+import { BlendSettings, frequencyBlend, frequencyBlendUpscaled } from './frequencyBlend';
+import { Canvas, createCanvas } from './imageHelpers';
+
+export interface CompositeLayer {
+  image: CanvasImageSource;
+  /** Alpha mask of any size limiting where the layer shows through; null for the whole frame. */
+  mask: CanvasImageSource | null;
+}
+
+/**
+ * Blends the processed layers over the original at its own resolution, in order,
+ * each with the same frequency-separation settings. The preview stacks its layers the same way.
+ * When the original is the full-resolution source, `working` is the working copy the
+ * layers were aligned to. Each layer's change to the working copy is then scaled up
+ * onto the source, so detail finer than the working copy isn't lost; masks are scaled up as they are.
+ */
+export const compositeRetouch = (
+  original: ImageBitmap | Canvas,
+  layers: CompositeLayer[],
+  blend: BlendSettings,
+  working: ImageBitmap | Canvas = original
+): Canvas => {
+  // Canvas at the original's natural resolution
+  const { width, height } = original;
+  const [canvas, ctx] = createCanvas(width, height);
+
+  // 1. Draw Original Background
+  ctx.drawImage(original, 0, 0);
+
+  // 2. Draw each (masked) Processed Layer, blended tone and texture separately
+  // Layers were aligned to the working copy's pixel grid, which covers the same frame
+  for (const { image, mask } of layers) {
+    const blended = working.width === width && working.height === height
+      ? frequencyBlend(original, image, width, height, blend)
+      : frequencyBlendUpscaled(original, working, image, width, height, working.width, working.height, blend);
+    ctx.drawImage(mask ? applyMask(blended, mask, width, height) : blended, 0, 0);
+  }
+
+  return canvas;
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeCanvas, FakeImage } from '../test/fakeCanvas';
+import { renderDifference, renderHeatmap } from './difference';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+// Untouched on the left, a slight edit in the middle and a strong one on the right
+const original = new FakeImage(3, 1, () => [100, 100, 100, 255]) as unknown as CanvasImageSource;
+const processed = new FakeImage(3, 1, x => (x === 0 ? [100, 100, 100, 255] : x === 1 ? [110, 104, 100, 255] : [20, 180, 100, 255])) as unknown as CanvasImageSource;
+
+describe('renderDifference', () => {
+  it('shows the amplified per-channel difference', () => {
+    const diff = renderDifference(original, processed, 3, 1, 5) as unknown as FakeCanvas;
+    expect(diff.sample(0, 0)).toEqual([0, 0, 0, 255]);
+    expect(diff.sample(1, 0)).toEqual([50, 20, 0, 255]);
+    expect(diff.sample(2, 0)).toEqual([255, 255, 0, 255]);
+  });
+});
+
+describe('renderHeatmap', () => {
+  it('leaves untouched pixels clear and colours edits by strength', () => {
+    const heat = renderHeatmap(original, processed, 3, 1) as unknown as FakeCanvas;
+    expect(heat.sample(0, 0)[3]).toBe(0);
+
+    const [r1, , b1, a1] = heat.sample(1, 0);
+    expect(b1).toBeGreaterThan(r1);
+    expect(heat.sample(2, 0)).toEqual([255, 0, 0, 230]);
+    expect(a1).toBeLessThan(230);
+  });
+});
@@ -0,0 +1,69 @@
+import { Canvas, createCanvas } from './imageHelpers';
+
+// Changes below this mean channel difference (0-255) are treated as noise in the heatmap
+const HEATMAP_FLOOR = 4;
+// Difference mapped to the hottest colour
+const HEATMAP_CEILING = 48;
+
+const pixels = (source: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const [, ctx] = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+/** Absolute per-channel difference, multiplied by `gain` so subtle edits become visible. */
+export const renderDifference = (
+  original: CanvasImageSource,
+  processed: CanvasImageSource,
+  width: number,
+  height: number,
+  gain: number
+): Canvas => {
+  const a = pixels(original, width, height);
+  const b = pixels(processed, width, height);
+  const [canvas, ctx] = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    out.data[i] = Math.abs(a[i] - b[i]) * gain;
+    out.data[i + 1] = Math.abs(a[i + 1] - b[i + 1]) * gain;
+    out.data[i + 2] = Math.abs(a[i + 2] - b[i + 2]) * gain;
+    out.data[i + 3] = 255;
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+// Blue -> yellow -> red ramp for t in [0, 1]
+const heatColor = (t: number): [number, number, number] => (
+  t < 0.5
+    ? [Math.round(510 * t), Math.round(510 * t), Math.round(255 * (1 - 2 * t))]
+    : [255, Math.round(255 * (2 - 2 * t)), 0]
+);
+
+/**
+ * Translucent overlay of change magnitude: untouched pixels stay clear, small
+ * edits show blue and strong ones red. Meant to sit on top of the original.
+ */
+export const renderHeatmap = (
+  original: CanvasImageSource,
+  processed: CanvasImageSource,
+  width: number,
+  height: number
+): Canvas => {
+  const a = pixels(original, width, height);
+  const b = pixels(processed, width, height);
+  const [canvas, ctx] = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    const diff = (Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2])) / 3;
+    if (diff < HEATMAP_FLOOR) continue;
+    const t = Math.min(1, (diff - HEATMAP_FLOOR) / (HEATMAP_CEILING - HEATMAP_FLOOR));
+    const [r, g, bl] = heatColor(t);
+    out.data[i] = r;
+    out.data[i + 1] = g;
+    out.data[i + 2] = bl;
+    out.data[i + 3] = Math.round(90 + 140 * t);
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { injectSegments, orientationOnlyExif, readJpegMetadata, withOrientation } from './exif';
+
+const segment = (marker: number, payload: number[]) => [
+  0xff, marker, ((payload.length + 2) >> 8) & 0xff, (payload.length + 2) & 0xff, ...payload,
+];
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const JFIF = segment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const ICC = segment(0xe2, [...ascii('ICC_PROFILE'), 0, 1, 1, 9, 9]);
+const SCAN = [0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9];
+
+const jpeg = (...parts: number[][]) => new Uint8Array([0xff, 0xd8, ...parts.flat(), ...SCAN]);
+
+/** Little-endian EXIF with a second tag ahead of orientation. */
+const littleEndianExif = (orientation: number) => segment(0xe1, [
+  ...ascii('Exif'), 0, 0,
+  0x49, 0x49, 42, 0, 8, 0, 0, 0,
+  2, 0,
+  0x0f, 0x01, 2, 0, 4, 0, 0, 0, ...ascii('Cam'), 0, // Make
+  0x12, 0x01, 3, 0, 1, 0, 0, 0, orientation, 0, 0, 0,
+  0, 0, 0, 0,
+]);
+
+const markers = (bytes: Uint8Array) => {
+  const found: number[] = [];
+  let offset = 2;
+  while (bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    found.push(bytes[offset + 1]);
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return found;
+};
+
+describe('readJpegMetadata', () => {
+  it('reads a big-endian orientation', () => {
+    const bytes = jpeg(JFIF, Array.from(orientationOnlyExif(6)));
+    const metadata = readJpegMetadata(bytes.buffer);
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.exif).toEqual(orientationOnlyExif(6));
+    expect(metadata.icc).toEqual([]);
+  });
+
+  it('reads a little-endian orientation past other tags, and ICC segments', () => {
+    const metadata = readJpegMetadata(jpeg(littleEndianExif(8), ICC).buffer);
+    expect(metadata.orientation).toBe(8);
+    expect(metadata.icc).toEqual([new Uint8Array(ICC)]);
+  });
+
+  it('falls back to 1 for out-of-range values, missing EXIF and non-JPEG data', () => {
+    expect(readJpegMetadata(jpeg(littleEndianExif(9)).buffer).orientation).toBe(1);
+    expect(readJpegMetadata(jpeg(JFIF).buffer)).toEqual({ exif: null, icc: [], orientation: 1 });
+    expect(readJpegMetadata(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]).buffer).orientation).toBe(1);
+  });
+});
+
+describe('withOrientation', () => {
+  it('rewrites the tag in a copy and keeps the rest', () => {
+    const exif = new Uint8Array(littleEndianExif(6));
+    const upright = withOrientation(exif, 1);
+
+    expect(readJpegMetadata(jpeg(Array.from(upright)).buffer).orientation).toBe(1);
+    expect(readJpegMetadata(jpeg(Array.from(exif)).buffer).orientation).toBe(6);
+    expect(upright.length).toBe(exif.length);
+  });
+});
+
+describe('injectSegments', () => {
+  it('inserts segments after JFIF and drops the old EXIF and ICC', () => {
+    const source = jpeg(JFIF, littleEndianExif(3), ICC);
+    const extra = orientationOnlyExif(1);
+    const out = injectSegments(source.buffer, [extra]);
+
+    expect(markers(out)).toEqual([0xe0, 0xe1]);
+    expect(readJpegMetadata(out.buffer).orientation).toBe(1);
+    expect(Array.from(out.subarray(out.length - SCAN.length))).toEqual(SCAN);
+  });
+
+  it('inserts right after SOI when there is no JFIF', () => {
+    const out = injectSegments(jpeg().buffer, [orientationOnlyExif(5), new Uint8Array(ICC)]);
+    expect(markers(out)).toEqual([0xe1, 0xe2]);
+    expect(readJpegMetadata(out.buffer)).toMatchObject({ orientation: 5, icc: [new Uint8Array(ICC)] });
+  });
+
+  it('returns the input unchanged when there is nothing to add', () => {
+    const source = jpeg(JFIF, littleEndianExif(6));
+    expect(injectSegments(source.buffer, [])).toEqual(source);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Minimal JPEG metadata handling: reading EXIF orientation, and moving APP1 (EXIF)
+ * and APP2 (ICC profile) segments from a source JPEG into a canvas-encoded one.
+ */
+
+export interface JpegMetadata {
+  exif: Uint8Array | null; // Full APP1 segment, marker included
+  icc: Uint8Array[]; // APP2 ICC_PROFILE segments, in order
+  orientation: number; // 1 - 8, 1 when absent
+}
+
+const SOI = 0xffd8;
+const APP1 = 0xffe1;
+const APP2 = 0xffe2;
+const SOS = 0xffda;
+const ORIENTATION_TAG = 0x0112;
+
+const isJpeg = (bytes: Uint8Array) => bytes.length > 4 && ((bytes[0] << 8) | bytes[1]) === SOI;
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/** Walks the marker segments before the image data. */
+const segments = (bytes: Uint8Array): { marker: number; start: number; end: number }[] => {
+  const result = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    const marker = (bytes[offset] << 8) | bytes[offset + 1];
+    if ((marker & 0xff00) !== 0xff00 || marker === SOS) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    result.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return result;
+};
+
+/** Locates the orientation entry inside an APP1 segment; returns its value offset. */
+const findOrientation = (exif: Uint8Array): { offset: number; littleEndian: boolean } | null => {
+  const tiff = 10; // marker(2) + length(2) + "Exif\0\0"(6)
+  if (!startsWith(exif, 4, 'Exif') || exif.length < tiff + 8) return null;
+  const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifd + 2 > exif.length) return null;
+
+  const count = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > exif.length) return null;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      return { offset: entry + 8, littleEndian };
+    }
+  }
+  return null;
+};
+
+export const readJpegMetadata = (buffer: ArrayBuffer): JpegMetadata => {
+  const bytes = new Uint8Array(buffer);
+  const metadata: JpegMetadata = { exif: null, icc: [], orientation: 1 };
+  if (!isJpeg(bytes)) return metadata;
+
+  for (const { marker, start, end } of segments(bytes)) {
+    if (marker === APP1 && !metadata.exif && startsWith(bytes, start + 4, 'Exif')) {
+      metadata.exif = bytes.slice(start, end);
+    } else if (marker === APP2 && startsWith(bytes, start + 4, 'ICC_PROFILE')) {
+      metadata.icc.push(bytes.slice(start, end));
+    }
+  }
+
+  if (metadata.exif) {
+    const entry = findOrientation(metadata.exif);
+    if (entry) {
+      const view = new DataView(metadata.exif.buffer, metadata.exif.byteOffset, metadata.exif.byteLength);
+      const value = view.getUint16(entry.offset, entry.littleEndian);
+      metadata.orientation = value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return metadata;
+};
+
+/** Returns a copy of the APP1 segment with its orientation tag overwritten. */
+export const withOrientation = (exif: Uint8Array, orientation: number): Uint8Array => {
+  const copy = exif.slice();
+  const entry = findOrientation(copy);
+  if (entry) {
+    new DataView(copy.buffer).setUint16(entry.offset, orientation, entry.littleEndian);
+  }
+  return copy;
+};
+
+/** Builds an APP1 segment holding nothing but an orientation tag. */
+export const orientationOnlyExif = (orientation: number): Uint8Array => {
+  const tiffLength = 8 + 2 + 12 + 4;
+  const segment = new Uint8Array(4 + 6 + tiffLength);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, APP1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+  const tiff = 10;
+  view.setUint16(tiff, 0x4d4d); // Big endian
+  view.setUint16(tiff + 2, 42);
+  view.setUint32(tiff + 4, 8); // IFD0 offset
+  view.setUint16(tiff + 8, 1); // One entry
+  view.setUint16(tiff + 10, ORIENTATION_TAG);
+  view.setUint16(tiff + 12, 3); // SHORT
+  view.setUint32(tiff + 14, 1);
+  view.setUint16(tiff + 18, orientation);
+  view.setUint32(tiff + 22, 0); // No next IFD
+  return segment;
+};
+
+/** Replaces any EXIF/ICC in `jpeg` with `extra`, inserted right after SOI (and JFIF, if present). */
+export const injectSegments = (jpeg: ArrayBuffer, extra: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(jpeg);
+  if (!isJpeg(bytes) || extra.length === 0) return bytes;
+
+  const parsed = segments(bytes);
+  const jfif = parsed.find(s => s.marker === 0xffe0);
+  const insertAt = jfif ? jfif.end : 2;
+  const dropped = parsed.filter(s => s.marker === APP1 || (s.marker === APP2 && startsWith(bytes, s.start + 4, 'ICC_PROFILE')));
+
+  const chunks: Uint8Array[] = [bytes.subarray(0, insertAt), ...extra];
+  let cursor = insertAt;
+  for (const segment of dropped) {
+    if (segment.start < cursor) continue;
+    chunks.push(bytes.subarray(cursor, segment.start));
+    cursor = segment.end;
+  }
+  chunks.push(bytes.subarray(cursor));
+
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeCanvas, FakeImage } from '../test/fakeCanvas';
+import { readJpegMetadata, orientationOnlyExif } from './exif';
+import { buildFileName, DEFAULT_EXPORT_SETTINGS, encodeExport, ExportSettings, resizeForPreset } from './exportImage';
+
+// A bare JPEG standing in for what the browser encodes: SOI, JFIF, scan, EOI
+const ENCODED = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+  canvasToBlob: vi.fn(async (_canvas: unknown, type: string) => new Blob([ENCODED], { type })),
+}));
+
+const settings = (overrides: Partial<ExportSettings> = {}): ExportSettings => ({ ...DEFAULT_EXPORT_SETTINGS, ...overrides });
+
+// Each pixel encodes its own position, so crops and scales can be read back
+const positions = (width: number, height: number) => {
+  const canvas = new FakeCanvas(width, height);
+  canvas.getContext().drawImage(new FakeImage(width, height, (x, y) => [x % 256, y % 256, Math.floor(x / 256), 255]), 0, 0);
+  return canvas as unknown as OffscreenCanvas;
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('buildFileName', () => {
+  it('fills in the template tokens', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 2, 5, 9, 7, 3));
+    const name = buildFileName(
+      settings({ filenameTemplate: '{name}_{date}_{time}_{width}x{height}_{preset}', sizePreset: 'web', format: 'image/webp' }),
+      { name: 'portrait.final.jpg', width: 2048, height: 1365 }
+    );
+    expect(name).toBe('portrait.final_2024-03-05_090703_2048x1365_web.webp');
+  });
+
+  it('replaces characters file systems reject and never returns an empty name', () => {
+    expect(buildFileName(settings({ filenameTemplate: 'a/b:c*{name}' }), { name: 'x.png', width: 1, height: 1 })).toBe('a-b-c-x.jpg');
+    expect(buildFileName(settings({ filenameTemplate: '  ' }), { name: 'x.png', width: 1, height: 1 })).toBe('dermafix-retouched.jpg');
+  });
+});
+
+describe('resizeForPreset', () => {
+  it('leaves the original size alone', () => {
+    const canvas = positions(300, 200);
+    expect(resizeForPreset(canvas, settings())).toBe(canvas);
+  });
+
+  it('fits the long edge for the web preset without upscaling', () => {
+    const resized = resizeForPreset(positions(1200, 600), settings({ sizePreset: 'web', webLongEdge: 400 }));
+    expect([resized.width, resized.height]).toEqual([400, 200]);
+    const small = positions(300, 200);
+    expect(resizeForPreset(small, settings({ sizePreset: 'web', webLongEdge: 400 }))).toBe(small);
+  });
+
+  it('crops the square around the focus, kept inside the image', () => {
+    const square = (focusX: number) => resizeForPreset(
+      positions(600, 200),
+      settings({ sizePreset: 'square', squareSize: 200 }),
+      { x: focusX, y: 50, width: 40, height: 40 }
+    ) as unknown as FakeCanvas;
+
+    const column = (canvas: FakeCanvas, x: number) => {
+      const [low, , high] = canvas.sample(x, 0);
+      return low + 256 * high;
+    };
+
+    const centred = square(380);
+    expect([centred.width, centred.height]).toEqual([200, 200]);
+    expect(column(centred, 0)).toBe(300);
+    expect(column(square(580), 199)).toBe(599);
+  });
+});
+
+describe('encodeExport', () => {
+  const original = () => {
+    const icc = [0xff, 0xe2, 0x00, 0x0f, ...Array.from('ICC_PROFILE', c => c.charCodeAt(0)), 0, 1];
+    const bytes = new Uint8Array([0xff, 0xd8, ...orientationOnlyExif(6), ...icc, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+    return bytes.buffer;
+  };
+
+  it('returns the plain encoding for formats without metadata', async () => {
+    const blob = await encodeExport(positions(10, 10), settings({ format: 'image/png' }), original());
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(ENCODED);
+  });
+
+  it('carries the colour profile over and drops the orientation of upright pixels', async () => {
+    const blob = await encodeExport(positions(10, 10), settings(), original());
+    const metadata = readJpegMetadata(await blob.arrayBuffer());
+    expect(metadata.icc).toHaveLength(1);
+    expect(metadata.exif).toBeNull();
+    expect(blob.type).toBe('image/jpeg');
+  });
+
+  it('keeps the camera EXIF with its orientation reset when asked', async () => {
+    const blob = await encodeExport(positions(10, 10), settings({ keepCameraMetadata: true, keepColorProfile: false }), original());
+    const metadata = readJpegMetadata(await blob.arrayBuffer());
+    expect(metadata.exif).not.toBeNull();
+    expect(metadata.orientation).toBe(1);
+    expect(metadata.icc).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import { injectSegments, orientationOnlyExif, readJpegMetadata, withOrientation } from './exif';
+import { Canvas, canvasToBlob, createCanvas } from './imageHelpers';
+import { Rect } from './tiling';
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+export type SizePreset = 'original' | 'web' | 'square';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 1 - 100, JPEG/WebP only
+  sizePreset: SizePreset;
+  webLongEdge: number;
+  squareSize: number;
+  filenameTemplate: string;
+  keepOrientation: boolean;
+  keepColorProfile: boolean;
+  keepCameraMetadata: boolean;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'image/jpeg',
+  quality: 92,
+  sizePreset: 'original',
+  webLongEdge: 2048,
+  squareSize: 1080,
+  filenameTemplate: '{name}-retouched',
+  keepOrientation: false,
+  keepColorProfile: true,
+  keepCameraMetadata: false,
+};
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const FILENAME_TOKENS = ['{name}', '{date}', '{time}', '{width}', '{height}', '{preset}'];
+
+const SETTINGS_STORAGE_KEY = 'dermafix.exportSettings';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Downscales in halving steps so large reductions stay sharp without aliasing. */
+const resample = (source: Canvas, sx: number, sy: number, sw: number, sh: number, width: number, height: number) => {
+  let current: Canvas = source;
+  let rect = { x: sx, y: sy, w: sw, h: sh };
+  while (rect.w / 2 >= width && rect.h / 2 >= height) {
+    const [half, ctx] = createCanvas(Math.round(rect.w / 2), Math.round(rect.h / 2));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(current, rect.x, rect.y, rect.w, rect.h, 0, 0, half.width, half.height);
+    current = half;
+    rect = { x: 0, y: 0, w: half.width, h: half.height };
+  }
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(current, rect.x, rect.y, rect.w, rect.h, 0, 0, width, height);
+  return canvas;
+};
+
+/**
+ * Applies the size preset. The square crop is centred on `focus` (the face) when known.
+ */
+export const resizeForPreset = (canvas: Canvas, settings: ExportSettings, focus?: Rect | null): Canvas => {
+  const { width, height } = canvas;
+
+  if (settings.sizePreset === 'web') {
+    const ratio = Math.min(1, settings.webLongEdge / Math.max(width, height));
+    if (ratio === 1) return canvas;
+    return resample(canvas, 0, 0, width, height, Math.round(width * ratio), Math.round(height * ratio));
+  }
+
+  if (settings.sizePreset === 'square') {
+    const side = Math.min(width, height);
+    const cx = focus ? focus.x + focus.width / 2 : width / 2;
+    const cy = focus ? focus.y + focus.height / 2 : height / 2;
+    const x = Math.round(Math.max(0, Math.min(width - side, cx - side / 2)));
+    const y = Math.round(Math.max(0, Math.min(height - side, cy - side / 2)));
+    const size = Math.min(side, settings.squareSize);
+    return resample(canvas, x, y, side, side, size, size);
+  }
+
+  return canvas;
+};
+
+/** Redraws upright pixels back into the sensor orientation described by an EXIF tag. */
+const toSensorOrientation = (canvas: Canvas, orientation: number): Canvas => {
+  // Inverse of each EXIF orientation; 6 and 8 swap, the rest undo themselves
+  const inverse = [1, 1, 2, 3, 4, 5, 8, 7, 6][orientation] || 1;
+  if (inverse === 1) return canvas;
+
+  const w = canvas.width;
+  const h = canvas.height;
+  const [out, ctx] = inverse > 4 ? createCanvas(h, w) : createCanvas(w, h);
+  switch (inverse) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(canvas, 0, 0);
+  return out;
+};
+
+/**
+ * Encodes the export. For JPEG output the original's EXIF and ICC segments can be
+ * carried over; the browser has already applied the EXIF orientation to the pixels,
+ * so keeping the tag means writing the pixels back in sensor orientation.
+ */
+export const encodeExport = async (canvas: Canvas, settings: ExportSettings, originalBytes: ArrayBuffer | null): Promise<Blob> => {
+  const quality = settings.quality / 100;
+  const metadata = originalBytes && settings.format === 'image/jpeg' ? readJpegMetadata(originalBytes) : null;
+  if (!metadata) {
+    return canvasToBlob(canvas, settings.format, quality);
+  }
+
+  const orientation = settings.keepOrientation ? metadata.orientation : 1;
+  const pixels = orientation === 1 ? canvas : toSensorOrientation(canvas, orientation);
+  const encoded = await canvasToBlob(pixels, settings.format, quality);
+
+  const extra: Uint8Array[] = [];
+  if (settings.keepCameraMetadata && metadata.exif) {
+    extra.push(withOrientation(metadata.exif, orientation));
+  } else if (orientation !== 1) {
+    extra.push(orientationOnlyExif(orientation));
+  }
+  if (settings.keepColorProfile) {
+    extra.push(...metadata.icc);
+  }
+  if (extra.length === 0) return encoded;
+
+  return new Blob([injectSegments(await encoded.arrayBuffer(), extra)], { type: settings.format });
+};
+
+export const buildFileName = (
+  settings: ExportSettings,
+  values: { name: string; width: number; height: number }
+): string => {
+  const now = new Date();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const replacements: Record<string, string> = {
+    '{name}': values.name.replace(/\.[^.]+$/, '') || 'dermafix',
+    '{date}': `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    '{time}': `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+    '{width}': String(values.width),
+    '{height}': String(values.height),
+    '{preset}': settings.sizePreset,
+  };
+  const base = Object.entries(replacements)
+    .reduce((name, [token, value]) => name.split(token).join(value), settings.filenameTemplate)
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .trim() || 'dermafix-retouched';
+  return `${base}.${FORMAT_EXTENSIONS[settings.format]}`;
+};
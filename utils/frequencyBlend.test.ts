@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeCanvas, FakeImage } from '../test/fakeCanvas';
+import { FrequencyLayers, frequencyBlend, frequencyBlendUpscaled, mergeFrequencies } from './frequencyBlend';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+const pixel = (value: number) => new Uint8ClampedArray([value, value, value, 255]);
+
+// One pixel whose original is grainier and brighter than its processed version
+const layers: FrequencyLayers = {
+  width: 1,
+  height: 1,
+  original: pixel(100),
+  lowOriginal: pixel(90),
+  processed: pixel(60),
+  lowProcessed: pixel(70),
+};
+
+const merged = (tone: number, texture: number) => (mergeFrequencies(layers, { tone, texture }) as unknown as FakeCanvas).sample(0, 0)[0];
+
+describe('mergeFrequencies', () => {
+  it('reproduces either image at the ends of the sliders', () => {
+    expect(merged(0, 100)).toBe(100);
+    expect(merged(100, 0)).toBe(60);
+  });
+
+  it('takes tone and texture independently', () => {
+    expect(merged(100, 100)).toBe(80);
+    expect(merged(0, 0)).toBe(80);
+    expect(merged(50, 50)).toBe(80);
+  });
+});
+
+describe('frequencyBlend', () => {
+  it('applies the processed tone while keeping the original grain', () => {
+    // A reddish grainy original and a smooth, calmer processed layer
+    const original = new FakeImage(500, 4, x => [(x % 2 ? 200 : 160), 120, 110, 255]);
+    const processed = new FakeImage(500, 4, () => [150, 125, 115, 255]);
+    const blended = frequencyBlend(original as unknown as CanvasImageSource, processed as unknown as CanvasImageSource, 500, 4, { tone: 100, texture: 100 }) as unknown as FakeCanvas;
+
+    const reds = Array.from({ length: 10 }, (_, i) => blended.sample(100 + i, 2)[0]);
+    const mean = reds.reduce((sum, v) => sum + v, 0) / reds.length;
+    expect(Math.abs(mean - 150)).toBeLessThan(3);
+    expect(Math.max(...reds) - Math.min(...reds)).toBeGreaterThan(30);
+    expect(blended.sample(100, 2)[1]).toBe(125);
+  });
+});
+
+describe('frequencyBlendUpscaled', () => {
+  it('adds the change made to the working copy to the larger original, keeping its finer grain', () => {
+    // Grain one pixel wide, which the half-size working copy averages away
+    const original = new FakeImage(400, 4, x => [(x % 2 ? 200 : 160), 120, 110, 255]);
+    const working = new FakeImage(200, 2, () => [180, 120, 110, 255]);
+    const processed = new FakeImage(200, 2, () => [150, 120, 110, 255]);
+    const blended = frequencyBlendUpscaled(
+      original as unknown as CanvasImageSource,
+      working as unknown as CanvasImageSource,
+      processed as unknown as CanvasImageSource,
+      400, 4, 200, 2,
+      { tone: 100, texture: 100 }
+    ) as unknown as FakeCanvas;
+
+    expect([blended.width, blended.height]).toEqual([400, 4]);
+    expect(Array.from({ length: 4 }, (_, i) => blended.sample(200 + i, 1)[0])).toEqual([130, 170, 130, 170]);
+    expect(blended.sample(200, 1)[1]).toBe(120);
+  });
+});
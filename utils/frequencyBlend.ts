@@ -0,0 +1,155 @@
+import { Canvas, createCanvas } from './imageHelpers';
+
+// Low-pass radius as a fraction of the image width, so preview and export split at the same feature size
+const LOW_PASS_FRACTION = 0.004;
+
+export interface BlendSettings {
+  /** How much of the processed image's tone and colour (low frequencies) to apply, 0 - 100. */
+  tone: number;
+  /** How much of the original's fine detail (high frequencies) to keep, 0 - 100. */
+  texture: number;
+}
+
+const pixels = (source: CanvasImageSource, width: number, height: number, blur = 0): Uint8ClampedArray => {
+  const [, ctx] = createCanvas(width, height);
+  if (blur > 0) ctx.filter = `blur(${blur}px)`;
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+/** Both images and their low-pass layers at one render size. */
+export interface FrequencyLayers {
+  width: number;
+  height: number;
+  original: Uint8ClampedArray;
+  processed: Uint8ClampedArray;
+  lowOriginal: Uint8ClampedArray;
+  lowProcessed: Uint8ClampedArray;
+}
+
+/** The expensive half of the blend; the preview caches it while the sliders move. */
+export const splitFrequencies = (
+  original: CanvasImageSource,
+  processed: CanvasImageSource,
+  width: number,
+  height: number
+): FrequencyLayers => {
+  const radius = Math.max(1, width * LOW_PASS_FRACTION);
+  return {
+    width,
+    height,
+    original: pixels(original, width, height),
+    processed: pixels(processed, width, height),
+    lowOriginal: pixels(original, width, height, radius),
+    lowProcessed: pixels(processed, width, height, radius),
+  };
+};
+
+/**
+ * Recombines split layers: the original's low frequencies moved `tone`% towards the
+ * processed ones, plus a `texture`% mix of the original's detail (the rest from the
+ * processed image). tone 0 / texture 100 is the original, tone 100 / texture 0 the
+ * processed image.
+ */
+export const mergeFrequencies = (layers: FrequencyLayers, { tone, texture }: BlendSettings): Canvas => {
+  const { width, height, original: o, processed: p, lowOriginal: lowO, lowProcessed: lowP } = layers;
+  const t = tone / 100;
+  const k = texture / 100;
+  const [canvas, ctx] = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const low = lowO[i + c] + t * (lowP[i + c] - lowO[i + c]);
+      const detail = k * (o[i + c] - lowO[i + c]) + (1 - k) * (p[i + c] - lowP[i + c]);
+      out.data[i + c] = low + detail;
+    }
+    out.data[i + 3] = 255;
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+/**
+ * Frequency-separation blend of an aligned processed layer over the original, rendered
+ * at `width` x `height`: tone and colour come from the low frequencies, pores and grain
+ * from the high ones, so mid settings don't leave double-edged blemishes.
+ * Preview and export both go through this math, so they only differ in resolution.
+ */
+export const frequencyBlend = (
+  original: CanvasImageSource,
+  processed: CanvasImageSource,
+  width: number,
+  height: number,
+  blend: BlendSettings
+): Canvas => mergeFrequencies(splitFrequencies(original, processed, width, height), blend);
+
+/**
+ * The blend of a layer aligned to `reference` (the working copy), applied to the
+ * larger `original` at `width` x `height`. The layer only holds detail up to the
+ * working copy's resolution, so it isn't stretched over the original. Instead, the
+ * change the blend makes to the working copy is scaled up bilinearly and added to the
+ * original. Detail finer than the working copy comes from the original unchanged.
+ */
+export const frequencyBlendUpscaled = (
+  original: CanvasImageSource,
+  reference: CanvasImageSource,
+  processed: CanvasImageSource,
+  width: number,
+  height: number,
+  referenceWidth: number,
+  referenceHeight: number,
+  blend: BlendSettings
+): Canvas => {
+  const rw = referenceWidth;
+  const rh = referenceHeight;
+  const before = pixels(reference, rw, rh);
+  const after = pixels(frequencyBlend(reference, processed, rw, rh, blend), rw, rh);
+  const delta = new Int16Array(rw * rh * 3);
+  for (let i = 0, j = 0; i < before.length; i += 4, j += 3) {
+    for (let c = 0; c < 3; c++) {
+      delta[j + c] = after[i + c] - before[i + c];
+    }
+  }
+
+  // Source sample positions, pixel centre to pixel centre, with the weight of the next sample
+  const axis = (size: number, referenceSize: number) => {
+    const lower = new Int32Array(size);
+    const upper = new Int32Array(size);
+    const weight = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const pos = Math.min(Math.max((i + 0.5) * referenceSize / size - 0.5, 0), referenceSize - 1);
+      lower[i] = Math.floor(pos);
+      upper[i] = Math.min(lower[i] + 1, referenceSize - 1);
+      weight[i] = pos - lower[i];
+    }
+    return { lower, upper, weight };
+  };
+  const xs = axis(width, rw);
+  const ys = axis(height, rh);
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0, width, height);
+  const out = ctx.getImageData(0, 0, width, height);
+  const data = out.data;
+  for (let y = 0; y < height; y++) {
+    const row0 = ys.lower[y] * rw;
+    const row1 = ys.upper[y] * rw;
+    const fy = ys.weight[y];
+    for (let x = 0; x < width; x++) {
+      const a = (row0 + xs.lower[x]) * 3;
+      const b = (row0 + xs.upper[x]) * 3;
+      const c = (row1 + xs.lower[x]) * 3;
+      const d = (row1 + xs.upper[x]) * 3;
+      const fx = xs.weight[x];
+      const i = (y * width + x) * 4;
+      for (let k = 0; k < 3; k++) {
+        const top = delta[a + k] + fx * (delta[b + k] - delta[a + k]);
+        const bottom = delta[c + k] + fx * (delta[d + k] - delta[c + k]);
+        data[i + k] += Math.round(top + fy * (bottom - top));
+      }
+      data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
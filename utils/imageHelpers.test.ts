@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { base64ToBlob, blobToBase64, canvasToBlob, createCanvas, revokeObjectUrl, toObjectUrl, urlToBlob } from './imageHelpers';
+
+let nextUrl = 0;
+
+beforeEach(() => {
+  // jsdom has no object URLs
+  URL.createObjectURL = vi.fn(() => `blob:test/${nextUrl++}`);
+  URL.revokeObjectURL = vi.fn();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('object URLs', () => {
+  it('gives back the Blob behind a URL without fetching it', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    const blob = new Blob(['pixels'], { type: 'image/png' });
+    const url = toObjectUrl(blob);
+    expect(await urlToBlob(url)).toBe(blob);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('only revokes URLs it handed out, once', () => {
+    const url = toObjectUrl(new Blob(['pixels']));
+    revokeObjectUrl(url);
+    revokeObjectUrl(url);
+    revokeObjectUrl('data:image/png;base64,AAAA');
+    expect(URL.revokeObjectURL).toHaveBeenCalledExactlyOnceWith(url);
+  });
+
+  it('fetches references it doesn\'t know, like saved data URLs', async () => {
+    const blob = new Blob(['thumb'], { type: 'image/jpeg' });
+    vi.stubGlobal('fetch', vi.fn(async () => ({ blob: async () => blob })));
+    expect(await urlToBlob('data:image/jpeg;base64,dGh1bWI=')).toBe(blob);
+  });
+});
+
+describe('base64', () => {
+  it('round-trips bytes through raw base64', async () => {
+    const blob = base64ToBlob('AAEC/w==', 'image/png');
+    expect(blob.type).toBe('image/png');
+    expect(await blobToBase64(blob)).toBe('AAEC/w==');
+  });
+});
+
+describe('canvases', () => {
+  it('draws on a detached <canvas> where OffscreenCanvas is missing', async () => {
+    // jsdom has neither OffscreenCanvas nor a 2D context, so the context and encoder are stand-ins
+    const ctx = {} as CanvasRenderingContext2D;
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(ctx);
+    const encoded = new Blob(['png'], { type: 'image/png' });
+    const toBlob = vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => callback(encoded));
+
+    const [canvas, context] = createCanvas(3, 2);
+    expect(canvas).toBeInstanceOf(HTMLCanvasElement);
+    expect([canvas.width, canvas.height]).toEqual([3, 2]);
+    expect(context).toBe(ctx);
+    expect(await canvasToBlob(canvas, 'image/png')).toBe(encoded);
+
+    toBlob.mockImplementation(callback => callback(null));
+    await expect(canvasToBlob(canvas, 'image/png')).rejects.toThrow('Failed to encode image.');
+  });
+});
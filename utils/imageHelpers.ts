@@ -1,16 +1,133 @@
-export const fileToBase64 = (file: File): Promise<string> => {
+// Object URLs handed out by toObjectUrl, with the Blob behind each, so the bytes can be had back without a fetch
+const objectUrlBlobs = new Map<string, Blob>();
+
+/**
+ * Image references in app state are object URLs: an <img> can show them without a
+ * multi-megabyte string in the DOM, and the bytes stay in the Blob.
+ */
+export const toObjectUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  objectUrlBlobs.set(url, blob);
+  return url;
+};
+
+export const revokeObjectUrl = (url: string) => {
+  if (!objectUrlBlobs.delete(url)) return;
+  URL.revokeObjectURL(url);
+};
+
+/** The Blob behind an image reference; also takes data URLs, e.g. saved thumbnails. */
+export const urlToBlob = async (url: string): Promise<Blob> => {
+  const known = objectUrlBlobs.get(url);
+  if (known) return known;
+  const response = await fetch(url);
+  return response.blob();
+};
+
+/** Raw base64, without a data URL prefix; only providers need images in this form. */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(blob);
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
   });
 };
 
-export const getBase64Data = (dataUrl: string): string => {
-  return dataUrl.split(',')[1];
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/** Decodes an image reference or a Blob into an <img>; a Blob only gets an object URL while it loads. */
+export const loadImage = (src: string | Blob): Promise<HTMLImageElement> => {
+  const url = typeof src === 'string' ? src : URL.createObjectURL(src);
+  const release = () => {
+    if (typeof src !== 'string') URL.revokeObjectURL(url);
+  };
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      release();
+      resolve(img);
+    };
+    img.onerror = () => {
+      release();
+      reject(new Error("Failed to decode image."));
+    };
+    img.src = url;
+  });
 };
 
-export const getMimeType = (dataUrl: string): string => {
-  return dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
-};
\ No newline at end of file
+/** A canvas off the DOM: OffscreenCanvas, or a detached <canvas> where that's missing. */
+export type Canvas = OffscreenCanvas | HTMLCanvasElement;
+export type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+/** The 2D context of either kind of canvas; TypeScript can't pick the overload for the union. */
+export const getContext2D = (canvas: Canvas): Canvas2D | null => canvas.getContext('2d') as Canvas2D | null;
+
+/**
+ * Off-DOM canvas; the same code runs on the main thread and in the image worker.
+ * Browsers without OffscreenCanvas get a detached <canvas>, which only exists on the
+ * main thread; in the worker the task then fails and runImageTask runs it here instead.
+ */
+export const createCanvas = (width: number, height: number): [Canvas, Canvas2D] => {
+  let canvas: Canvas;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(width, height);
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const ctx = getContext2D(canvas);
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  return [canvas, ctx];
+};
+
+export const canvasToBlob = async (canvas: Canvas, mimeType: string, quality?: number): Promise<Blob> => {
+  const blob = await ('convertToBlob' in canvas
+    ? canvas.convertToBlob({ type: mimeType, quality }).catch(() => null)
+    : new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality)));
+  if (!blob) {
+    throw new Error("Failed to encode image.");
+  }
+  return blob;
+};
+
+export const canvasToObjectUrl = async (canvas: Canvas, mimeType: string, quality?: number): Promise<string> => (
+  toObjectUrl(await canvasToBlob(canvas, mimeType, quality))
+);
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Small JPEG data URL whose long edge is at most `size` pixels; small enough to store as text. */
+export const createThumbnail = async (src: string, size = 160): Promise<string> => {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight));
+  const [canvas, ctx] = createCanvas(
+    Math.max(1, Math.round(img.naturalWidth * ratio)),
+    Math.max(1, Math.round(img.naturalHeight * ratio))
+  );
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.8);
+  return `data:image/jpeg;base64,${await blobToBase64(blob)}`;
+};
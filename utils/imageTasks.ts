@@ -0,0 +1,87 @@
+import { BrushStroke, ImageSource, Spot } from '../types';
+import { renderManualMask } from './brushMask';
+import { compositeRetouch } from './compositor';
+import { encodeExport, ExportSettings, resizeForPreset } from './exportImage';
+import { BlendSettings } from './frequencyBlend';
+import { ingestImage, renderSource } from './ingest';
+import { Rect } from './tiling';
+
+/** Where a layer shows through: an image stretched over the frame, or spots and strokes rasterised at the export size. */
+export type ExportMask =
+  | { kind: 'image'; image: Blob }
+  | { kind: 'manual'; spots: Spot[]; strokes: BrushStroke[] };
+
+/** Everything an export needs, as Blobs and plain data so it can be posted to the image worker. */
+export interface ExportJob {
+  /** The working copy; layers, masks and the face box are aligned to it. */
+  working: Blob;
+  /** Composited at its resolution instead when it's larger than the working copy. */
+  source: ImageSource | null;
+  layers: { image: Blob; mask: ExportMask | null }[];
+  blend: BlendSettings;
+  settings: ExportSettings;
+  /** In working-copy pixels; centres square crops. */
+  faceBox: Rect | null;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const decode = (blob: Blob) => createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+/**
+ * Composites, sizes and encodes one export: the full-resolution source (or the
+ * working copy) with every layer blended over it, masks scaled up from the working
+ * copy, and the source's metadata carried over as the settings ask.
+ */
+export const runExport = async (job: ExportJob): Promise<ExportResult> => {
+  const working = await decode(job.working);
+  const bitmaps = [working];
+  try {
+    const fullResolution = job.source && job.source.width > working.width ? await renderSource(job.source) : null;
+    const base = fullResolution ?? working;
+    const { width, height } = base;
+    const scale = width / working.width;
+
+    const layers = await Promise.all(job.layers.map(async ({ image, mask }) => {
+      const layerImage = await decode(image);
+      bitmaps.push(layerImage);
+      if (!mask) return { image: layerImage, mask: null };
+      if (mask.kind === 'manual') {
+        return { image: layerImage, mask: renderManualMask(width, height, mask.spots, mask.strokes, working.width, working.height) };
+      }
+      const maskImage = await decode(mask.image);
+      bitmaps.push(maskImage);
+      return { image: layerImage, mask: maskImage };
+    }));
+
+    const composite = compositeRetouch(base, layers, job.blend, working);
+    const faceBox = job.faceBox && {
+      x: job.faceBox.x * scale,
+      y: job.faceBox.y * scale,
+      width: job.faceBox.width * scale,
+      height: job.faceBox.height * scale,
+    };
+    const sized = resizeForPreset(composite, job.settings, faceBox);
+    const metadataFrom = job.source?.blob ?? job.working;
+    const blob = await encodeExport(sized, job.settings, await metadataFrom.arrayBuffer());
+    return { blob, width: sized.width, height: sized.height };
+  } finally {
+    bitmaps.forEach(bitmap => bitmap.close());
+  }
+};
+
+/**
+ * The heavy image work that runs in the image worker: decoding and ingesting opened
+ * files, and compositing exports. Each task takes one cloneable input.
+ */
+export const IMAGE_TASKS = {
+  ingest: ({ file, name }: { file: Blob; name: string }) => ingestImage(file, name),
+  export: runExport,
+};
+
+export type ImageTasks = typeof IMAGE_TASKS;
+export type ImageTaskName = keyof ImageTasks;
@@ -0,0 +1,28 @@
+/**
+ * Entry point of the image worker. Runs one task from IMAGE_TASKS per message and
+ * posts back its result, or the error's name and message.
+ */
+import { IMAGE_TASKS, ImageTaskName } from './imageTasks';
+
+export interface ImageTaskRequest {
+  id: number;
+  task: ImageTaskName;
+  input: unknown;
+}
+
+export type ImageTaskResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: { name: string; message: string } };
+
+self.onmessage = async (event: MessageEvent<ImageTaskRequest>) => {
+  const { id, task, input } = event.data;
+  let response: ImageTaskResponse;
+  try {
+    const run = IMAGE_TASKS[task] as (input: unknown) => Promise<unknown>;
+    response = { id, result: await run(input) };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    response = { id, error: { name: error.name, message: error.message } };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ImageTaskRequest, ImageTaskResponse } from './imageWorker';
+
+vi.mock('./imageTasks', () => ({
+  IMAGE_TASKS: {
+    ingest: vi.fn(async ({ name }: { name: string }) => {
+      if (name.endsWith('.heic')) throw new Error("Can't decode HEIC here either.");
+      return `inline ${name}`;
+    }),
+    export: vi.fn(),
+  },
+}));
+
+/** Stands in for the module worker; the test answers the posted requests. */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  requests: ImageTaskRequest[] = [];
+  terminated = false;
+  onmessage: ((event: { data: ImageTaskResponse }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: ImageTaskRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(response: ImageTaskResponse) {
+    this.onmessage?.({ data: response });
+  }
+}
+
+// The client keeps its worker in module state, so each test starts from a fresh copy
+const loadClient = async () => {
+  vi.resetModules();
+  return import('./imageWorkerClient');
+};
+
+const file = new Blob(['pixels']);
+
+beforeEach(() => {
+  FakeWorker.instances = [];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runImageTask', () => {
+  it('runs the task on this thread without worker support', async () => {
+    const { runImageTask } = await loadClient();
+    expect(await runImageTask('ingest', { file, name: 'a.jpg' })).toBe('inline a.jpg');
+  });
+
+  it('posts tasks to one worker and matches the replies to them', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const { runImageTask } = await loadClient();
+    const first = runImageTask('ingest', { file, name: 'a.jpg' });
+    const second = runImageTask('ingest', { file, name: 'b.jpg' });
+    const [worker] = FakeWorker.instances;
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(worker.requests.map(({ task, input }) => [task, input])).toEqual([
+      ['ingest', { file, name: 'a.jpg' }],
+      ['ingest', { file, name: 'b.jpg' }],
+    ]);
+
+    worker.reply({ id: worker.requests[1].id, result: 'B' });
+    worker.reply({ id: worker.requests[0].id, result: 'A' });
+    expect(await first).toBe('A');
+    expect(await second).toBe('B');
+  });
+
+  it('runs a task the worker fails again on this thread, reporting that attempt', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const { runImageTask } = await loadClient();
+    const retried = runImageTask('ingest', { file, name: 'a.jpg' });
+    const failing = runImageTask('ingest', { file, name: 'b.heic' });
+    const [worker] = FakeWorker.instances;
+    worker.reply({ id: worker.requests[0].id, error: { name: 'Error', message: 'OffscreenCanvas is not defined' } });
+    worker.reply({ id: worker.requests[1].id, error: { name: 'ImageIngestError', message: "Can't decode HEIC." } });
+    expect(await retried).toBe('inline a.jpg');
+    await expect(failing).rejects.toThrow("Can't decode HEIC here either.");
+  });
+
+  it('falls back for tasks queued on a broken worker and starts a new one for the next', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const { runImageTask } = await loadClient();
+    const task = runImageTask('ingest', { file, name: 'a.jpg' });
+    const [broken] = FakeWorker.instances;
+    broken.onerror?.({ message: 'Script error', preventDefault: () => {} });
+    expect(await task).toBe('inline a.jpg');
+    expect(broken.terminated).toBe(true);
+
+    const next = runImageTask('ingest', { file, name: 'b.jpg' });
+    const [, fresh] = FakeWorker.instances;
+    fresh.reply({ id: fresh.requests[0].id, result: 'B' });
+    expect(await next).toBe('B');
+  });
+});
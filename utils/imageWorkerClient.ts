@@ -0,0 +1,79 @@
+import { ImageIngestError } from './ingest';
+import { IMAGE_TASKS, ImageTaskName, ImageTasks } from './imageTasks';
+import type { ImageTaskRequest, ImageTaskResponse } from './imageWorker';
+
+type TaskInput<K extends ImageTaskName> = Parameters<ImageTasks[K]>[0];
+type TaskResult<K extends ImageTaskName> = Awaited<ReturnType<ImageTasks[K]>>;
+
+interface Pending {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, Pending>();
+
+// Errors cross the worker boundary as name and message; ingestion errors carry text for the user
+const toError = ({ name, message }: { name: string; message: string }): Error => {
+  if (name === 'ImageIngestError') return new ImageIngestError(message);
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ImageTaskResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if ('error' in response) request.reject(toError(response.error));
+      else request.resolve(response.result);
+    };
+    // A worker that fails to load fails everything queued on it; the next task starts a fresh one
+    worker.onerror = (event) => {
+      event.preventDefault();
+      pending.forEach(request => request.reject(new Error(event.message || "The image worker stopped.")));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const runInline = <K extends ImageTaskName>(task: K, input: TaskInput<K>): Promise<TaskResult<K>> => (
+  (IMAGE_TASKS[task] as (input: TaskInput<K>) => Promise<TaskResult<K>>)(input)
+);
+
+const runInWorker = <K extends ImageTaskName>(task: K, input: TaskInput<K>): Promise<TaskResult<K>> => (
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    // The worker runs the same IMAGE_TASKS entry, so its result has the task's type
+    pending.set(id, { resolve: result => resolve(result as TaskResult<K>), reject });
+    const request: ImageTaskRequest = { id, task, input };
+    getWorker().postMessage(request);
+  })
+);
+
+/**
+ * Runs a decoding or compositing task in the image worker, off the main thread, so
+ * large files don't freeze the page. Inputs and results are Blobs and plain data,
+ * which are passed by reference rather than copied.
+ *
+ * A task the worker can't finish is run again here: workers have no <img>, which
+ * some browsers need for HEIC and TIFF, and some lack OffscreenCanvas, which the
+ * main thread replaces with a detached <canvas>. Errors from that second attempt
+ * are the ones reported.
+ */
+export const runImageTask = async <K extends ImageTaskName>(task: K, input: TaskInput<K>): Promise<TaskResult<K>> => {
+  if (typeof Worker === 'undefined') return runInline(task, input);
+  try {
+    return await runInWorker(task, input);
+  } catch {
+    return runInline(task, input);
+  }
+};
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageIngestError, ingestImage, isImageFile } from './ingest';
+
+const JPEG = Uint8Array.of(0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xd9);
+const PNG = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0);
+const HEIC = Uint8Array.of(0, 0, 0, 0x18, ...new TextEncoder().encode('ftypheic'), 0, 0, 0, 0);
+
+class FakeBitmap {
+  closed = false;
+  constructor(readonly width: number, readonly height: number) {}
+  close() {
+    this.closed = true;
+  }
+}
+
+const decoded: FakeBitmap[] = [];
+
+beforeEach(() => {
+  decoded.length = 0;
+  vi.stubGlobal('ImageBitmap', FakeBitmap);
+  vi.stubGlobal('createImageBitmap', vi.fn(async (blob: Blob) => {
+    if (blob.type === 'image/heic') throw new Error('Unsupported');
+    const bitmap = new FakeBitmap(800, 600);
+    decoded.push(bitmap);
+    return bitmap;
+  }));
+  // The <img> fallback can't decode anything in jsdom either
+  HTMLImageElement.prototype.decode = () => Promise.reject(new Error('Unsupported'));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  delete (HTMLImageElement.prototype as Partial<HTMLImageElement>).decode;
+});
+
+describe('isImageFile', () => {
+  it('takes image types and the extensions browsers leave unlabeled', () => {
+    expect(isImageFile(new File([], 'a.jpg', { type: 'image/jpeg' }))).toBe(true);
+    expect(isImageFile(new File([], 'IMG_0001.HEIC'))).toBe(true);
+    expect(isImageFile(new File([], 'scan.tif'))).toBe(true);
+    expect(isImageFile(new File([], 'DSC_0001.NEF'))).toBe(true);
+    expect(isImageFile(new File([], 'notes.txt', { type: 'text/plain' }))).toBe(false);
+  });
+});
+
+describe('ingestImage', () => {
+  it('uses an upright JPEG without a profile as it is, and keeps the file as the source', async () => {
+    const file = new File([JPEG], 'portrait.jpg', { type: 'image/jpeg' });
+    const result = await ingestImage(file, file.name);
+    expect(result.working).toBe(file);
+    expect(result.source).toEqual({ blob: file, format: 'jpeg', width: 800, height: 600 });
+    expect([result.width, result.height]).toEqual([800, 600]);
+    expect(decoded[0].closed).toBe(true);
+  });
+
+  it('tells the format from the bytes rather than the name', async () => {
+    const result = await ingestImage(new File([PNG], 'renamed.jpg', { type: 'image/png' }), 'renamed.jpg');
+    expect(result.source.format).toBe('png');
+  });
+
+  it('explains files that can\'t be decoded', async () => {
+    const heic = ingestImage(new File([HEIC], 'IMG_0001.HEIC', { type: 'image/heic' }), 'IMG_0001.HEIC');
+    await expect(heic).rejects.toBeInstanceOf(ImageIngestError);
+    await expect(heic).rejects.toThrow(/can't decode HEIC/);
+
+    // A TIFF-based RAW container without any JPEG preview
+    const raw = Uint8Array.of(0x49, 0x49, 42, 0, 8, 0, 0, 0, 0, 0, 0, 0, 0, 0);
+    await expect(ingestImage(new File([raw], 'DSC_0001.NEF'), 'DSC_0001.NEF')).rejects.toThrow(/no preview/);
+  });
+});
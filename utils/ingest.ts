@@ -0,0 +1,236 @@
+import { ImageSource, SourceFormat } from '../types';
+import { readJpegMetadata } from './exif';
+import { Canvas, canvasToBlob, createCanvas, getContext2D } from './imageHelpers';
+import { decodeTiff, findTiffPreviews, isTiff, readTiffOrientation, scanEmbeddedJpegs } from './tiff';
+
+/**
+ * Long edge of the working copy that the editor, segmentation and providers use.
+ * Retouching never sees more detail than this; exports add its changes to the full-resolution source.
+ */
+export const WORKING_LONG_EDGE = 3072;
+const WORKING_QUALITY = 0.95;
+
+const RAW_EXTENSIONS = ['dng', 'cr2', 'cr3', 'nef', 'nrw', 'arw', 'orf', 'rw2', 'raf', 'pef', 'srw'];
+// Formats browsers often leave unlabeled (empty File.type) or don't list under image/*
+const EXTRA_EXTENSIONS = ['heic', 'heif', 'tif', 'tiff', ...RAW_EXTENSIONS];
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/** `accept` value for file inputs. */
+export const ACCEPTED_IMAGE_FILES = ['image/*', ...EXTRA_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+/** Shown where the upload zone lists what it takes. */
+export const SUPPORTED_FORMATS_LABEL = 'JPG, PNG, WebP, HEIC, TIFF, RAW previews';
+
+/** A file that can't be turned into a working image; the message is meant for the user. */
+export class ImageIngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageIngestError';
+  }
+}
+
+export interface IngestedImage {
+  /** Upright, sRGB, at most WORKING_LONG_EDGE on its long side. */
+  working: Blob;
+  width: number;
+  height: number;
+  source: ImageSource;
+}
+
+/** Pixels as decoded, plus the EXIF orientation still to be applied to them. */
+interface Decoded {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  orientation: number;
+  /** Whether the data came through unchanged and may stand in for the working copy. */
+  passthrough: boolean;
+}
+
+const extension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+/** Drops and pickers can include anything; this keeps what ingestion may be able to read. */
+export const isImageFile = (file: File): boolean => (
+  file.type.startsWith('image/') || EXTRA_EXTENSIONS.includes(extension(file.name))
+);
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => (
+  String.fromCharCode(...bytes.subarray(start, start + length))
+);
+
+const sniffFormat = (bytes: Uint8Array, name: string): SourceFormat => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (HEIF_BRANDS.includes(brand)) return 'heic';
+    if (brand === 'crx ') return 'raw';
+    return 'other';
+  }
+  if (ascii(bytes, 0, 15) === 'FUJIFILMCCD-RAW') return 'raw';
+  if (isTiff(bytes)) return RAW_EXTENSIONS.includes(extension(name)) ? 'raw' : 'tiff';
+  return 'other';
+};
+
+/**
+ * Decodes with the browser, which applies EXIF orientation and converts embedded
+ * colour profiles on the way. On the main thread, falls back to an <img> where
+ * createImageBitmap can't take the format; workers have no <img>.
+ */
+const decodeNative = async (blob: Blob): Promise<{ image: CanvasImageSource; width: number; height: number }> => {
+  try {
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image', colorSpaceConversion: 'default' });
+    return { image: bitmap, width: bitmap.width, height: bitmap.height };
+  } catch (err) {
+    if (typeof Image === 'undefined') throw err;
+    const url = URL.createObjectURL(blob);
+    try {
+      const img = new Image();
+      img.src = url;
+      await img.decode();
+      return { image: img, width: img.naturalWidth, height: img.naturalHeight };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+/** Tries each embedded JPEG, largest first, until the browser decodes one. */
+const decodePreview = async (blob: Blob, bytes: Uint8Array): Promise<Decoded | null> => {
+  const tiffPreviews = findTiffPreviews(bytes);
+  const previews = tiffPreviews.length ? tiffPreviews : scanEmbeddedJpegs(bytes);
+  // Previews rarely carry their own orientation; the RAW container's IFD0 has it
+  const containerOrientation = readTiffOrientation(bytes);
+  for (const preview of previews) {
+    const jpeg = bytes.subarray(preview.offset, preview.offset + preview.length);
+    const ownOrientation = readJpegMetadata(jpeg.slice(0, Math.min(jpeg.length, 65536)).buffer).orientation;
+    try {
+      const decoded = await decodeNative(blob.slice(preview.offset, preview.offset + preview.length, 'image/jpeg'));
+      return { ...decoded, orientation: ownOrientation === 1 ? containerOrientation : 1, passthrough: false };
+    } catch {
+      // Try the next one
+    }
+  }
+  return null;
+};
+
+const decodeSource = async (blob: Blob, format: SourceFormat): Promise<Decoded> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  if (format === 'raw') {
+    const preview = await decodePreview(blob, bytes);
+    if (preview) return preview;
+    throw new ImageIngestError("This RAW file has no preview the browser can decode. Export it as JPEG or TIFF from your RAW editor first.");
+  }
+
+  if (format === 'tiff') {
+    // Safari decodes TIFF itself; elsewhere baseline files are decoded here
+    const native = await decodeNative(blob).catch(() => null);
+    if (native) return { ...native, orientation: 1, passthrough: false };
+    const pixels = await decodeTiff(bytes);
+    if (pixels) {
+      const [canvas, ctx] = createCanvas(pixels.width, pixels.height);
+      ctx.putImageData(pixels, 0, 0);
+      return { image: canvas, width: pixels.width, height: pixels.height, orientation: readTiffOrientation(bytes), passthrough: false };
+    }
+    const preview = await decodePreview(blob, bytes);
+    if (preview) return preview;
+    throw new ImageIngestError("This TIFF uses a layout that can't be decoded here (tiled, CMYK or JPEG-compressed). Save it as an uncompressed or LZW TIFF, or as JPEG.");
+  }
+
+  try {
+    const decoded = await decodeNative(blob);
+    // Only files the browser shows as-is are reused byte for byte: no rotation, no profile to convert
+    const metadata = format === 'jpeg' ? readJpegMetadata(bytes.buffer) : null;
+    const passthrough = format === 'png' || (format === 'jpeg' && metadata!.orientation === 1 && metadata!.icc.length === 0);
+    return { ...decoded, orientation: 1, passthrough };
+  } catch {
+    if (format === 'heic') {
+      throw new ImageIngestError("This browser can't decode HEIC photos. Open the app in Safari, or export the photo as JPEG first (on iPhone: Settings › Camera › Formats › Most Compatible).");
+    }
+    throw new ImageIngestError("This file couldn't be decoded as an image. Please try a JPG, PNG or WebP.");
+  }
+};
+
+/**
+ * Draws decoded pixels upright, scaled so the long edge is at most `longEdge`, into
+ * an sRGB canvas. Orientations 5 - 8 swap width and height.
+ */
+const renderUpright = ({ image, width, height, orientation }: Decoded, longEdge: number): Canvas => {
+  const ratio = Math.min(1, longEdge / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * ratio));
+  const h = Math.max(1, Math.round(height * ratio));
+  const swap = orientation >= 5;
+  const [canvas, ctx] = createCanvas(swap ? h : w, swap ? w : h);
+  ctx.imageSmoothingQuality = 'high';
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(image, 0, 0, w, h);
+  return canvas;
+};
+
+const release = ({ image }: Decoded) => {
+  if (image instanceof ImageBitmap) image.close();
+};
+
+const hasTransparency = (canvas: Canvas): boolean => {
+  const data = getContext2D(canvas)!.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Turns a picked or dropped file into the editor's working copy. HEIC, WebP and
+ * TIFF are decoded locally (RAW files through their embedded JPEG preview), EXIF
+ * orientation is applied, colour profiles are converted to sRGB by the browser's
+ * colour management, and the result is scaled down to WORKING_LONG_EDGE. Files that
+ * need none of that are used as they are. The file itself comes back as `source`
+ * for the full-resolution export.
+ *
+ * @param name File name; the extension tells TIFF-based RAW files from plain TIFFs.
+ * @throws ImageIngestError with a message for the user when the file can't be read.
+ */
+export const ingestImage = async (file: Blob, name: string): Promise<IngestedImage> => {
+  const head = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  const format = sniffFormat(head, name);
+  const decoded = await decodeSource(file, format);
+  const upright = decoded.orientation >= 5;
+  const source: ImageSource = {
+    blob: file,
+    format,
+    width: upright ? decoded.height : decoded.width,
+    height: upright ? decoded.width : decoded.height,
+  };
+
+  try {
+    if (decoded.passthrough && Math.max(decoded.width, decoded.height) <= WORKING_LONG_EDGE) {
+      return { working: file, width: source.width, height: source.height, source };
+    }
+    const canvas = renderUpright(decoded, WORKING_LONG_EDGE);
+    const mimeType = format !== 'jpeg' && format !== 'heic' && hasTransparency(canvas) ? 'image/png' : 'image/jpeg';
+    const working = await canvasToBlob(canvas, mimeType, WORKING_QUALITY);
+    return { working, width: canvas.width, height: canvas.height, source };
+  } finally {
+    release(decoded);
+  }
+};
+
+/** The source decoded again, upright and sRGB like the working copy but at full resolution. */
+export const renderSource = async (source: ImageSource): Promise<Canvas> => {
+  const decoded = await decodeSource(source.blob, source.format);
+  try {
+    return renderUpright(decoded, Infinity);
+  } finally {
+    release(decoded);
+  }
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { inpaint } from './inpaint';
+
+const W = 64;
+const H = 64;
+
+const image = (pixel: (x: number, y: number) => number): ImageData => {
+  const data = new Uint8ClampedArray(W * H * 4);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const i = (y * W + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = pixel(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { width: W, height: H, data, colorSpace: 'srgb' } as ImageData;
+};
+
+/** A square hole covering x and y in [from, to). */
+const hole = (from: number, to: number) => {
+  const mask = new Uint8ClampedArray(W * H);
+  for (let y = from; y < to; y++) {
+    for (let x = from; x < to; x++) mask[y * W + x] = 255;
+  }
+  return mask;
+};
+
+const valuesIn = (img: ImageData, from: number, to: number) => {
+  const values: number[] = [];
+  for (let y = from; y < to; y++) {
+    for (let x = from; x < to; x++) values.push(img.data[(y * W + x) * 4]);
+  }
+  return values;
+};
+
+describe('inpaint', () => {
+  it('leaves the image alone without a hole', () => {
+    const img = image(x => x * 3);
+    const before = img.data.slice();
+    inpaint(img, new Uint8ClampedArray(W * H));
+    expect(img.data).toEqual(before);
+  });
+
+  it('fills a hole in a smooth gradient with the surrounding tone', () => {
+    const img = image(x => 40 + x * 2);
+    for (let i = 0; i < W * H; i++) {
+      if (hole(26, 38)[i]) img.data[i * 4] = img.data[i * 4 + 1] = img.data[i * 4 + 2] = 255;
+    }
+    const outside = img.data.slice(0, 26 * W * 4);
+
+    inpaint(img, hole(26, 38));
+
+    for (const [x, y] of [[26, 26], [32, 32], [37, 30]]) {
+      expect(Math.abs(img.data[(y * W + x) * 4] - (40 + x * 2))).toBeLessThan(8);
+    }
+    expect(img.data.slice(0, 26 * W * 4)).toEqual(outside);
+  });
+
+  it('borrows texture from intact skin instead of leaving a flat patch', () => {
+    // Fine grain on a flat tone, with a bright blemish in the hole
+    const img = image((x, y) => ((x + y) % 2 ? 150 : 110) + (x >= 28 && x < 36 && y >= 28 && y < 36 ? 100 : 0));
+    inpaint(img, hole(28, 36));
+
+    const filled = valuesIn(img, 28, 36);
+    const mean = filled.reduce((sum, v) => sum + v, 0) / filled.length;
+    const spread = Math.sqrt(filled.reduce((sum, v) => sum + (v - mean) ** 2, 0) / filled.length);
+    expect(Math.abs(mean - 130)).toBeLessThan(6);
+    expect(spread).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,188 @@
+// Coverage above this (0-255) counts as part of the hole
+const HOLE_THRESHOLD = 8;
+// Donor patches are searched on rings this many hole-sizes away
+const DONOR_DISTANCES = [1.1, 1.5, 2];
+const DONOR_ANGLES = 16;
+
+const sampleBilinear = (values: Float32Array, w: number, h: number, x: number, y: number, c: number) => {
+  const x0 = Math.max(0, Math.min(w - 1, Math.floor(x)));
+  const y0 = Math.max(0, Math.min(h - 1, Math.floor(y)));
+  const x1 = Math.min(w - 1, x0 + 1);
+  const y1 = Math.min(h - 1, y0 + 1);
+  const fx = Math.max(0, Math.min(1, x - x0));
+  const fy = Math.max(0, Math.min(1, y - y0));
+  const top = values[(y0 * w + x0) * 3 + c] * (1 - fx) + values[(y0 * w + x1) * 3 + c] * fx;
+  const bottom = values[(y1 * w + x0) * 3 + c] * (1 - fx) + values[(y1 * w + x1) * 3 + c] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * Push-pull interpolation: weighted averages are pushed down a half-resolution
+ * pyramid until every cell has data, then pulled back up to fill the zero-weight
+ * pixels with a smooth membrane that matches the hole's surroundings.
+ */
+const pushPull = (values: Float32Array, weights: Float32Array, w: number, h: number): Float32Array => {
+  if (w <= 1 && h <= 1) return values;
+
+  const cw = Math.ceil(w / 2);
+  const ch = Math.ceil(h / 2);
+  const coarse = new Float32Array(cw * ch * 3);
+  const coarseWeights = new Float32Array(cw * ch);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const ci = (y >> 1) * cw + (x >> 1);
+      const wt = weights[i];
+      coarse[ci * 3] += values[i * 3] * wt;
+      coarse[ci * 3 + 1] += values[i * 3 + 1] * wt;
+      coarse[ci * 3 + 2] += values[i * 3 + 2] * wt;
+      coarseWeights[ci] += wt;
+    }
+  }
+  for (let ci = 0; ci < cw * ch; ci++) {
+    const wt = coarseWeights[ci];
+    if (wt > 0) {
+      coarse[ci * 3] /= wt;
+      coarse[ci * 3 + 1] /= wt;
+      coarse[ci * 3 + 2] /= wt;
+    }
+    coarseWeights[ci] = Math.min(1, wt);
+  }
+
+  const filled = pushPull(coarse, coarseWeights, cw, ch);
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const wt = weights[i];
+      for (let c = 0; c < 3; c++) {
+        const smooth = sampleBilinear(filled, cw, ch, (x + 0.5) / 2 - 0.5, (y + 0.5) / 2 - 0.5, c);
+        out[i * 3 + c] = values[i * 3 + c] * wt + smooth * (1 - wt);
+      }
+    }
+  }
+  return out;
+};
+
+/** Separable box blur over known pixels only, so the hole doesn't bleed into the average. */
+const maskedBlur = (values: Float32Array, known: Uint8Array, w: number, h: number, radius: number): Float32Array => {
+  const pass = (src: Float32Array, srcWeights: Float32Array, horizontal: boolean) => {
+    const out = new Float32Array(src.length);
+    const outWeights = new Float32Array(srcWeights.length);
+    const length = horizontal ? w : h;
+    const lines = horizontal ? h : w;
+    for (let line = 0; line < lines; line++) {
+      const index = (k: number) => (horizontal ? line * w + k : k * w + line);
+      // Running window sums keep the cost independent of the radius
+      let r = 0, g = 0, b = 0, weight = 0;
+      const add = (k: number, sign: number) => {
+        const i = index(k);
+        const wt = srcWeights[i] * sign;
+        r += src[i * 3] * wt;
+        g += src[i * 3 + 1] * wt;
+        b += src[i * 3 + 2] * wt;
+        weight += wt;
+      };
+      for (let k = 0; k < Math.min(length, radius); k++) add(k, 1);
+      for (let k = 0; k < length; k++) {
+        if (k + radius < length) add(k + radius, 1);
+        if (k - radius - 1 >= 0) add(k - radius - 1, -1);
+        const i = index(k);
+        if (weight > 1e-6) {
+          out[i * 3] = r / weight;
+          out[i * 3 + 1] = g / weight;
+          out[i * 3 + 2] = b / weight;
+          outWeights[i] = 1;
+        }
+      }
+    }
+    return [out, outWeights] as const;
+  };
+
+  const weights = Float32Array.from(known);
+  const [horizontal, horizontalWeights] = pass(values, weights, true);
+  return pass(horizontal, horizontalWeights, false)[0];
+};
+
+const luminance = (values: Float32Array, i: number) => (
+  0.299 * values[i * 3] + 0.587 * values[i * 3 + 1] + 0.114 * values[i * 3 + 2]
+);
+
+/**
+ * Fills the masked pixels of `image` in place with frequency-separation inpainting:
+ * the low frequencies (tone) come from a push-pull membrane interpolated from the
+ * hole's border, the high frequencies (pores, grain) are borrowed from the nearby
+ * patch of intact skin whose tone best matches the fill.
+ *
+ * @param mask Coverage per pixel (0-255), the same size as `image`.
+ */
+export const inpaint = (image: ImageData, mask: Uint8ClampedArray): void => {
+  const { width: w, height: h, data } = image;
+  const n = w * h;
+
+  const known = new Uint8Array(n);
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  for (let i = 0; i < n; i++) {
+    if (mask[i] > HOLE_THRESHOLD) {
+      const x = i % w;
+      const y = (i - x) / w;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    } else {
+      known[i] = 1;
+    }
+  }
+  if (maxX < 0) return;
+
+  const values = new Float32Array(n * 3);
+  for (let i = 0; i < n; i++) {
+    values[i * 3] = data[i * 4];
+    values[i * 3 + 1] = data[i * 4 + 1];
+    values[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  const holeSize = Math.max(maxX - minX + 1, maxY - minY + 1);
+  const low = pushPull(values, Float32Array.from(known), w, h);
+  const blurred = maskedBlur(values, known, w, h, Math.max(2, Math.round(holeSize / 4)));
+
+  // Pick the donor offset whose (intact) skin tone is closest to the fill
+  let best: { dx: number; dy: number; score: number } | null = null;
+  for (const distance of DONOR_DISTANCES) {
+    for (let a = 0; a < DONOR_ANGLES; a++) {
+      const angle = (a / DONOR_ANGLES) * Math.PI * 2;
+      const dx = Math.round(Math.cos(angle) * holeSize * distance);
+      const dy = Math.round(Math.sin(angle) * holeSize * distance);
+      if (minX + dx < 0 || maxX + dx >= w || minY + dy < 0 || maxY + dy >= h) continue;
+
+      let score = 0;
+      let valid = true;
+      for (let y = minY; y <= maxY && valid; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          const i = y * w + x;
+          if (known[i]) continue;
+          const donor = (y + dy) * w + (x + dx);
+          if (!known[donor]) {
+            valid = false;
+            break;
+          }
+          score += Math.abs(luminance(blurred, donor) - luminance(low, i));
+        }
+      }
+      if (valid && (!best || score < best.score)) best = { dx, dy, score };
+    }
+  }
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const i = y * w + x;
+      if (known[i]) continue;
+      const donor = best ? (y + best.dy) * w + (x + best.dx) : -1;
+      for (let c = 0; c < 3; c++) {
+        const detail = donor >= 0 ? values[donor * 3 + c] - blurred[donor * 3 + c] : 0;
+        data[i * 4 + c] = Math.max(0, Math.min(255, Math.round(low[i * 3 + c] + detail)));
+      }
+    }
+  }
+};
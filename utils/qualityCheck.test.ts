@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeImage, registerImage, Rgba } from '../test/fakeCanvas';
+import { revokeObjectUrl } from './imageHelpers';
+import { checkQuality } from './qualityCheck';
+import { computeSkinMask } from './skinMask';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+  revokeObjectUrl: vi.fn(),
+}));
+
+const SKIN: Rgba = [224, 172, 140, 255];
+const BACKGROUND: Rgba = [40, 90, 200, 255];
+
+const inEllipse = (x: number, y: number, cx: number, cy: number, rx: number, ry: number) => (
+  ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1
+);
+
+// A skin oval on a blue background with a faint diagonal texture, like the skin mask tests
+const portrait = ({ faceWidth = 80, background = () => BACKGROUND }: { faceWidth?: number; background?: (x: number) => Rgba } = {}) => registerImage(new FakeImage(400, 300, (x, y) => {
+  if (inEllipse(x, y, 200, 150, faceWidth, 110)) return SKIN;
+  const shade = ((x + y) % 8) * 3;
+  const [r, g, b] = background(x);
+  return [r + shade, g + shade, b - shade, 255];
+}));
+
+const original = portrait();
+
+describe('checkQuality', () => {
+  it('passes an untouched result', async () => {
+    expect(await checkQuality(original, portrait())).toEqual({ issues: [], overlay: null });
+  });
+
+  it('flags stretched and downscaled results from the alignment', async () => {
+    const { issues } = await checkQuality(original, original, { transform: { sx: 3, sy: 2.7, tx: 0, ty: 0 }, skinMask: null });
+    expect(issues.map(issue => issue.kind)).toEqual(['aspect', 'resolution']);
+    expect(issues[0].message).toContain('11%');
+  });
+
+  it('reports a changed background and marks it on the overlay', async () => {
+    // The left part of the background turned green
+    const greenLeft = portrait({ background: x => (x < 100 ? [40, 200, 60, 255] : BACKGROUND) });
+
+    const report = await checkQuality(original, greenLeft);
+    expect(report.issues.map(issue => issue.kind)).toEqual(['background']);
+    expect(report.overlay).not.toBeNull();
+  });
+
+  it('notices when the face outline was reshaped', async () => {
+    const { issues } = await checkQuality(original, portrait({ faceWidth: 60 }));
+    expect(issues.map(issue => issue.kind)).toContain('faceShape');
+  });
+
+  it('releases the skin masks it computes, but not the one it was given', async () => {
+    vi.mocked(revokeObjectUrl).mockClear();
+    await checkQuality(original, portrait());
+    expect(revokeObjectUrl).toHaveBeenCalledTimes(2);
+
+    const skinMask = await computeSkinMask(original);
+    vi.mocked(revokeObjectUrl).mockClear();
+    await checkQuality(original, portrait(), { skinMask });
+    expect(revokeObjectUrl).toHaveBeenCalledTimes(1);
+    expect(revokeObjectUrl).not.toHaveBeenCalledWith(skinMask!.image);
+  });
+});
@@ -0,0 +1,185 @@
+import { AlignmentTransform } from './alignment';
+import { canvasToObjectUrl, createCanvas, loadImage, revokeObjectUrl } from './imageHelpers';
+import { computeSkinMask, SkinMask } from './skinMask';
+
+export type QualityIssueKind = 'aspect' | 'resolution' | 'faceShape' | 'features' | 'background';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  message: string;
+}
+
+export interface QualityReport {
+  issues: QualityIssue[];
+  /** PNG object URL, stretched over the image, that marks the areas which changed; null when none did. */
+  overlay: string | null;
+}
+
+const WORK_SIZE = 256;
+const CELL_SIZE = 16;
+// Cells need this much non-skin area to be judged at all
+const MIN_CELL_COVERAGE = 0.5;
+// A cell is flagged below this structural similarity or above this mean chroma shift (0-255)
+const MIN_CELL_SSIM = 0.75;
+const MAX_CELL_CHROMA = 10;
+// Share of the non-skin cells that may change before the background counts as altered
+const MAX_BACKGROUND_CHANGE = 0.02;
+// Stretch beyond 2% and results below half the original resolution are flagged
+const MAX_ASPECT_CHANGE = 0.02;
+const MAX_SCALE = 2;
+// Skin silhouettes overlapping less than this (intersection over union) mean the face was reshaped
+const MIN_SKIN_OVERLAP = 0.9;
+// SSIM stabilisers for 8-bit values
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+const pixels = (source: CanvasImageSource, width: number, height: number, blur = 0): Uint8ClampedArray => {
+  const [, ctx] = createCanvas(width, height);
+  if (blur > 0) ctx.filter = `blur(${blur}px)`;
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const luma = (d: Uint8ClampedArray, i: number) => 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+const cb = (d: Uint8ClampedArray, i: number) => -0.168736 * d[i] - 0.331264 * d[i + 1] + 0.5 * d[i + 2];
+const cr = (d: Uint8ClampedArray, i: number) => 0.5 * d[i] - 0.418688 * d[i + 1] - 0.081312 * d[i + 2];
+
+/** Intersection over union of two skin masks, compared at the work size. */
+const skinOverlap = async (a: SkinMask, b: SkinMask, width: number, height: number): Promise<number> => {
+  const [maskA, maskB] = await Promise.all([loadImage(a.image), loadImage(b.image)]);
+  const alphaA = pixels(maskA, width, height);
+  const alphaB = pixels(maskB, width, height);
+  let intersection = 0;
+  let union = 0;
+  for (let i = 3; i < alphaA.length; i += 4) {
+    const inA = alphaA[i] > 127;
+    const inB = alphaB[i] > 127;
+    if (inA && inB) intersection++;
+    if (inA || inB) union++;
+  }
+  return union ? intersection / union : 1;
+};
+
+/**
+ * Validates an aligned result against the original. The prompt forbids touching
+ * anything but skin, so outside the skin mask the two should match: each cell of a
+ * coarse grid is compared by structural similarity and chroma shift, and cells that
+ * changed are reported (as features inside the face box, background elsewhere) and
+ * marked on the overlay. The alignment transform adds stretch and resolution checks.
+ *
+ * @param skinMask The original's segmentation; computed here when not supplied.
+ */
+export const checkQuality = async (
+  originalSrc: string,
+  processedSrc: string,
+  { transform, skinMask }: { transform?: AlignmentTransform; skinMask?: SkinMask | null } = {}
+): Promise<QualityReport> => {
+  const issues: QualityIssue[] = [];
+
+  if (transform) {
+    const stretch = Math.abs(transform.sx / transform.sy - 1);
+    if (stretch > MAX_ASPECT_CHANGE) {
+      issues.push({ kind: 'aspect', message: `The result was stretched (aspect ratio off by ${Math.round(stretch * 100)}%).` });
+    }
+    const scale = Math.max(transform.sx, transform.sy);
+    if (scale > MAX_SCALE) {
+      issues.push({ kind: 'resolution', message: `The result came back at ${Math.round(100 / scale)}% of the original resolution, so fine detail is lost.` });
+    }
+  }
+
+  const [original, processed, mask] = await Promise.all([
+    loadImage(originalSrc),
+    loadImage(processedSrc),
+    skinMask !== undefined ? skinMask : computeSkinMask(originalSrc),
+  ]);
+  // Without a face there's no region that's allowed to change, so nothing more to compare
+  if (!mask) return { issues, overlay: null };
+
+  const ratio = WORK_SIZE / Math.max(original.naturalWidth, original.naturalHeight);
+  const width = Math.max(1, Math.round(original.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(original.naturalHeight * ratio));
+
+  const processedMask = await computeSkinMask(processedSrc);
+  let overlap = 0;
+  try {
+    if (processedMask) overlap = await skinOverlap(mask, processedMask, width, height);
+  } finally {
+    if (processedMask) revokeObjectUrl(processedMask.image);
+  }
+  if (overlap < MIN_SKIN_OVERLAP) {
+    issues.push({ kind: 'faceShape', message: "The face outline changed, which can alter the person's identity." });
+  }
+
+  const a = pixels(original, width, height);
+  const b = pixels(processed, width, height);
+  // Blurring the mask grows it a little, so the soft skin edge isn't judged as background
+  const skin = pixels(await loadImage(mask.image), width, height, 3);
+  // A mask computed here is only needed for these pixels
+  if (skinMask === undefined) revokeObjectUrl(mask.image);
+  const face = {
+    x0: mask.faceBox.x * ratio,
+    y0: mask.faceBox.y * ratio,
+    x1: (mask.faceBox.x + mask.faceBox.width) * ratio,
+    y1: (mask.faceBox.y + mask.faceBox.height) * ratio,
+  };
+
+  const [overlay, overlayCtx] = createCanvas(width, height);
+  overlayCtx.fillStyle = 'rgba(239, 68, 68, 0.45)';
+  let judged = 0;
+  let backgroundCells = 0;
+  let featureCells = 0;
+
+  for (let cy = 0; cy < height; cy += CELL_SIZE) {
+    for (let cx = 0; cx < width; cx += CELL_SIZE) {
+      const cw = Math.min(CELL_SIZE, width - cx);
+      const ch = Math.min(CELL_SIZE, height - cy);
+      let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0, chroma = 0;
+      for (let y = cy; y < cy + ch; y++) {
+        for (let x = cx; x < cx + cw; x++) {
+          const i = (y * width + x) * 4;
+          if (skin[i + 3] > 16) continue;
+          const la = luma(a, i);
+          const lb = luma(b, i);
+          n++;
+          sumA += la;
+          sumB += lb;
+          sumAA += la * la;
+          sumBB += lb * lb;
+          sumAB += la * lb;
+          chroma += (Math.abs(cb(a, i) - cb(b, i)) + Math.abs(cr(a, i) - cr(b, i))) / 2;
+        }
+      }
+      if (n < cw * ch * MIN_CELL_COVERAGE) continue;
+      judged++;
+
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      const ssim = ((2 * meanA * meanB + C1) * (2 * cov + C2)) / ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      if (ssim >= MIN_CELL_SSIM && chroma / n <= MAX_CELL_CHROMA) continue;
+
+      const centerX = cx + cw / 2;
+      const centerY = cy + ch / 2;
+      if (centerX >= face.x0 && centerX <= face.x1 && centerY >= face.y0 && centerY <= face.y1) {
+        featureCells++;
+      } else {
+        backgroundCells++;
+      }
+      overlayCtx.fillRect(cx, cy, cw, ch);
+    }
+  }
+
+  if (featureCells > 0) {
+    issues.push({ kind: 'features', message: "Eyes, brows, lips or hair inside the face look different from the original." });
+  }
+  if (judged > 0 && backgroundCells / judged > MAX_BACKGROUND_CHANGE) {
+    issues.push({ kind: 'background', message: `The background changed (${Math.round((backgroundCells / judged) * 100)}% of the area outside the skin).` });
+  }
+
+  return {
+    issues,
+    overlay: featureCells + backgroundCells > 0 ? await canvasToObjectUrl(overlay, 'image/png') : null,
+  };
+};
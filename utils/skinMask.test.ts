@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FakeImage, getImage, registerImage, Rgba, solidImage } from '../test/fakeCanvas';
+import { computeSkinMask } from './skinMask';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+const SKIN: Rgba = [224, 172, 140, 255];
+const BACKGROUND: Rgba = [40, 90, 200, 255];
+const PIMPLE: Rgba = [200, 90, 90, 255];
+
+const inEllipse = (x: number, y: number, cx: number, cy: number, rx: number, ry: number) => (
+  ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1
+);
+
+// A face-sized skin oval on a blue background, with a small inflamed spot on the cheek
+const portrait = new FakeImage(400, 300, (x, y) => {
+  if (inEllipse(x, y, 230, 170, 3, 3)) return PIMPLE;
+  return inEllipse(x, y, 200, 150, 80, 110) ? SKIN : BACKGROUND;
+});
+
+describe('computeSkinMask', () => {
+  it('finds the skin region and its bounding box', async () => {
+    const mask = await computeSkinMask(registerImage(portrait));
+    expect(mask).not.toBeNull();
+
+    const { faceBox, coverage } = mask!;
+    expect(faceBox.x).toBeCloseTo(120, -1);
+    expect(faceBox.y).toBeCloseTo(40, -1);
+    expect(faceBox.width).toBeCloseTo(160, -1);
+    expect(faceBox.height).toBeCloseTo(220, -1);
+    expect(coverage).toBeCloseTo((Math.PI * 80 * 110) / (400 * 300), 1);
+  });
+
+  it('covers blemishes inside the skin and leaves the background out', async () => {
+    const image = getImage((await computeSkinMask(registerImage(portrait)))!.image);
+    const alpha = (x: number, y: number) => image.sample(x, y)[3];
+
+    expect(alpha(200, 150)).toBe(255);
+    expect(alpha(230, 170)).toBe(255);
+    expect(alpha(20, 20)).toBe(0);
+    expect(alpha(380, 280)).toBe(0);
+  });
+
+  it('returns null when there is no skin to speak of', async () => {
+    expect(await computeSkinMask(registerImage(solidImage(400, 300, BACKGROUND)))).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import { canvasToObjectUrl, createCanvas, loadImage } from './imageHelpers';
+import { Rect } from './tiling';
+
+export interface SkinMask {
+  /** PNG object URL; alpha is the skin weight, stretched over the full image. */
+  image: string;
+  /** Bounding box of the main face/skin region, in original image pixels. */
+  faceBox: Rect;
+  /** Fraction of the image classified as skin. */
+  coverage: number;
+}
+
+const WORK_SIZE = 512;
+// Skin components smaller than this fraction of the largest one are treated as noise
+const MIN_COMPONENT_RATIO = 0.15;
+// Below this the photo most likely has no usable face in it
+const MIN_COVERAGE = 0.02;
+
+/**
+ * Classic YCbCr skin range, widened on Cr so inflamed blemishes still count as skin.
+ * The luminance floor keeps dark hair, brows and pupils out.
+ */
+const isSkin = (r: number, g: number, b: number) => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 45 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 180;
+};
+
+/** Box-window count of set pixels, via an integral image. */
+const windowCounts = (mask: Uint8Array, width: number, height: number, radius: number): Uint32Array => {
+  const integral = new Uint32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += mask[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+  const counts = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      counts[y * width + x] =
+        integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] -
+        integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+    }
+  }
+  return counts;
+};
+
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const counts = windowCounts(mask, width, height, radius);
+  return Uint8Array.from(counts, c => (c > 0 ? 1 : 0));
+};
+
+const erode = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const inverted = Uint8Array.from(mask, v => 1 - v);
+  const counts = windowCounts(inverted, width, height, radius);
+  return Uint8Array.from(counts, c => (c > 0 ? 0 : 1));
+};
+
+/** Labels 4-connected components; returns each component's pixel indices. */
+const components = (mask: Uint8Array, width: number, height: number): number[][] => {
+  const seen = new Uint8Array(mask.length);
+  const result: number[][] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const pixels: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const i = stack.pop()!;
+      pixels.push(i);
+      const x = i % width;
+      const y = (i - x) / width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    result.push(pixels);
+  }
+  return result;
+};
+
+/**
+ * Segments the face/skin locally and returns a soft mask so retouching can be
+ * confined to skin, whatever the model changed in hair, eyes or background.
+ * Returns null when no plausible face is found.
+ */
+export const computeSkinMask = async (src: string): Promise<SkinMask | null> => {
+  const img = await loadImage(src);
+  const ratio = Math.min(1, WORK_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(img.naturalHeight * ratio));
+
+  const [, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  let mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = isSkin(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) ? 1 : 0;
+  }
+
+  // Close blemish-sized holes without swallowing eyes, brows or lips
+  const closeRadius = Math.max(1, Math.round(width * 0.012));
+  mask = erode(dilate(mask, width, height, closeRadius), width, height, closeRadius);
+
+  const parts = components(mask, width, height).sort((a, b) => b.length - a.length);
+  if (parts.length === 0 || parts[0].length / mask.length < MIN_COVERAGE) return null;
+
+  const kept = new Uint8Array(mask.length);
+  let minX = width, minY = height, maxX = 0, maxY = 0, total = 0;
+  for (const part of parts) {
+    if (part.length < parts[0].length * MIN_COMPONENT_RATIO) break;
+    for (const i of part) {
+      kept[i] = 1;
+      total++;
+    }
+  }
+  for (const i of parts[0]) {
+    const x = i % width;
+    const y = (i - x) / width;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+
+  // Rasterise, then soften the edge so the composite has no visible seam
+  const [hard, hardCtx] = createCanvas(width, height);
+  const pixels = hardCtx.createImageData(width, height);
+  for (let i = 0; i < kept.length; i++) {
+    pixels.data[i * 4] = 255;
+    pixels.data[i * 4 + 1] = 255;
+    pixels.data[i * 4 + 2] = 255;
+    pixels.data[i * 4 + 3] = kept[i] ? 255 : 0;
+  }
+  hardCtx.putImageData(pixels, 0, 0);
+
+  const [soft, softCtx] = createCanvas(width, height);
+  softCtx.filter = `blur(${Math.max(1, Math.round(width * 0.006))}px)`;
+  softCtx.drawImage(hard, 0, 0);
+
+  return {
+    image: await canvasToObjectUrl(soft, 'image/png'),
+    faceBox: {
+      x: Math.floor(minX / ratio),
+      y: Math.floor(minY / ratio),
+      width: Math.ceil((maxX - minX + 1) / ratio),
+      height: Math.ceil((maxY - minY + 1) / ratio),
+    },
+    coverage: total / mask.length,
+  };
+};
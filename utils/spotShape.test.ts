@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { EllipseShape, LassoShape, Spot } from '../types';
+import {
+  angleFrom,
+  circleShape,
+  moveShape,
+  polygonArea,
+  resizeEllipse,
+  rotateShape,
+  scaleShape,
+  shapeBounds,
+  shapeCenter,
+  shapeHandles,
+  upgradeSpots,
+} from './spotShape';
+
+const ellipse: EllipseShape = { kind: 'ellipse', cx: 50, cy: 40, rx: 20, ry: 10, rotation: 0 };
+const square: LassoShape = { kind: 'lasso', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }] };
+
+const expectPoint = (actual: { x: number; y: number }, x: number, y: number) => {
+  expect(actual.x).toBeCloseTo(x);
+  expect(actual.y).toBeCloseTo(y);
+};
+
+describe('shapeBounds', () => {
+  it('bounds an unrotated ellipse by its radii', () => {
+    expect(shapeBounds(ellipse)).toEqual({ minX: 30, minY: 30, maxX: 70, maxY: 50 });
+  });
+
+  it('swaps the extents of an ellipse turned a quarter', () => {
+    const bounds = shapeBounds({ ...ellipse, rotation: 90 });
+    expect(bounds.minX).toBeCloseTo(40);
+    expect(bounds.maxX).toBeCloseTo(60);
+    expect(bounds.minY).toBeCloseTo(20);
+    expect(bounds.maxY).toBeCloseTo(60);
+  });
+
+  it('bounds a lasso by its points', () => {
+    expect(shapeBounds(square)).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 10 });
+  });
+});
+
+describe('transforms', () => {
+  it('moves both shape kinds', () => {
+    expect(moveShape(ellipse, 5, -5)).toMatchObject({ cx: 55, cy: 35 });
+    expect(shapeBounds(moveShape(square, 5, -5))).toEqual({ minX: 5, minY: -5, maxX: 15, maxY: 5 });
+  });
+
+  it('scales a lasso around its centre', () => {
+    const scaled = scaleShape(square, 2) as LassoShape;
+    expect(shapeBounds(scaled)).toEqual({ minX: -5, minY: -5, maxX: 15, maxY: 15 });
+    expect(shapeCenter(scaled)).toEqual({ x: 5, y: 5 });
+  });
+
+  it('never scales an ellipse below one pixel', () => {
+    expect(scaleShape(ellipse, 0.001)).toMatchObject({ rx: 1, ry: 1 });
+  });
+
+  it('wraps ellipse rotation into [0, 360)', () => {
+    expect(rotateShape({ ...ellipse, rotation: 350 }, 20)).toMatchObject({ rotation: 10 });
+    expect(rotateShape(ellipse, -90)).toMatchObject({ rotation: 270 });
+  });
+
+  it('rotates lasso points around the centre', () => {
+    const rotated = rotateShape(square, 90) as LassoShape;
+    expectPoint(rotated.points[0], 10, 0);
+    expectPoint(rotated.points[1], 10, 10);
+  });
+});
+
+describe('resizeEllipse', () => {
+  it('measures the new radius along the rotated axis', () => {
+    const turned = { ...ellipse, rotation: 90 };
+    expect(resizeEllipse(turned, 'rx', { x: 50, y: 70 }).rx).toBeCloseTo(30);
+    expect(resizeEllipse(turned, 'rx', { x: 80, y: 40 }).rx).toBe(1);
+  });
+});
+
+describe('shapeHandles', () => {
+  it('puts ellipse handles on each axis and the rotate handle above', () => {
+    const [rx, ry, rotate] = shapeHandles(ellipse, 15);
+    expect(rx.id).toBe('rx');
+    expectPoint(rx.point, 70, 40);
+    expectPoint(ry.point, 50, 50);
+    expectPoint(rotate.point, 50, 15);
+  });
+
+  it('gives a lasso a corner scale handle', () => {
+    expect(shapeHandles(square, 15)).toEqual([
+      { id: 'scale', point: { x: 10, y: 10 } },
+      { id: 'rotate', point: { x: 5, y: -15 } },
+    ]);
+  });
+});
+
+describe('angleFrom', () => {
+  it('measures degrees clockwise from the x axis', () => {
+    expect(angleFrom({ x: 0, y: 0 }, { x: 0, y: 10 })).toBeCloseTo(90);
+    expect(angleFrom({ x: 0, y: 0 }, { x: -10, y: 0 })).toBeCloseTo(180);
+  });
+});
+
+describe('polygonArea', () => {
+  it('ignores the winding direction', () => {
+    expect(polygonArea(square.points)).toBe(100);
+    expect(polygonArea([...square.points].reverse())).toBe(100);
+  });
+});
+
+describe('upgradeSpots', () => {
+  it('converts percentage spots to pixel circles and keeps current ones', () => {
+    const current: Spot = { id: 'b', shape: circleShape({ x: 1, y: 2 }, 3), hardness: 0.5 };
+    const legacy = { id: 'a', x: 50, y: 25, radius: 10, hardness: 0.8 } as unknown as Spot;
+
+    const [upgraded, kept] = upgradeSpots([legacy, current], 200, 100);
+    expect(upgraded).toEqual({ id: 'a', hardness: 0.8, shape: circleShape({ x: 100, y: 25 }, 20) });
+    expect(kept).toBe(current);
+  });
+});
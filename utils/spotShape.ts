@@ -0,0 +1,139 @@
+import { EllipseShape, PixelPoint, Spot, SpotShape } from '../types';
+
+// Smallest radius a handle can shrink an ellipse to, in image pixels
+const MIN_RADIUS_PX = 1;
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** A draggable point on a selected spot's outline. */
+export interface ShapeHandle {
+  id: 'rx' | 'ry' | 'scale' | 'rotate';
+  point: PixelPoint;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const rotatePoint = (point: PixelPoint, center: PixelPoint, degrees: number): PixelPoint => {
+  const cos = Math.cos(toRadians(degrees));
+  const sin = Math.sin(toRadians(degrees));
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// The ellipse's own axes: u along rx, v along ry
+const ellipseAxes = (shape: EllipseShape) => {
+  const cos = Math.cos(toRadians(shape.rotation));
+  const sin = Math.sin(toRadians(shape.rotation));
+  return { u: { x: cos, y: sin }, v: { x: -sin, y: cos } };
+};
+
+export const circleShape = (center: PixelPoint, radius: number): EllipseShape => ({
+  kind: 'ellipse',
+  cx: center.x,
+  cy: center.y,
+  rx: radius,
+  ry: radius,
+  rotation: 0,
+});
+
+export const shapeBounds = (shape: SpotShape): Bounds => {
+  if (shape.kind === 'ellipse') {
+    const cos = Math.cos(toRadians(shape.rotation));
+    const sin = Math.sin(toRadians(shape.rotation));
+    const halfWidth = Math.hypot(shape.rx * cos, shape.ry * sin);
+    const halfHeight = Math.hypot(shape.rx * sin, shape.ry * cos);
+    return { minX: shape.cx - halfWidth, minY: shape.cy - halfHeight, maxX: shape.cx + halfWidth, maxY: shape.cy + halfHeight };
+  }
+  const xs = shape.points.map(p => p.x);
+  const ys = shape.points.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+/** The point the shape rotates and scales around. */
+export const shapeCenter = (shape: SpotShape): PixelPoint => {
+  if (shape.kind === 'ellipse') return { x: shape.cx, y: shape.cy };
+  const { minX, minY, maxX, maxY } = shapeBounds(shape);
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+};
+
+export const moveShape = (shape: SpotShape, dx: number, dy: number): SpotShape => (
+  shape.kind === 'ellipse'
+    ? { ...shape, cx: shape.cx + dx, cy: shape.cy + dy }
+    : { ...shape, points: shape.points.map(p => ({ x: p.x + dx, y: p.y + dy })) }
+);
+
+export const scaleShape = (shape: SpotShape, factor: number): SpotShape => {
+  if (shape.kind === 'ellipse') {
+    return { ...shape, rx: Math.max(MIN_RADIUS_PX, shape.rx * factor), ry: Math.max(MIN_RADIUS_PX, shape.ry * factor) };
+  }
+  const center = shapeCenter(shape);
+  return {
+    ...shape,
+    points: shape.points.map(p => ({ x: center.x + (p.x - center.x) * factor, y: center.y + (p.y - center.y) * factor })),
+  };
+};
+
+export const rotateShape = (shape: SpotShape, degrees: number): SpotShape => {
+  if (shape.kind === 'ellipse') return { ...shape, rotation: (((shape.rotation + degrees) % 360) + 360) % 360 };
+  const center = shapeCenter(shape);
+  return { ...shape, points: shape.points.map(p => rotatePoint(p, center, degrees)) };
+};
+
+/** Sets one ellipse radius so its edge passes through `point`, measured along that axis. */
+export const resizeEllipse = (shape: EllipseShape, axis: 'rx' | 'ry', point: PixelPoint): EllipseShape => {
+  const { u, v } = ellipseAxes(shape);
+  const direction = axis === 'rx' ? u : v;
+  const distance = Math.abs((point.x - shape.cx) * direction.x + (point.y - shape.cy) * direction.y);
+  return { ...shape, [axis]: Math.max(MIN_RADIUS_PX, distance) };
+};
+
+/**
+ * Handles for a selected shape. Ellipses get one per axis, lassos a corner handle
+ * that scales them uniformly; both get a rotate handle `rotateOffset` pixels out.
+ */
+export const shapeHandles = (shape: SpotShape, rotateOffset: number): ShapeHandle[] => {
+  if (shape.kind === 'ellipse') {
+    const { u, v } = ellipseAxes(shape);
+    return [
+      { id: 'rx', point: { x: shape.cx + u.x * shape.rx, y: shape.cy + u.y * shape.rx } },
+      { id: 'ry', point: { x: shape.cx + v.x * shape.ry, y: shape.cy + v.y * shape.ry } },
+      { id: 'rotate', point: { x: shape.cx - v.x * (shape.ry + rotateOffset), y: shape.cy - v.y * (shape.ry + rotateOffset) } },
+    ];
+  }
+  const { minX, minY, maxX, maxY } = shapeBounds(shape);
+  return [
+    { id: 'scale', point: { x: maxX, y: maxY } },
+    { id: 'rotate', point: { x: (minX + maxX) / 2, y: minY - rotateOffset } },
+  ];
+};
+
+/** Angle of `point` seen from `center`, in degrees clockwise from the x axis. */
+export const angleFrom = (center: PixelPoint, point: PixelPoint): number => (
+  (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI
+);
+
+/** Area of a lasso, for telling a real outline from a stray click. */
+export const polygonArea = (points: PixelPoint[]): number => {
+  let sum = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(sum) / 2;
+};
+
+/**
+ * Brings spots saved before shapes existed ({ x, y, radius } as percentages of the
+ * image width and height) into image pixels. Current spots pass through unchanged.
+ */
+export const upgradeSpots = (spots: Spot[], width: number, height: number): Spot[] => spots.map(spot => {
+  if (spot.shape) return spot;
+  const { x, y, radius, ...rest } = spot as Spot & { x: number; y: number; radius: number };
+  return { ...rest, shape: circleShape({ x: (x / 100) * width, y: (y / 100) * height }, (radius / 100) * width) };
+});
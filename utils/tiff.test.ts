@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeTiff, findTiffPreviews, isTiff, readTiffOrientation, scanEmbeddedJpegs } from './tiff';
+
+type Entry = [tag: number, type: 3 | 4, values: number[]];
+
+/**
+ * A little-endian TIFF with one IFD followed by `payload`. The entries are built
+ * from the payload's offset, so strip and preview tags can point into it.
+ */
+const tiff = (entries: (payloadAt: number) => Entry[], payload: Uint8Array = new Uint8Array()): Uint8Array => {
+  const count = entries(0).length;
+  const extraSize = entries(0).reduce((sum, [, type, values]) => {
+    const size = values.length * (type === 3 ? 2 : 4);
+    return sum + (size > 4 ? size : 0);
+  }, 0);
+  const ifdEnd = 8 + 2 + count * 12 + 4;
+  const payloadAt = ifdEnd + extraSize;
+  const bytes = new Uint8Array(payloadAt + payload.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49], 0);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, count, true);
+
+  let extraAt = ifdEnd;
+  entries(payloadAt).forEach(([tag, type, values], i) => {
+    const entry = 10 + i * 12;
+    const size = type === 3 ? 2 : 4;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    let at = entry + 8;
+    if (values.length * size > 4) {
+      view.setUint32(entry + 8, extraAt, true);
+      at = extraAt;
+      extraAt += values.length * size;
+    }
+    values.forEach((value, j) => (size === 2 ? view.setUint16(at + j * 2, value, true) : view.setUint32(at + j * 4, value, true)));
+  });
+  bytes.set(payload, payloadAt);
+  return bytes;
+};
+
+/** The start of a JPEG: SOI and a start-of-frame header with the given marker and size. */
+const jpeg = (width: number, height: number, sof = 0xc0) => Uint8Array.of(
+  0xff, 0xd8, 0xff, sof, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03,
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xd9
+);
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((at, part) => (out.set(part, at), at + part.length), 0);
+  return out;
+};
+
+/** A baseline image: width, height, bits, samples, photometric, compression and one strip. */
+const image = (width: number, height: number, samples: number, strip: Uint8Array, extra: Entry[] = [], compression = 1) => tiff(at => [
+  [0x0100, 3, [width]],
+  [0x0101, 3, [height]],
+  [0x0102, 3, Array(samples).fill(8)],
+  [0x0103, 3, [compression]],
+  [0x0106, 3, [samples >= 3 ? 2 : 1]],
+  [0x0111, 4, [at]],
+  [0x0115, 3, [samples]],
+  [0x0117, 4, [strip.length]],
+  ...extra,
+], strip);
+
+const pixels = (data: ImageData | null) => Array.from(data!.data);
+
+beforeEach(() => {
+  vi.stubGlobal('ImageData', class {
+    data: Uint8ClampedArray;
+    constructor(readonly width: number, readonly height: number) {
+      this.data = new Uint8ClampedArray(width * height * 4);
+    }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('isTiff and readTiffOrientation', () => {
+  it('reads the orientation of IFD0, defaulting to upright', () => {
+    expect(isTiff(tiff(() => [[0x0112, 3, [6]]]))).toBe(true);
+    expect(readTiffOrientation(tiff(() => [[0x0112, 3, [6]]]))).toBe(6);
+    expect(readTiffOrientation(tiff(() => [[0x0112, 3, [9]]]))).toBe(1);
+    expect(isTiff(jpeg(10, 10))).toBe(false);
+    expect(readTiffOrientation(jpeg(10, 10))).toBe(1);
+  });
+});
+
+describe('decodeTiff', () => {
+  it('decodes uncompressed RGB and RGBA strips', async () => {
+    expect(pixels(await decodeTiff(image(2, 1, 3, Uint8Array.of(255, 0, 0, 0, 128, 255)))))
+      .toEqual([255, 0, 0, 255, 0, 128, 255, 255]);
+    expect(pixels(await decodeTiff(image(1, 1, 4, Uint8Array.of(10, 20, 30, 40)))))
+      .toEqual([10, 20, 30, 40]);
+  });
+
+  it('expands PackBits runs of grey', async () => {
+    // A run of three 200s, then one literal 7
+    const decoded = await decodeTiff(image(4, 1, 1, Uint8Array.of(0xfe, 200, 0x00, 7), [], 32773));
+    expect(pixels(decoded)).toEqual([200, 200, 200, 255, 200, 200, 200, 255, 200, 200, 200, 255, 7, 7, 7, 255]);
+  });
+
+  it('inflates Deflate strips and undoes the horizontal predictor', async () => {
+    const differences = Uint8Array.of(10, 20, 30, 5, 5, 5);
+    const stream = new Blob([differences]).stream().pipeThrough(new CompressionStream('deflate'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+    const decoded = await decodeTiff(image(2, 1, 3, compressed, [[0x013d, 3, [2]]], 8));
+    expect(pixels(decoded)).toEqual([10, 20, 30, 255, 15, 25, 35, 255]);
+  });
+
+  it('leaves tiled and planar layouts to other decoders', async () => {
+    expect(await decodeTiff(image(1, 1, 3, Uint8Array.of(1, 2, 3), [[0x0142, 3, [16]]]))).toBeNull();
+    expect(await decodeTiff(image(1, 1, 3, Uint8Array.of(1, 2, 3), [[0x011c, 3, [2]]]))).toBeNull();
+    expect(await decodeTiff(jpeg(1, 1))).toBeNull();
+  });
+});
+
+describe('findTiffPreviews', () => {
+  it('finds tagged and strip previews, largest first, skipping lossless JPEG', () => {
+    const small = jpeg(160, 120);
+    const large = jpeg(1600, 1200);
+    const lossless = jpeg(4000, 3000, 0xc3);
+    const raw = tiff(at => [
+      [0x0103, 3, [7]],
+      [0x0111, 4, [at + small.length]],
+      [0x0117, 4, [large.length]],
+      [0x0201, 4, [at]],
+      [0x0202, 4, [small.length]],
+    ], concat(small, large, lossless));
+    const found = findTiffPreviews(raw);
+    expect(found.map(({ width, height }) => [width, height])).toEqual([[1600, 1200], [160, 120]]);
+    expect(raw.subarray(found[0].offset, found[0].offset + 2)).toEqual(Uint8Array.of(0xff, 0xd8));
+  });
+});
+
+describe('scanEmbeddedJpegs', () => {
+  it('finds decodable JPEGs anywhere in a file', () => {
+    const file = concat(new TextEncoder().encode('FUJIFILMCCD-RAW '), jpeg(640, 480), Uint8Array.of(0, 1, 2), jpeg(3000, 2000, 0xc3));
+    expect(scanEmbeddedJpegs(file)).toEqual([{ offset: 16, length: file.length - 16, width: 640, height: 480 }]);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Minimal TIFF reading: walking the IFDs, decoding baseline strip images (8 or 16
+ * bits, uncompressed, LZW, Deflate or PackBits), and locating the JPEG previews that
+ * TIFF-based camera RAW files (DNG, CR2, NEF, ARW, ORF, RW2) carry.
+ */
+
+/** A JPEG stored inside another file, with the size read from its frame header. */
+export interface EmbeddedJpeg {
+  offset: number;
+  length: number; // To the end of the file when unknown; decoders stop at EOI
+  width: number;
+  height: number;
+}
+
+type Ifd = Map<number, number[]>;
+
+const TAG = {
+  width: 0x0100,
+  height: 0x0101,
+  bitsPerSample: 0x0102,
+  compression: 0x0103,
+  photometric: 0x0106,
+  stripOffsets: 0x0111,
+  orientation: 0x0112,
+  samplesPerPixel: 0x0115,
+  rowsPerStrip: 0x0116,
+  stripByteCounts: 0x0117,
+  planarConfig: 0x011c,
+  predictor: 0x013d,
+  tileWidth: 0x0142,
+  subIfds: 0x014a,
+  jpegOffset: 0x0201,
+  jpegLength: 0x0202,
+};
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+// Standard "42", plus the variants Olympus (ORF) and Panasonic (RW2) write
+const MAGICS = [42, 0x4f52, 0x5352, 0x55];
+const MAX_IFDS = 64;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_OLD_JPEG = 6;
+const COMPRESSION_JPEG = 7;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+// Start-of-frame markers browsers decode: baseline, extended and progressive Huffman
+const DECODABLE_SOF = [0xffc0, 0xffc1, 0xffc2];
+
+interface Header {
+  view: DataView;
+  littleEndian: boolean;
+  first: number;
+}
+
+const readHeader = (bytes: Uint8Array): Header | null => {
+  if (bytes.length < 8) return null;
+  const order = String.fromCharCode(bytes[0], bytes[1]);
+  if (order !== 'II' && order !== 'MM') return null;
+  const littleEndian = order === 'II';
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (!MAGICS.includes(view.getUint16(2, littleEndian))) return null;
+  return { view, littleEndian, first: view.getUint32(4, littleEndian) };
+};
+
+export const isTiff = (bytes: Uint8Array): boolean => readHeader(bytes) !== null;
+
+const readIfd = ({ view, littleEndian }: Header, offset: number): { ifd: Ifd; next: number } | null => {
+  if (offset <= 0 || offset + 2 > view.byteLength) return null;
+  const count = view.getUint16(offset, littleEndian);
+  if (offset + 2 + count * 12 > view.byteLength) return null;
+  const ifd: Ifd = new Map();
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const n = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    // Only the integer tags matter here
+    if (!size || ![1, 3, 4, 7, 13].includes(type)) continue;
+    const start = size * n > 4 ? view.getUint32(entry + 8, littleEndian) : entry + 8;
+    if (start + size * n > view.byteLength) continue;
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const at = start + j * size;
+      values.push(size === 1 ? view.getUint8(at) : size === 2 ? view.getUint16(at, littleEndian) : view.getUint32(at, littleEndian));
+    }
+    ifd.set(tag, values);
+  }
+  const nextAt = offset + 2 + count * 12;
+  return { ifd, next: nextAt + 4 <= view.byteLength ? view.getUint32(nextAt, littleEndian) : 0 };
+};
+
+/** Every IFD in the file: the main chain and any SubIFDs, IFD0 first. */
+const readIfds = (header: Header): Ifd[] => {
+  const result: Ifd[] = [];
+  const seen = new Set<number>();
+  const queue = [header.first];
+  while (queue.length && result.length < MAX_IFDS) {
+    const offset = queue.shift()!;
+    if (seen.has(offset)) continue;
+    seen.add(offset);
+    const read = readIfd(header, offset);
+    if (!read) continue;
+    result.push(read.ifd);
+    queue.push(...(read.ifd.get(TAG.subIfds) ?? []));
+    if (read.next) queue.push(read.next);
+  }
+  return result;
+};
+
+const first = (ifd: Ifd, tag: number, fallback: number) => ifd.get(tag)?.[0] ?? fallback;
+
+/** EXIF orientation of IFD0, 1 - 8; 1 when absent or not a TIFF. */
+export const readTiffOrientation = (bytes: Uint8Array): number => {
+  const header = readHeader(bytes);
+  const ifd0 = header && readIfd(header, header.first)?.ifd;
+  const orientation = ifd0 ? first(ifd0, TAG.orientation, 1) : 1;
+  return orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+/** Size of the JPEG at `offset` if a browser can decode it (not the lossless kind RAW data uses). */
+const jpegFrameSize = (bytes: Uint8Array, offset: number): { width: number; height: number } | null => {
+  if (bytes[offset] !== 0xff || bytes[offset + 1] !== 0xd8) return null;
+  let at = offset + 2;
+  while (at + 9 < bytes.length) {
+    if (bytes[at] !== 0xff) return null;
+    const marker = (bytes[at] << 8) | bytes[at + 1];
+    if (marker === 0xffd9 || marker === 0xffda) return null;
+    if (marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc) {
+      if (!DECODABLE_SOF.includes(marker)) return null;
+      return { height: (bytes[at + 5] << 8) | bytes[at + 6], width: (bytes[at + 7] << 8) | bytes[at + 8] };
+    }
+    at += 2 + ((bytes[at + 2] << 8) | bytes[at + 3]);
+  }
+  return null;
+};
+
+const toEmbedded = (bytes: Uint8Array, offset: number, length: number): EmbeddedJpeg | null => {
+  const size = jpegFrameSize(bytes, offset);
+  return size && size.width > 0 && size.height > 0 ? { offset, length, ...size } : null;
+};
+
+/**
+ * The decodable JPEG previews in a TIFF-based RAW file, largest first. Cameras store
+ * them either as JPEGInterchangeFormat tags or as single-strip JPEG-compressed IFDs.
+ */
+export const findTiffPreviews = (bytes: Uint8Array): EmbeddedJpeg[] => {
+  const header = readHeader(bytes);
+  if (!header) return [];
+  const found: EmbeddedJpeg[] = [];
+  for (const ifd of readIfds(header)) {
+    const jpegOffset = ifd.get(TAG.jpegOffset)?.[0];
+    const jpegLength = ifd.get(TAG.jpegLength)?.[0];
+    if (jpegOffset && jpegLength) {
+      const preview = toEmbedded(bytes, jpegOffset, jpegLength);
+      if (preview) found.push(preview);
+    }
+    const compression = first(ifd, TAG.compression, COMPRESSION_NONE);
+    const strips = ifd.get(TAG.stripOffsets) ?? [];
+    const counts = ifd.get(TAG.stripByteCounts) ?? [];
+    if ((compression === COMPRESSION_OLD_JPEG || compression === COMPRESSION_JPEG) && strips.length === 1 && counts.length === 1) {
+      const preview = toEmbedded(bytes, strips[0], counts[0]);
+      if (preview) found.push(preview);
+    }
+  }
+  return found.sort((a, b) => b.width * b.height - a.width * a.height);
+};
+
+/**
+ * Last resort for RAW containers that aren't TIFF (CR3, RAF): any decodable JPEG
+ * found by scanning for start-of-image markers, largest first.
+ */
+export const scanEmbeddedJpegs = (bytes: Uint8Array, limit = 16): EmbeddedJpeg[] => {
+  const found: EmbeddedJpeg[] = [];
+  for (let i = 0; i + 3 < bytes.length && found.length < limit; i++) {
+    if (bytes[i] !== 0xff || bytes[i + 1] !== 0xd8 || bytes[i + 2] !== 0xff) continue;
+    const preview = toEmbedded(bytes, i, bytes.length - i);
+    if (preview) found.push(preview);
+  }
+  return found.sort((a, b) => b.width * b.height - a.width * a.height);
+};
+
+const lzwDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let written = 0;
+  let table: Uint8Array[] = [];
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => Uint8Array.of(i));
+  };
+  const append = (entry: Uint8Array, byte: number) => {
+    const next = new Uint8Array(entry.length + 1);
+    next.set(entry);
+    next[entry.length] = byte;
+    return next;
+  };
+
+  reset();
+  let codeLength = 9;
+  let bit = 0;
+  let previous: Uint8Array | null = null;
+  while (bit + codeLength <= input.length * 8 && written < expected) {
+    // Codes are packed most significant bit first
+    let code = 0;
+    for (let i = 0; i < codeLength; i++, bit++) {
+      code = (code << 1) | ((input[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    if (code === 257) break;
+    if (code === 256) {
+      reset();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < table.length) entry = table[code];
+    else if (previous) entry = append(previous, previous[0]);
+    else break;
+    out.set(entry.subarray(0, expected - written), written);
+    written += entry.length;
+    if (previous && table.length < 4096) table.push(append(previous, entry[0]));
+    previous = entry;
+    // TIFF's "early change": widen one code before the table actually needs it
+    if (table.length >= (1 << codeLength) - 1 && codeLength < 12) codeLength++;
+  }
+  return out;
+};
+
+const packBitsDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let written = 0;
+  for (let i = 0; i < input.length && written < expected;) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      const run = input.subarray(i, i + header + 1).subarray(0, expected - written);
+      out.set(run, written);
+      written += run.length;
+      i += header + 1;
+    } else if (header !== -128) {
+      const run = Math.min(1 - header, expected - written);
+      out.fill(input[i++], written, written + run);
+      written += run;
+    }
+  }
+  return out;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Decodes the first image of a baseline TIFF into straight RGBA. Tiled, planar,
+ * palette, CMYK and JPEG-compressed files aren't handled; those return null.
+ */
+export const decodeTiff = async (bytes: Uint8Array): Promise<ImageData | null> => {
+  const header = readHeader(bytes);
+  const ifd = header && readIfds(header)[0];
+  if (!header || !ifd) return null;
+
+  const width = first(ifd, TAG.width, 0);
+  const height = first(ifd, TAG.height, 0);
+  const bits = first(ifd, TAG.bitsPerSample, 1);
+  const samples = first(ifd, TAG.samplesPerPixel, 1);
+  const compression = first(ifd, TAG.compression, COMPRESSION_NONE);
+  const photometric = first(ifd, TAG.photometric, 1);
+  const strips = ifd.get(TAG.stripOffsets) ?? [];
+  const counts = ifd.get(TAG.stripByteCounts) ?? [];
+  if (
+    !width || !height || strips.length === 0 || strips.length !== counts.length
+    || (bits !== 8 && bits !== 16) || samples < 1 || samples > 4
+    || ![0, 1, 2].includes(photometric) || (photometric === 2 && samples < 3)
+    || first(ifd, TAG.planarConfig, 1) !== 1 || ifd.has(TAG.tileWidth)
+  ) {
+    return null;
+  }
+
+  const bytesPerSample = bits / 8;
+  const rowBytes = width * samples * bytesPerSample;
+  const rowsPerStrip = Math.min(height, first(ifd, TAG.rowsPerStrip, height));
+  const data = new Uint8Array(rowBytes * height);
+  for (let s = 0; s < strips.length; s++) {
+    const start = s * rowsPerStrip * rowBytes;
+    if (start >= data.length) break;
+    const expected = Math.min(rowsPerStrip * rowBytes, data.length - start);
+    const raw = bytes.subarray(strips[s], strips[s] + counts[s]);
+    let strip: Uint8Array;
+    switch (compression) {
+      case COMPRESSION_NONE: strip = raw; break;
+      case COMPRESSION_LZW: strip = lzwDecode(raw, expected); break;
+      case COMPRESSION_PACKBITS: strip = packBitsDecode(raw, expected); break;
+      case COMPRESSION_DEFLATE:
+      case COMPRESSION_ADOBE_DEFLATE: strip = await inflate(raw); break;
+      default: return null;
+    }
+    data.set(strip.subarray(0, expected), start);
+  }
+
+  // Horizontal differencing predictor: each sample is stored as the difference to the one to its left
+  const view = new DataView(data.buffer);
+  const stride = width * samples;
+  if (first(ifd, TAG.predictor, 1) === 2) {
+    for (let y = 0; y < height; y++) {
+      for (let x = samples; x < stride; x++) {
+        const i = y * stride + x;
+        if (bytesPerSample === 1) data[i] += data[i - samples];
+        else view.setUint16(i * 2, view.getUint16(i * 2, header.littleEndian) + view.getUint16((i - samples) * 2, header.littleEndian), header.littleEndian);
+      }
+    }
+  }
+
+  const value = bytesPerSample === 1
+    ? (i: number) => data[i]
+    : (i: number) => view.getUint16(i * 2, header.littleEndian) / 257;
+  const colors = photometric === 2 ? 3 : 1;
+  const hasAlpha = samples > colors;
+  const pixels = new ImageData(width, height);
+  const rgba = pixels.data;
+  for (let p = 0; p < width * height; p++) {
+    const s = p * samples;
+    const o = p * 4;
+    for (let c = 0; c < 3; c++) {
+      const v = value(s + (colors === 3 ? c : 0));
+      rgba[o + c] = photometric === 0 ? 255 - v : v;
+    }
+    rgba[o + 3] = hasAlpha ? value(s + colors) : 255;
+  }
+  return pixels;
+};
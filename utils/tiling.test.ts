@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { growRect, mergeRects, padRect, planTiles } from './tiling';
+
+describe('planTiles', () => {
+  it('returns the region as one tile when it fits', () => {
+    expect(planTiles({ x: 10, y: 20, width: 300, height: 200 }, 512, 64)).toEqual([
+      { x: 10, y: 20, width: 300, height: 200, row: 0, col: 0, isLastRow: true, isLastCol: true },
+    ]);
+  });
+
+  it('covers the region with overlapping tiles in raster order', () => {
+    const region = { x: 0, y: 0, width: 900, height: 600 };
+    const tiles = planTiles(region, 512, 64);
+
+    expect(tiles.map(tile => [tile.row, tile.col])).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]]);
+    tiles.forEach(tile => {
+      expect(tile.width).toBe(512);
+      expect(tile.height).toBe(512);
+    });
+    expect(tiles[1].x + tiles[1].width).toBe(region.width);
+    expect(tiles[2].y + tiles[2].height).toBe(region.height);
+    expect(tiles[0].x + tiles[0].width - tiles[1].x).toBeGreaterThanOrEqual(64);
+    expect(tiles.filter(tile => tile.isLastCol).map(tile => tile.col)).toEqual([1, 1]);
+    expect(tiles.filter(tile => tile.isLastRow).map(tile => tile.row)).toEqual([1, 1]);
+  });
+
+  it('offsets tiles by the region origin', () => {
+    const tiles = planTiles({ x: 100, y: 50, width: 900, height: 400 }, 512, 32);
+    expect(tiles[0]).toMatchObject({ x: 100, y: 50 });
+    expect(tiles[tiles.length - 1].x + 512).toBe(1000);
+  });
+});
+
+describe('padRect', () => {
+  it('grows the rect by a fraction of its size on each side', () => {
+    expect(padRect({ x: 100, y: 100, width: 100, height: 50 }, 0.5, 1000, 1000)).toEqual({
+      x: 50, y: 75, width: 200, height: 100,
+    });
+  });
+
+  it('clamps to the image', () => {
+    expect(padRect({ x: 10, y: 900, width: 100, height: 80 }, 0.5, 1000, 950)).toEqual({
+      x: 0, y: 860, width: 160, height: 90,
+    });
+  });
+});
+
+describe('growRect', () => {
+  it('grows a small rect around its centre', () => {
+    expect(growRect({ x: 490, y: 490, width: 20, height: 20 }, 100, 1000, 1000)).toEqual({
+      x: 450, y: 450, width: 100, height: 100,
+    });
+  });
+
+  it('keeps rects that are already large enough', () => {
+    const rect = { x: 10, y: 20, width: 300, height: 200 };
+    expect(growRect(rect, 100, 1000, 1000)).toEqual(rect);
+  });
+
+  it('shifts the grown rect back inside the image', () => {
+    expect(growRect({ x: 0, y: 990, width: 10, height: 10 }, 100, 1000, 1000)).toEqual({
+      x: 0, y: 900, width: 100, height: 100,
+    });
+  });
+
+  it('never grows past the image size', () => {
+    expect(growRect({ x: 10, y: 10, width: 10, height: 10 }, 500, 200, 100)).toEqual({
+      x: 0, y: 0, width: 200, height: 100,
+    });
+  });
+});
+
+describe('mergeRects', () => {
+  it('leaves separate rects alone', () => {
+    const rects = [{ x: 0, y: 0, width: 10, height: 10 }, { x: 10, y: 0, width: 10, height: 10 }];
+    expect(mergeRects(rects)).toEqual(rects);
+  });
+
+  it('merges overlapping rects into their bounding box', () => {
+    expect(mergeRects([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 5, y: 5, width: 10, height: 10 },
+    ])).toEqual([{ x: 0, y: 0, width: 15, height: 15 }]);
+  });
+
+  it('keeps merging when a bounding box reaches another rect', () => {
+    expect(mergeRects([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 30, y: 12, width: 10, height: 10 },
+      { x: 8, y: 8, width: 10, height: 10 },
+      { x: 16, y: 0, width: 16, height: 4 },
+    ])).toEqual([{ x: 0, y: 0, width: 40, height: 22 }]);
+  });
+});
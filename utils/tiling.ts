@@ -0,0 +1,146 @@
+import { Canvas, Canvas2D, createCanvas } from './imageHelpers';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Tile extends Rect {
+  row: number;
+  col: number;
+  isLastRow: boolean;
+  isLastCol: boolean;
+}
+
+/** Positions `count` spans of `size` evenly across [start, start + length). */
+const spans = (start: number, length: number, size: number, overlap: number): number[] => {
+  if (length <= size) return [start];
+  const count = Math.ceil((length - overlap) / (size - overlap));
+  const step = (length - size) / (count - 1);
+  return Array.from({ length: count }, (_, i) => start + Math.round(i * step));
+};
+
+/**
+ * Splits `region` into overlapping tiles of at most `tileSize` pixels.
+ * Tiles are returned in raster order, which `featherTile` relies on.
+ */
+export const planTiles = (region: Rect, tileSize: number, overlap: number): Tile[] => {
+  const width = Math.min(tileSize, region.width);
+  const height = Math.min(tileSize, region.height);
+  const xs = spans(region.x, region.width, width, overlap);
+  const ys = spans(region.y, region.height, height, overlap);
+
+  const tiles: Tile[] = [];
+  ys.forEach((y, row) => {
+    xs.forEach((x, col) => {
+      tiles.push({
+        x, y, width, height, row, col,
+        isLastRow: row === ys.length - 1,
+        isLastCol: col === xs.length - 1,
+      });
+    });
+  });
+  return tiles;
+};
+
+const ramp = (
+  ctx: Canvas2D,
+  from: [number, number],
+  to: [number, number],
+  rect: Rect
+) => {
+  const gradient = ctx.createLinearGradient(from[0], from[1], to[0], to[1]);
+  gradient.addColorStop(0, 'rgba(0,0,0,0)');
+  gradient.addColorStop(1, 'rgba(0,0,0,1)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+};
+
+/**
+ * Returns the tile with its alpha faded in over `feather` pixels on every edge that
+ * overlaps something already painted: earlier tiles (top/left) or, at the outer
+ * edges of a region that doesn't reach the image border, the untouched original.
+ * Drawn in raster order with source-over this gives a linear cross-fade.
+ */
+export const featherTile = (
+  source: CanvasImageSource,
+  tile: Tile,
+  imageWidth: number,
+  imageHeight: number,
+  feather: number
+): Canvas => {
+  const { width: w, height: h } = tile;
+  const [canvas, ctx] = createCanvas(w, h);
+  ctx.drawImage(source, 0, 0, w, h);
+  ctx.globalCompositeOperation = 'destination-in';
+
+  const f = Math.min(feather, w / 2, h / 2);
+  if (tile.x > 0) ramp(ctx, [0, 0], [f, 0], { x: 0, y: 0, width: w, height: h });
+  if (tile.y > 0) ramp(ctx, [0, 0], [0, f], { x: 0, y: 0, width: w, height: h });
+  if (tile.isLastCol && tile.x + w < imageWidth) ramp(ctx, [w, 0], [w - f, 0], { x: 0, y: 0, width: w, height: h });
+  if (tile.isLastRow && tile.y + h < imageHeight) ramp(ctx, [0, h], [0, h - f], { x: 0, y: 0, width: w, height: h });
+
+  ctx.globalCompositeOperation = 'source-over';
+  return canvas;
+};
+
+/** Grows `rect` by `fraction` of its size on each side, clamped to the image. */
+export const padRect = (rect: Rect, fraction: number, imageWidth: number, imageHeight: number): Rect => {
+  const padX = Math.round(rect.width * fraction);
+  const padY = Math.round(rect.height * fraction);
+  const x = Math.max(0, rect.x - padX);
+  const y = Math.max(0, rect.y - padY);
+  return {
+    x,
+    y,
+    width: Math.min(imageWidth, rect.x + rect.width + padX) - x,
+    height: Math.min(imageHeight, rect.y + rect.height + padY) - y,
+  };
+};
+
+/** Grows `rect` around its centre to at least `minSize` on each axis, clamped to the image. */
+export const growRect = (rect: Rect, minSize: number, imageWidth: number, imageHeight: number): Rect => {
+  const width = Math.min(imageWidth, Math.max(rect.width, minSize));
+  const height = Math.min(imageHeight, Math.max(rect.height, minSize));
+  const x = Math.round(rect.x + rect.width / 2 - width / 2);
+  const y = Math.round(rect.y + rect.height / 2 - height / 2);
+  return {
+    x: Math.max(0, Math.min(x, imageWidth - width)),
+    y: Math.max(0, Math.min(y, imageHeight - height)),
+    width,
+    height,
+  };
+};
+
+const overlaps = (a: Rect, b: Rect) => (
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+);
+
+/** Replaces overlapping rects with their bounding box until none overlap. */
+export const mergeRects = (rects: Rect[]): Rect[] => {
+  const merged = [...rects];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length && !changed; j++) {
+        const a = merged[i];
+        const b = merged[j];
+        if (!overlaps(a, b)) continue;
+        const x = Math.min(a.x, b.x);
+        const y = Math.min(a.y, b.y);
+        merged[i] = {
+          x,
+          y,
+          width: Math.max(a.x + a.width, b.x + b.width) - x,
+          height: Math.max(a.y + a.height, b.y + b.height) - y,
+        };
+        merged.splice(j, 1);
+        changed = true;
+      }
+    }
+  }
+  return merged;
+};
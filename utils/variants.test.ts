@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BrushStroke, RetouchVariant, Spot } from '../types';
+import { getImage, registerImage, solidImage } from '../test/fakeCanvas';
+import { blendVariants, manualLayers } from './variants';
+
+vi.mock('./imageHelpers', async importOriginal => ({
+  ...await importOriginal<typeof import('./imageHelpers')>(),
+  ...(await import('../test/fakeCanvas')).fakeImageHelpers,
+}));
+
+const variant = (id: string, image = ''): RetouchVariant => ({ id, image, label: id });
+const spot = (id: string, variantId?: string): Spot => ({ id, shape: { kind: 'ellipse', cx: 50, cy: 50, rx: 2, ry: 2, rotation: 0 }, hardness: 0.5, variantId });
+const stroke = (id: string, mode: BrushStroke['mode'], variantId?: string): BrushStroke => ({
+  id, mode, points: [{ x: 10, y: 10 }], size: 3, hardness: 0.5, opacity: 1, variantId,
+});
+
+describe('manualLayers', () => {
+  const variants = [variant('a'), variant('b'), variant('c')];
+
+  it('groups spots and paint strokes by the variant they were made on', () => {
+    const layers = manualLayers(variants, 'a', [spot('s1', 'a'), spot('s2', 'b')], [stroke('p1', 'paint', 'b')]);
+    expect(layers.map(layer => layer.variant.id)).toEqual(['a', 'b']);
+    expect(layers[0].spots.map(s => s.id)).toEqual(['s1']);
+    expect(layers[1].spots.map(s => s.id)).toEqual(['s2']);
+    expect(layers[1].strokes.map(s => s.id)).toEqual(['p1']);
+  });
+
+  it('assigns unlabelled and orphaned marks to the active variant', () => {
+    const layers = manualLayers(variants, 'c', [spot('s1'), spot('s2', 'gone')], []);
+    expect(layers).toHaveLength(1);
+    expect(layers[0].variant.id).toBe('c');
+    expect(layers[0].spots.map(s => s.id)).toEqual(['s1', 's2']);
+  });
+
+  it('cuts every layer with erase strokes but skips layers with only erasing', () => {
+    const layers = manualLayers(variants, 'a', [spot('s1', 'a'), spot('s2', 'b')], [stroke('e1', 'erase', 'c')]);
+    expect(layers.map(layer => layer.variant.id)).toEqual(['a', 'b']);
+    expect(layers.every(layer => layer.strokes.map(s => s.id).join() === 'e1')).toBe(true);
+  });
+
+  it('returns nothing without variants', () => {
+    expect(manualLayers([], null, [spot('s1')], [])).toEqual([]);
+  });
+});
+
+describe('blendVariants', () => {
+  it('averages the variants evenly', async () => {
+    const blended = await blendVariants([
+      variant('a', registerImage(solidImage(4, 4, [0, 0, 0, 255]))),
+      variant('b', registerImage(solidImage(4, 4, [90, 150, 255, 255]))),
+      variant('c', registerImage(solidImage(4, 4, [210, 0, 60, 255]))),
+    ]);
+    const [r, g, b] = getImage(blended).sample(2, 2);
+    expect(r).toBeCloseTo(100, -1);
+    expect(g).toBeCloseTo(50, -1);
+    expect(b).toBeCloseTo(105, -1);
+  });
+});
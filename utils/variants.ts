@@ -0,0 +1,43 @@
+import { BrushStroke, RetouchVariant, Spot } from '../types';
+import { canvasToObjectUrl, createCanvas, loadImage } from './imageHelpers';
+
+export interface VariantLayer {
+  variant: RetouchVariant;
+  spots: Spot[];
+  strokes: BrushStroke[];
+}
+
+/**
+ * Groups the manual mask by source layer. Spots and paint strokes belong to the
+ * variant they were made on; erase strokes cut every layer.
+ */
+export const manualLayers = (
+  variants: RetouchVariant[],
+  activeVariantId: string | null,
+  spots: Spot[],
+  strokes: BrushStroke[]
+): VariantLayer[] => {
+  const fallback = variants.find(v => v.id === activeVariantId) ?? variants[0];
+  if (!fallback) return [];
+  const resolve = (id?: string) => (variants.some(v => v.id === id) ? id : fallback.id);
+
+  return variants
+    .map(variant => ({
+      variant,
+      spots: spots.filter(spot => resolve(spot.variantId) === variant.id),
+      strokes: strokes.filter(stroke => stroke.mode === 'erase' || resolve(stroke.variantId) === variant.id),
+    }))
+    .filter(layer => layer.spots.length > 0 || layer.strokes.some(stroke => stroke.mode === 'paint'));
+};
+
+/** Averages several aligned variants into one image. */
+export const blendVariants = async (variants: RetouchVariant[]): Promise<string> => {
+  const images = await Promise.all(variants.map(variant => loadImage(variant.image)));
+  const [canvas, ctx] = createCanvas(images[0].naturalWidth, images[0].naturalHeight);
+  // Running average: the n-th image is drawn at 1/n over the blend of the previous ones
+  images.forEach((img, i) => {
+    ctx.globalAlpha = 1 / (i + 1);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  });
+  return canvasToObjectUrl(canvas, 'image/png');
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL = 0x06054b50;
+
+const read = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+describe('createZip', () => {
+  it('stores each file after a local header with its CRC and sizes', async () => {
+    const zip = await createZip([{ name: 'hello.txt', data: new Blob(['hello']) }]);
+    expect(zip.type).toBe('application/zip');
+
+    const { bytes, view } = await read(zip);
+    expect(view.getUint32(0, true)).toBe(LOCAL_HEADER);
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint32(22, true)).toBe(5);
+    expect(view.getUint16(26, true)).toBe(9);
+    expect(new TextDecoder().decode(bytes.subarray(30, 39))).toBe('hello.txt');
+    expect(new TextDecoder().decode(bytes.subarray(39, 44))).toBe('hello');
+  });
+
+  it('points the central directory at every local header', async () => {
+    const zip = await createZip([
+      { name: 'a.jpg', data: new Blob([new Uint8Array([1, 2, 3])]) },
+      { name: 'photo é.png', data: new Blob([new Uint8Array(10)]) },
+    ]);
+    const { bytes, view } = await read(zip);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(END_OF_CENTRAL);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    const names: string[] = [];
+    let cursor = centralOffset;
+    while (cursor < end) {
+      expect(view.getUint32(cursor, true)).toBe(CENTRAL_HEADER);
+      expect(view.getUint16(cursor + 8, true)).toBe(0x0800); // UTF-8 names
+      const nameLength = view.getUint16(cursor + 28, true);
+      const localOffset = view.getUint32(cursor + 42, true);
+      expect(view.getUint32(localOffset, true)).toBe(LOCAL_HEADER);
+      expect(view.getUint32(localOffset + 14, true)).toBe(view.getUint32(cursor + 16, true));
+      names.push(new TextDecoder().decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength)));
+      cursor += 46 + nameLength;
+    }
+    expect(names).toEqual(['a.jpg', 'photo é.png']);
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const { bytes, view } = await read(await createZip([]));
+    expect(bytes.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(END_OF_CENTRAL);
+  });
+});
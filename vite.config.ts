@@ -8,11 +8,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The retouch proxy (server/index.js) holds the Gemini key
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Never the key itself: it would be readable by anyone who loads the app
+        'process.env.GEMINI_ENABLED': JSON.stringify(env.GEMINI_API_KEY ? 'true' : ''),
+        'process.env.RETOUCH_PROVIDER': JSON.stringify(env.RETOUCH_PROVIDER || ''),
+        'process.env.RETOUCH_ENDPOINT': JSON.stringify(env.RETOUCH_ENDPOINT || ''),
+        'process.env.RETOUCH_TIMEOUT': JSON.stringify(env.RETOUCH_TIMEOUT || '')
       },
       resolve: {
         alias: {